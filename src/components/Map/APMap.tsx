@@ -1,19 +1,63 @@
 import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { formatDistance } from '@/lib/format';
+import { AP_CENTRE } from '@/lib/places/geocoder';
+import { POI_CATEGORY_LABELS, POI_COLORS, type Poi } from '@/lib/places/pois';
+import { addressContext, addressName, type PointAddress } from '@/lib/places/reverse';
+import { ROAD_CLASS_LABELS } from '@/lib/routing/graph';
+import { ISOCHRONE_COLORS, type Isochrone } from '@/lib/routing/isochrone';
+import { roadLabel } from '@/lib/routing/steps';
+import type { MultimodalJourney } from '@/lib/transit/multimodal';
+import type { Railways } from '@/lib/transit/rail';
+import type { MatchedTrace } from '@/lib/trace/match';
+import type { LatLng } from '@/lib/geo';
+import { viaInsertIndex } from '@/lib/waypoints';
+import type { Location } from '@/types/location';
 
-interface Location {
-  name: string;
-  lat: number;
-  lng: number;
-}
+// A marker or the route being dragged. `index` counts intermediate stops:
+// the stop moved, or where a via-point pulled out of the route goes.
+export type TripDrag =
+  | { type: 'source'; point: LatLng }
+  | { type: 'destination'; point: LatLng }
+  | { type: 'stop' | 'via'; index: number; point: LatLng };
 
 interface APMapProps {
   source: Location | null;
   destination: Location | null;
-  route: [number, number][] | null;
+  // Intermediate stops, in travel order
+  waypoints: Location[];
+  // Charging stations an electric car's route stops at
+  chargingStops: Location[];
+  // Route options; the active one is drawn on top, the rest as muted alternatives
+  routes: [number, number][][];
+  activeRoute: number;
+  onRouteSelect: (index: number) => void;
+  // Stretch of the active route picked in the directions list
+  highlightedStep: [number, number][] | null;
+  // Point on the route under the pointer in the elevation chart
+  elevationPoint: [number, number] | null;
+  // Reachable areas, drawn as nested translucent bands
+  isochrone: Isochrone | null;
+  // Bus or train journey, drawn leg by leg in each route's colour
+  transitJourney: MultimodalJourney | null;
+  // Railway lines and stations, drawn beneath everything else when shown
+  railways: Railways | null;
+  // Imported GPS trace as recorded and as matched to the roads, with the replay marker
+  trace: MatchedTrace | null;
+  tracePoint: LatLng | null;
+  // Called as markers or the route are dragged, with `done` once dropped
+  onTripDrag: (drag: TripDrag, done: boolean) => void;
   onMapClick: (lat: number, lng: number) => void;
+  // Point clicked on the map and what is there, null while being looked up
   selectedLocation: { lat: number; lng: number } | null;
+  selectedAddress: PointAddress | null;
+  onSelectedUse: (role: 'source' | 'destination') => void;
+  // Hospitals, temples and so on found by a category search
+  pois: Poi[];
+  onPoiUse: (poi: Poi, role: 'source' | 'destination') => void;
+  // Called once the map stops moving
+  onCenterChange: (center: LatLng) => void;
 }
 
 // Andhra Pradesh capitals
@@ -40,24 +84,203 @@ const createIcon = (color: string) => L.divIcon({
   iconAnchor: [12, 12],
 });
 
+// Numbered marker for intermediate stops
+const createStopIcon = (index: number) => L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 26px;
+      height: 26px;
+      background: #8b5cf6;
+      border: 3px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      color: white;
+      font: 700 12px/20px sans-serif;
+      text-align: center;
+    ">${index}</div>
+  `,
+  iconSize: [26, 26],
+  iconAnchor: [13, 13],
+});
+
+// Lightning bolt marker for EV charging stops
+const chargingIcon = L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 24px;
+      height: 24px;
+      background: #059669;
+      border: 3px solid white;
+      border-radius: 6px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      color: white;
+      font: 700 13px/18px sans-serif;
+      text-align: center;
+    ">⚡</div>
+  `,
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+// Milliseconds between live route updates while dragging, and how long
+// after a drag the map keeps its view rather than refitting to the trip
+const DRAG_INTERVAL = 150;
+const REFIT_PAUSE = 2000;
+
+const recentlyDragged = (isDragging: boolean, lastDrag: number) => isDragging || Date.now() - lastDrag < REFIT_PAUSE;
+
+// Leaflet writes string popups and tooltips into the page as HTML. Names can
+// come from a geocoder, a shared link or an imported timetable, so they are
+// set as text instead.
+function plainText(text: string, tag: 'span' | 'strong' = 'span'): HTMLElement {
+  const element = L.DomUtil.create(tag);
+  element.textContent = text;
+  return element;
+}
+
+// One line of bold text, for a trip marker
+function labelPopup(text: string, color?: string): HTMLElement {
+  const label = plainText(text, 'strong');
+  if (color) label.style.color = color;
+  return label;
+}
+
+// Popup for the clicked point: what is there, and buttons to route from or to it
+function selectedPopup(
+  location: { lat: number; lng: number },
+  address: PointAddress | null,
+  onUse: (role: 'source' | 'destination') => void,
+): HTMLElement {
+  const container = L.DomUtil.create('div');
+  container.style.minWidth = '190px';
+  const line = (text: string, style: string) => {
+    const div = L.DomUtil.create('div', '', container);
+    div.textContent = text;
+    div.style.cssText = style;
+  };
+
+  line(address ? addressName(address) : 'Selected Location', 'font-weight: 600;');
+  if (address) {
+    const context = addressContext(address);
+    if (context) line(context, 'font-size: 12px;');
+    if (address.road) {
+      line(
+        `Nearest road: ${roadLabel(address.road.road)} · ${formatDistance(address.road.distance)} away`,
+        'font-size: 12px;',
+      );
+    }
+  } else {
+    line('Looking up…', 'font-size: 12px; color: #64748b;');
+  }
+  line(`${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`, 'font-size: 11px; color: #64748b;');
+  addRouteButtons(container, onUse);
+  return container;
+}
+
+// "Start here" and "Go here" buttons at the foot of a popup
+function addRouteButtons(container: HTMLElement, onUse: (role: 'source' | 'destination') => void) {
+  const buttons = L.DomUtil.create('div', '', container);
+  buttons.style.cssText = 'display: flex; gap: 6px; margin-top: 8px;';
+  const button = (text: string, color: string, role: 'source' | 'destination') => {
+    const element = L.DomUtil.create('button', '', buttons);
+    element.type = 'button';
+    element.textContent = text;
+    element.style.cssText = `flex: 1; padding: 4px 8px; border-radius: 6px; background: ${color}; color: white; font-size: 12px; font-weight: 600;`;
+    L.DomEvent.on(element, 'click', () => onUse(role));
+  };
+  button('Start here', '#10b981', 'source');
+  button('Go here', '#ef4444', 'destination');
+}
+
+function poiPopup(poi: Poi, onUse: (role: 'source' | 'destination') => void): HTMLElement {
+  const container = L.DomUtil.create('div');
+  container.style.minWidth = '190px';
+  const name = L.DomUtil.create('div', '', container);
+  name.textContent = poi.name;
+  name.style.fontWeight = '600';
+  const category = L.DomUtil.create('div', '', container);
+  category.textContent = POI_CATEGORY_LABELS[poi.category].one;
+  category.style.cssText = `font-size: 12px; color: ${POI_COLORS[poi.category]};`;
+  addRouteButtons(container, onUse);
+  return container;
+}
+
 const sourceIcon = createIcon('#10b981');
 const destinationIcon = createIcon('#ef4444');
 const selectedIcon = createIcon('#0ea5e9');
 const capitalIcon = createIcon('#f59e0b');
 
-const APMap = ({ source, destination, route, onMapClick, selectedLocation }: APMapProps) => {
+const APMap = ({
+  source,
+  destination,
+  waypoints,
+  chargingStops,
+  routes,
+  activeRoute,
+  onRouteSelect,
+  highlightedStep,
+  elevationPoint,
+  isochrone,
+  transitJourney,
+  railways,
+  trace,
+  tracePoint,
+  onTripDrag,
+  onMapClick,
+  selectedLocation,
+  selectedAddress,
+  onSelectedUse,
+  pois,
+  onPoiUse,
+  onCenterChange,
+}: APMapProps) => {
   const mapRef = useRef<L.Map | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const markersRef = useRef<L.Marker[]>([]);
-  const routeLayerRef = useRef<L.Polyline | null>(null);
+  const routeLayersRef = useRef<L.Polyline[]>([]);
+  const fittedRoutesRef = useRef<[number, number][][] | null>(null);
+  const stepLayerRef = useRef<L.Layer | null>(null);
+  const elevationMarkerRef = useRef<L.CircleMarker | null>(null);
+  const isochroneLayerRef = useRef<L.LayerGroup | null>(null);
+  const transitLayerRef = useRef<L.LayerGroup | null>(null);
+  const railwayLayerRef = useRef<L.LayerGroup | null>(null);
+  const traceLayerRef = useRef<L.LayerGroup | null>(null);
+  const traceMarkerRef = useRef<L.CircleMarker | null>(null);
+  const selectedMarkerRef = useRef<L.Marker | null>(null);
+  const onSelectedUseRef = useRef(onSelectedUse);
+  onSelectedUseRef.current = onSelectedUse;
+  const poiLayerRef = useRef<L.LayerGroup | null>(null);
+  const onPoiUseRef = useRef(onPoiUse);
+  onPoiUseRef.current = onPoiUse;
+  const onCenterChangeRef = useRef(onCenterChange);
+  onCenterChangeRef.current = onCenterChange;
   const [isMapReady, setIsMapReady] = useState(false);
+  // Markers are left alone mid-drag, and the view is not refitted just after one
+  const isDraggingRef = useRef(false);
+  const lastDragRef = useRef(0);
+  const lastEmitRef = useRef(0);
+  const tripRef = useRef<LatLng[]>([]);
+  tripRef.current = [source, ...waypoints, destination].flatMap((stop) => (stop ? [[stop.lat, stop.lng] as LatLng] : []));
+
+  // Live updates are spaced out so a remote routing provider is not flooded
+  const emitDrag = (drag: TripDrag, done: boolean) => {
+    const now = Date.now();
+    lastDragRef.current = now;
+    if (!done && now - lastEmitRef.current < DRAG_INTERVAL) return;
+    lastEmitRef.current = now;
+    onTripDrag(drag, done);
+  };
+  const emitDragRef = useRef(emitDrag);
+  emitDragRef.current = emitDrag;
 
   // Initialize map
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return;
 
     const map = L.map(containerRef.current, {
-      center: [15.9129, 79.7400],
+      center: AP_CENTRE,
       zoom: 7,
       zoomControl: true,
     });
@@ -70,13 +293,20 @@ const APMap = ({ source, destination, route, onMapClick, selectedLocation }: APM
     capitals.forEach((capital) => {
       L.marker([capital.lat, capital.lng], { icon: capitalIcon })
         .addTo(map)
-        .bindPopup(`<strong>${capital.name}</strong>`);
+        .bindPopup(labelPopup(capital.name));
     });
 
+    // Railways sit below the route and other overlays
+    map.createPane('railways').style.zIndex = '350';
+
     // Handle map clicks
     map.on('click', (e) => {
       onMapClick(e.latlng.lat, e.latlng.lng);
     });
+    map.on('moveend', () => {
+      const center = map.getCenter();
+      onCenterChangeRef.current([center.lat, center.lng]);
+    });
 
     mapRef.current = map;
     setIsMapReady(true);
@@ -87,9 +317,24 @@ const APMap = ({ source, destination, route, onMapClick, selectedLocation }: APM
     };
   }, [onMapClick]);
 
-  // Update markers when source/destination changes
+  // Update markers when source/destination/stops change
   useEffect(() => {
-    if (!mapRef.current || !isMapReady) return;
+    if (!mapRef.current || !isMapReady || isDraggingRef.current) return;
+
+    // Trip markers can be dragged to a new spot
+    const draggable = (marker: L.Marker, drag: (point: LatLng) => TripDrag) => {
+      const at = (): LatLng => [marker.getLatLng().lat, marker.getLatLng().lng];
+      marker.on('dragstart', () => {
+        isDraggingRef.current = true;
+        lastEmitRef.current = 0;
+      });
+      marker.on('drag', () => emitDragRef.current(drag(at()), false));
+      marker.on('dragend', () => {
+        isDraggingRef.current = false;
+        emitDragRef.current(drag(at()), true);
+      });
+      return marker;
+    };
 
     // Clear existing markers
     markersRef.current.forEach((marker) => marker.remove());
@@ -97,69 +342,366 @@ const APMap = ({ source, destination, route, onMapClick, selectedLocation }: APM
 
     // Add source marker
     if (source) {
-      const marker = L.marker([source.lat, source.lng], { icon: sourceIcon })
+      const marker = draggable(
+        L.marker([source.lat, source.lng], { icon: sourceIcon, draggable: true }),
+        (point) => ({ type: 'source', point }),
+      )
         .addTo(mapRef.current)
-        .bindPopup(`<strong style="color: #10b981;">Start: ${source.name}</strong>`);
+        .bindPopup(labelPopup(`Start: ${source.name}`, '#10b981'));
       markersRef.current.push(marker);
     }
 
-    // Add destination marker
-    if (destination) {
-      const marker = L.marker([destination.lat, destination.lng], { icon: destinationIcon })
-        .addTo(mapRef.current)
-        .bindPopup(`<strong style="color: #ef4444;">End: ${destination.name}</strong>`);
+    // Add numbered stop markers
+    waypoints.forEach((waypoint, index) => {
+      const marker = draggable(
+        L.marker([waypoint.lat, waypoint.lng], { icon: createStopIcon(index + 1), draggable: true }),
+        (point) => ({ type: 'stop', index, point }),
+      )
+        .addTo(mapRef.current!)
+        .bindPopup(labelPopup(`Stop ${index + 1}: ${waypoint.name}`, '#8b5cf6'));
       markersRef.current.push(marker);
-    }
+    });
+
+    // Add charging stop markers
+    chargingStops.forEach((stop) => {
+      const marker = L.marker([stop.lat, stop.lng], { icon: chargingIcon })
+        .addTo(mapRef.current!)
+        .bindPopup(labelPopup(`Charging: ${stop.name}`, '#059669'));
+      markersRef.current.push(marker);
+    });
 
-    // Add selected location marker
-    if (selectedLocation && !source && !destination) {
-      const marker = L.marker([selectedLocation.lat, selectedLocation.lng], { icon: selectedIcon })
+    // Add destination marker
+    if (destination) {
+      const marker = draggable(
+        L.marker([destination.lat, destination.lng], { icon: destinationIcon, draggable: true }),
+        (point) => ({ type: 'destination', point }),
+      )
         .addTo(mapRef.current)
-        .bindPopup(`<strong>Selected Location</strong><br/>${selectedLocation.lat.toFixed(4)}, ${selectedLocation.lng.toFixed(4)}`);
+        .bindPopup(labelPopup(`End: ${destination.name}`, '#ef4444'));
       markersRef.current.push(marker);
     }
 
-    // Fit bounds to markers
-    if (source && destination) {
-      const bounds = L.latLngBounds([
-        [source.lat, source.lng],
-        [destination.lat, destination.lng]
-      ]);
+    // Fit bounds to markers, unless they were just dragged into place
+    if (recentlyDragged(isDraggingRef.current, lastDragRef.current)) return;
+    const tripPoints = [source, ...waypoints, destination].filter(Boolean) as Location[];
+    if (tripPoints.length > 1) {
+      const bounds = L.latLngBounds(tripPoints.map((point) => [point.lat, point.lng] as [number, number]));
       mapRef.current.fitBounds(bounds, { padding: [50, 50] });
     } else if (source) {
       mapRef.current.setView([source.lat, source.lng], 12);
     } else if (destination) {
       mapRef.current.setView([destination.lat, destination.lng], 12);
     }
-  }, [source, destination, selectedLocation, isMapReady]);
+  }, [source, destination, waypoints, chargingStops, isMapReady]);
+
+  // Marker on the clicked point, its popup filled in once the point is looked up
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+    selectedMarkerRef.current?.remove();
+    selectedMarkerRef.current = null;
+    if (!selectedLocation) return;
+    selectedMarkerRef.current = L.marker([selectedLocation.lat, selectedLocation.lng], { icon: selectedIcon })
+      .addTo(mapRef.current)
+      .bindPopup('')
+      .openPopup();
+  }, [selectedLocation, isMapReady]);
+
+  useEffect(() => {
+    if (!selectedLocation) return;
+    selectedMarkerRef.current?.setPopupContent(
+      selectedPopup(selectedLocation, selectedAddress, (role) => onSelectedUseRef.current(role)),
+    );
+  }, [selectedLocation, selectedAddress, isMapReady]);
+
+  // Places found by a category search, as dots in the category's colour
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    poiLayerRef.current?.remove();
+    poiLayerRef.current = null;
+    if (pois.length === 0) return;
 
-  // Update route when it changes
+    const group = L.layerGroup().addTo(mapRef.current);
+    pois.forEach((poi) => {
+      L.circleMarker(poi.point, { radius: 7, color: '#ffffff', weight: 2, fillColor: POI_COLORS[poi.category], fillOpacity: 1 })
+        .bindTooltip(plainText(poi.name))
+        .bindPopup(() =>
+          poiPopup(poi, (role) => {
+            mapRef.current?.closePopup();
+            onPoiUseRef.current(poi, role);
+          }),
+        )
+        .addTo(group);
+    });
+    poiLayerRef.current = group;
+  }, [pois, isMapReady]);
+
+  // Update routes when they or the active choice change
   useEffect(() => {
     if (!mapRef.current || !isMapReady) return;
 
-    // Remove existing route
-    if (routeLayerRef.current) {
-      routeLayerRef.current.remove();
-      routeLayerRef.current = null;
+    // Remove existing routes
+    routeLayersRef.current.forEach((layer) => layer.remove());
+    routeLayersRef.current = [];
+
+    // Pulling the active route out to a new spot inserts a via-point there.
+    // The pointer is followed on the document, as the route redrawn under it
+    // would otherwise swallow the events.
+    const startViaDrag = (geometry: LatLng[], start: L.LatLng) => {
+      const map = mapRef.current!;
+      const index = viaInsertIndex(geometry, tripRef.current, [start.lat, start.lng]);
+      const handle = L.marker(start, { icon: createStopIcon(index + 1), interactive: false }).addTo(map);
+      let point: LatLng | null = null;
+      isDraggingRef.current = true;
+      lastEmitRef.current = 0;
+      map.dragging.disable();
+
+      const move = (e: MouseEvent) => {
+        const latlng = map.mouseEventToLatLng(e);
+        handle.setLatLng(latlng);
+        point = [latlng.lat, latlng.lng];
+        emitDragRef.current({ type: 'via', index, point }, false);
+      };
+      const end = () => {
+        document.removeEventListener('mousemove', move);
+        map.dragging.enable();
+        handle.remove();
+        isDraggingRef.current = false;
+        // A click on the route without moving adds nothing
+        if (point) emitDragRef.current({ type: 'via', index, point }, true);
+      };
+      document.addEventListener('mousemove', move);
+      document.addEventListener('mouseup', end, { once: true });
+    };
+
+    // Alternatives first so the active route is drawn over them
+    const drawOrder = routes.map((_, index) => index).filter((index) => index !== activeRoute);
+    if (routes[activeRoute]) drawOrder.push(activeRoute);
+
+    drawOrder.forEach((index) => {
+      const isActive = index === activeRoute;
+      const polyline = L.polyline(routes[index], {
+        color: isActive ? '#0ea5e9' : '#94a3b8',
+        weight: isActive ? 5 : 6,
+        opacity: isActive ? 0.8 : 0.6,
+        lineCap: 'round',
+        lineJoin: 'round',
+        bubblingMouseEvents: false,
+      }).addTo(mapRef.current!);
+
+      if (!isActive) {
+        polyline.bindTooltip('Click to use this route', { sticky: true });
+        polyline.on('click', () => onRouteSelect(index));
+      } else {
+        polyline.bindTooltip('Drag to add a stop', { sticky: true });
+        polyline.on('mousedown', (e: L.LeafletMouseEvent) => startViaDrag(routes[index], e.latlng));
+      }
+      routeLayersRef.current.push(polyline);
+    });
+
+    // Fit to all routes when a new set arrives, not when switching between them or reshaping one
+    if (routes.length > 0 && fittedRoutesRef.current !== routes && !recentlyDragged(isDraggingRef.current, lastDragRef.current)) {
+      const bounds = L.latLngBounds(routes.flat());
+      mapRef.current.fitBounds(bounds, { padding: [50, 50] });
     }
+    fittedRoutesRef.current = routes;
+  }, [routes, activeRoute, onRouteSelect, isMapReady]);
+
+  // Highlight the selected direction step and bring it into view
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
 
-    // Add new route
-    if (route && route.length > 0) {
-      const polyline = L.polyline(route, {
-        color: '#0ea5e9',
-        weight: 5,
-        opacity: 0.8,
+    stepLayerRef.current?.remove();
+    stepLayerRef.current = null;
+    if (!highlightedStep || highlightedStep.length === 0) return;
+
+    if (highlightedStep.length === 1) {
+      stepLayerRef.current = L.circleMarker(highlightedStep[0], {
+        radius: 10,
+        color: '#f59e0b',
+        weight: 4,
+        fillOpacity: 0.3,
+      }).addTo(mapRef.current);
+      mapRef.current.panTo(highlightedStep[0]);
+    } else {
+      stepLayerRef.current = L.polyline(highlightedStep, {
+        color: '#f59e0b',
+        weight: 8,
+        opacity: 0.9,
         lineCap: 'round',
         lineJoin: 'round',
+        interactive: false,
+      }).addTo(mapRef.current);
+      mapRef.current.fitBounds(L.latLngBounds(highlightedStep), { padding: [80, 80], maxZoom: 13 });
+    }
+  }, [highlightedStep, isMapReady]);
+
+  // Follow the pointer along the elevation chart, moving one marker rather than redrawing it
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    if (!elevationPoint) {
+      elevationMarkerRef.current?.remove();
+      elevationMarkerRef.current = null;
+    } else if (elevationMarkerRef.current) {
+      elevationMarkerRef.current.setLatLng(elevationPoint);
+    } else {
+      elevationMarkerRef.current = L.circleMarker(elevationPoint, {
+        radius: 7,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: '#0ea5e9',
+        fillOpacity: 1,
+        interactive: false,
+      }).addTo(mapRef.current);
+    }
+  }, [elevationPoint, isMapReady]);
+
+  // Draw reachability bands, the widest first so the quicker ones sit on top
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    isochroneLayerRef.current?.remove();
+    isochroneLayerRef.current = null;
+    if (!isochrone) return;
+
+    const group = L.layerGroup().addTo(mapRef.current);
+    [...isochrone.bands].reverse().forEach((band) => {
+      const color = ISOCHRONE_COLORS[isochrone.bands.indexOf(band)];
+      L.polygon(band.rings, {
+        color,
+        weight: 1.5,
+        fillColor: color,
+        fillOpacity: 0.18,
+        interactive: false,
+      }).addTo(group);
+    });
+    L.circleMarker(isochrone.origin, { radius: 6, color: '#ffffff', weight: 2, fillColor: '#0f172a', fillOpacity: 1 })
+      .bindTooltip('Isochrone origin')
+      .addTo(group);
+    isochroneLayerRef.current = group;
+
+    const outer = isochrone.bands[isochrone.bands.length - 1];
+    if (outer?.rings.length) {
+      mapRef.current.fitBounds(L.latLngBounds(outer.rings.flat()), { padding: [40, 40] });
+    }
+  }, [isochrone, isMapReady]);
+
+  // Draw a journey: rides in their route colour, road legs like a route, walks dashed
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    transitLayerRef.current?.remove();
+    transitLayerRef.current = null;
+    if (!transitJourney) return;
+
+    const group = L.layerGroup().addTo(mapRef.current);
+    const points: [number, number][] = [];
+    transitJourney.legs.forEach((leg) => {
+      if (leg.type === 'walk') {
+        const line: [number, number][] = [[leg.from.lat, leg.from.lng], [leg.to.lat, leg.to.lng]];
+        L.polyline(line, { color: '#64748b', weight: 4, opacity: 0.9, dashArray: '2 8', lineCap: 'round' })
+          .bindTooltip(plainText(`Walk to ${leg.to.name}`), { sticky: true })
+          .addTo(group);
+        points.push(...line);
+        return;
+      }
+      if (leg.type === 'road') {
+        L.polyline(leg.geometry, { color: '#0ea5e9', weight: 5, opacity: 0.8, lineCap: 'round', lineJoin: 'round' })
+          .bindTooltip(plainText(`To ${leg.to.name}`), { sticky: true })
+          .addTo(group);
+        points.push(...leg.geometry);
+        return;
+      }
+      L.polyline(leg.geometry, { color: leg.route.color, weight: 6, opacity: 0.9, lineCap: 'round', lineJoin: 'round' })
+        .bindTooltip(plainText(`${leg.route.shortName} towards ${leg.headsign}`), { sticky: true })
+        .addTo(group);
+      leg.stops.forEach((stop, i) => {
+        const isEnd = i === 0 || i === leg.stops.length - 1;
+        L.circleMarker([stop.lat, stop.lng], {
+          radius: isEnd ? 6 : 3,
+          color: isEnd ? leg.route.color : '#ffffff',
+          weight: 2,
+          fillColor: isEnd ? '#ffffff' : leg.route.color,
+          fillOpacity: 1,
+        })
+          .bindTooltip(plainText(stop.name))
+          .addTo(group);
+      });
+      points.push(...leg.geometry);
+    });
+    transitLayerRef.current = group;
+
+    if (points.length > 0) {
+      mapRef.current.fitBounds(L.latLngBounds(points), { padding: [50, 50] });
+    }
+  }, [transitJourney, isMapReady]);
+
+  // Railway lines in the classic black-and-white dashes, with a dot at each station
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    railwayLayerRef.current?.remove();
+    railwayLayerRef.current = null;
+    if (!railways) return;
+
+    const group = L.layerGroup().addTo(mapRef.current);
+    railways.lines.forEach((line) => {
+      L.polyline(line.geometry, { pane: 'railways', color: '#334155', weight: 5, opacity: 0.8 })
+        .bindTooltip(plainText(line.name), { sticky: true })
+        .addTo(group);
+      L.polyline(line.geometry, { pane: 'railways', color: '#ffffff', weight: 2, dashArray: '6 6', interactive: false })
+        .addTo(group);
+    });
+    railways.stations.forEach((station) => {
+      L.circleMarker(station.point, { pane: 'railways', radius: 4, color: '#334155', weight: 2, fillColor: '#ffffff', fillOpacity: 1 })
+        .bindTooltip(plainText(`${station.name} (${station.code})`))
+        .addTo(group);
+    });
+    railwayLayerRef.current = group;
+  }, [railways, isMapReady]);
+
+  // Draw a GPS trace faintly as recorded, and over it the roads it was matched to
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    traceLayerRef.current?.remove();
+    traceLayerRef.current = null;
+    if (!trace) return;
+
+    const group = L.layerGroup().addTo(mapRef.current);
+    const recorded = trace.trace.points.map(({ point }) => point);
+    L.polyline(recorded, { color: '#64748b', weight: 2, opacity: 0.7, dashArray: '4 6', interactive: false }).addTo(group);
+    trace.segments.forEach(({ edge, start, end }) => {
+      L.polyline([start, end], { color: '#7c3aed', weight: 6, opacity: 0.85, lineCap: 'round' })
+        .bindTooltip(`${roadLabel(edge.road)} · ${ROAD_CLASS_LABELS[edge.road.class]}`, { sticky: true })
+        .addTo(group);
+    });
+    traceLayerRef.current = group;
+
+    mapRef.current.fitBounds(L.latLngBounds(recorded), { padding: [50, 50] });
+  }, [trace, isMapReady]);
+
+  // Move the replay marker along the matched trace
+  useEffect(() => {
+    if (!mapRef.current || !isMapReady) return;
+
+    if (!tracePoint) {
+      traceMarkerRef.current?.remove();
+      traceMarkerRef.current = null;
+    } else if (traceMarkerRef.current) {
+      traceMarkerRef.current.setLatLng(tracePoint);
+    } else {
+      traceMarkerRef.current = L.circleMarker(tracePoint, {
+        radius: 8,
+        color: '#ffffff',
+        weight: 3,
+        fillColor: '#7c3aed',
+        fillOpacity: 1,
+        interactive: false,
       }).addTo(mapRef.current);
-      
-      routeLayerRef.current = polyline;
-      
-      // Fit to route bounds
-      const bounds = L.latLngBounds(route);
-      mapRef.current.fitBounds(bounds, { padding: [50, 50] });
     }
-  }, [route, isMapReady]);
+  }, [tracePoint, isMapReady]);
 
   return <div ref={containerRef} className="h-full w-full" />;
 };
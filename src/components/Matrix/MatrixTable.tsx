@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import type { Location } from '@/types/location';
+
+interface MatrixTableProps {
+  origins: Location[];
+  destinations: Location[];
+  // Row per origin, column per destination; null where no route exists
+  values: (number | null)[][];
+  metric: 'distance' | 'duration';
+}
+
+// Sort by origin name (column null) or by the values in one destination column
+interface Sort {
+  column: number | null;
+  descending: boolean;
+}
+
+// Green for the smallest values through to red for the largest
+const heat = (t: number) => `hsl(${Math.round(140 * (1 - t))} 70% 85%)`;
+
+const MatrixTable = ({ origins, destinations, values, metric }: MatrixTableProps) => {
+  const [sort, setSort] = useState<Sort>({ column: null, descending: false });
+
+  const known = values.flat().filter((value): value is number => value !== null);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  const format = metric === 'distance' ? formatDistance : formatDuration;
+
+  // A column from an earlier, wider result falls back to sorting by name
+  const column = sort.column !== null && sort.column < destinations.length ? sort.column : null;
+  const rows = origins.map((_, i) => i);
+  rows.sort((a, b) => {
+    let order: number;
+    if (column === null) {
+      order = origins[a].name.localeCompare(origins[b].name);
+    } else {
+      // Pairs without a route stay at the bottom either way
+      const x = values[a][column];
+      const y = values[b][column];
+      if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0);
+      order = x - y;
+    }
+    return sort.descending ? -order : order;
+  });
+
+  const toggleSort = (column: number | null) =>
+    setSort((current) => ({ column, descending: current.column === column && !current.descending }));
+
+  const header = (label: string, index: number | null, className?: string) => (
+    <TableHead key={index ?? 'origin'} className={cn('whitespace-nowrap', className)}>
+      <button
+        onClick={() => toggleSort(index)}
+        className="inline-flex items-center gap-1 hover:text-foreground transition-colors"
+      >
+        {label}
+        {column === index &&
+          (sort.descending ? <ArrowDown className="h-3.5 w-3.5" /> : <ArrowUp className="h-3.5 w-3.5" />)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {header('From \\ To', null, 'sticky left-0 bg-card z-10')}
+          {destinations.map((destination, j) => header(destination.name, j, 'text-right'))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((i) => (
+          <TableRow key={i}>
+            <TableCell className="sticky left-0 bg-card font-medium whitespace-nowrap">{origins[i].name}</TableCell>
+            {destinations.map((destination, j) => {
+              const value = values[i][j];
+              return (
+                <TableCell
+                  key={j}
+                  className="text-right tabular-nums whitespace-nowrap text-slate-900"
+                  style={value === null ? undefined : { background: heat(max > min ? (value - min) / (max - min) : 0) }}
+                  title={`${origins[i].name} → ${destination.name}`}
+                >
+                  {value === null ? <span className="text-muted-foreground">—</span> : format(value)}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default MatrixTable;
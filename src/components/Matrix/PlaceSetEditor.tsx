@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { ClipboardPaste, Landmark, MapPin, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import { Textarea } from '@/components/ui/textarea';
+import LocationSearch from '@/components/Sidebar/LocationSearch';
+import { parsePlaces } from '@/lib/matrix';
+import { districtHeadquarters, loadGazetteer, type Gazetteer } from '@/lib/places/gazetteer';
+import type { Location } from '@/types/location';
+
+interface PlaceSetEditorProps {
+  title: string;
+  places: Location[];
+  onChange: (places: Location[]) => void;
+}
+
+const samePlace = (a: Location, b: Location) => a.name === b.name && a.lat === b.lat && a.lng === b.lng;
+
+// A list of places built up from the gazetteer, the district headquarters or pasted lines
+const PlaceSetEditor = ({ title, places, onChange }: PlaceSetEditorProps) => {
+  const [isPasting, setIsPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  // Bumped to empty the search box after each pick
+  const [searchKey, setSearchKey] = useState(0);
+
+  const add = (added: Location[]) => {
+    const fresh = added.filter((place, i) => ![...places, ...added.slice(0, i)].some((other) => samePlace(place, other)));
+    onChange([...places, ...fresh]);
+  };
+
+  // Names are looked up in the gazetteer, fetched the first time it is needed
+  const addFromGazetteer = async (pick: (gazetteer: Gazetteer) => Location[]) => {
+    try {
+      add(pick(await loadGazetteer()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load the gazetteer');
+    }
+  };
+
+  const addPasted = () =>
+    addFromGazetteer((gazetteer) => {
+      const { places: parsed, errors } = parsePlaces(pasted, gazetteer);
+      if (errors.length > 0) {
+        toast.error(`${errors.length} line${errors.length === 1 ? '' : 's'} skipped`, {
+          description: errors.slice(0, 3).join('\n'),
+        });
+      }
+      setPasted('');
+      setIsPasting(false);
+      return parsed;
+    });
+
+  return (
+    <div className="bg-card rounded-xl shadow-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium text-foreground">
+          {title} <span className="text-sm text-muted-foreground">({places.length})</span>
+        </h2>
+        {places.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-destructive transition-colors"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <LocationSearch
+        key={searchKey}
+        placeholder="Add a place..."
+        value={null}
+        onChange={(location) => {
+          if (!location) return;
+          add([location]);
+          setSearchKey((key) => key + 1);
+        }}
+        icon={<MapPin className="h-5 w-5" />}
+      />
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addFromGazetteer((gazetteer) => districtHeadquarters(gazetteer).map(({ location }) => location))}
+          className="flex-1"
+        >
+          <Landmark className="h-4 w-4 mr-2" />
+          All 26 district HQs
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setIsPasting(!isPasting)} className="flex-1">
+          <ClipboardPaste className="h-4 w-4 mr-2" />
+          Paste list
+        </Button>
+      </div>
+
+      {isPasting && (
+        <div className="space-y-2">
+          <Textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={5}
+            placeholder={'One place per line:\nDepot, 16.5062, 80.6480\n17.0005, 81.8040\nKurnool'}
+            className="font-mono text-xs"
+          />
+          <Button size="sm" onClick={addPasted} disabled={!pasted.trim()} className="w-full">
+            Add places
+          </Button>
+        </div>
+      )}
+
+      {places.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+          {places.map((place, i) => (
+            <span
+              key={`${place.name}-${place.lat}-${place.lng}`}
+              className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-1 text-xs text-foreground"
+            >
+              {place.name}
+              <button
+                onClick={() => onChange(places.filter((_, j) => j !== i))}
+                className="text-muted-foreground hover:text-destructive transition-colors"
+                title={`Remove ${place.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaceSetEditor;
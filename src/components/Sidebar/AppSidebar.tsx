@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Navigation2, 
@@ -8,90 +8,385 @@ import {
   Zap,
   ArrowRight,
   Sparkles,
+  ShieldOff,
+  BatteryCharging,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/components/ui/sonner';
 import LocationSearch from './LocationSearch';
+import PoiSearch from './PoiSearch';
+import WaypointList from './WaypointList';
+import StopOptimiser from './StopOptimiser';
+import RouteComparison, { type RouteOption } from './RouteComparison';
+import TravelModeSelector from './TravelModeSelector';
+import AvoidanceOptions from './AvoidanceOptions';
+import DepartureTimePicker from './DepartureTimePicker';
+import DepartureChart from './DepartureChart';
+import IsochronePanel from './IsochronePanel';
+import TracePanel from './TracePanel';
+import TransitPanel from './TransitPanel';
+import RailAlternative from './RailAlternative';
+import DirectionsPanel from './DirectionsPanel';
+import ElevationChart from './ElevationChart';
+import TripCost from './TripCost';
+import EvOptions, { type EvSettings } from './EvOptions';
 import { cn } from '@/lib/utils';
-
-interface Location {
-  name: string;
-  lat: number;
-  lng: number;
-}
+import { formatClock, formatDistance, formatDuration } from '@/lib/format';
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { describeAvoidance, type Avoidance } from '@/lib/routing/avoid';
+import type { Poi } from '@/lib/places/pois';
+import { getRoutingProvider } from '@/lib/routing/config';
+import { loadChargingStations, planEvTrip, type EvPlan } from '@/lib/routing/ev';
+import type { Isochrone } from '@/lib/routing/isochrone';
+import { loadRoadGraph, type RoadClass } from '@/lib/routing/graph';
+import { TRAVEL_PROFILES } from '@/lib/routing/profiles';
+import type { RouteStep, RoutingProfile, TripTime } from '@/lib/routing/provider';
+import { planRailJourney, type MultimodalJourney } from '@/lib/transit/multimodal';
+import { loadRailways } from '@/lib/transit/rail';
+import type { MatchedTrace } from '@/lib/trace/match';
+import type { Location, Waypoint } from '@/types/location';
 
 interface AppSidebarProps {
   source: Location | null;
   destination: Location | null;
+  waypoints: Waypoint[];
   onSourceChange: (location: Location | null) => void;
   onDestinationChange: (location: Location | null) => void;
-  onRouteCalculate: (route: [number, number][]) => void;
+  onWaypointsChange: (waypoints: Waypoint[]) => void;
+  onRouteCalculate: (routes: [number, number][][]) => void;
+  activeRoute: number;
+  onActiveRouteChange: (index: number) => void;
+  onStepHighlight: (geometry: [number, number][] | null) => void;
+  // Charging stations the EV planner stopped at, empty otherwise
+  onChargingStopsChange: (stops: Location[]) => void;
+  // Point picked on the elevation chart
+  onElevationHover: (point: [number, number] | null) => void;
+  selectedLocation: { lat: number; lng: number } | null;
+  isochrone: Isochrone | null;
+  onIsochroneChange: (isochrone: Isochrone | null) => void;
+  // Bus or train journey on the map
+  transitJourney: MultimodalJourney | null;
+  onTransitJourneyChange: (journey: MultimodalJourney | null) => void;
+  // A new object each time the trip is dragged on the map; `live` while still dragging
+  rerouteRequest: { live: boolean } | null;
+  // Imported GPS trace snapped to the roads, and the replay marker along it
+  traceMatch: MatchedTrace | null;
+  onTraceMatchChange: (match: MatchedTrace | null) => void;
+  onTracePlayback: (point: [number, number] | null) => void;
+  // Centre of the map, and the hospitals, temples and so on listed for marking on it
+  mapCenter: LatLng;
+  onPoisChange: (pois: Poi[]) => void;
+}
+
+interface RouteInfo extends RouteOption {
+  legs: { from: string; to: string; distance: string; duration: string }[];
+  steps: RouteStep[];
+  // Unformatted distance in metres and the toll plazas crossed, for costing the trip
+  metres: number;
+  // Unformatted duration, for comparing with the train
+  seconds: number;
+  tollPlazas?: string[];
+  // e.g. "avoids 3 toll plazas, +18 km"
+  avoidance?: string;
+  departure?: string;
+  arrival?: string;
+  // Battery plan when routing an electric car
+  ev?: {
+    arrivalSoc: number;
+    chargeTime: string;
+    stops: { name: string; arrivalSoc: number; departureSoc: number; chargeTime: string }[];
+  };
+}
+
+// Inputs of the last calculated route, for charting other departure times
+interface PlannedTrip {
+  waypoints: LatLng[];
+  profile: RoutingProfile;
+  avoid: Avoidance[];
+  stopTimes?: number[];
+  day: number;
 }
 
+// Alternatives are only requested for trips without intermediate stops
+const MAX_ALTERNATIVES = 2;
+
+// Fastest DC charging the planner assumes an electric car accepts, kW
+const EV_MAX_CHARGE_POWER = 50;
+
+// Trips at least this far apart get a train alternative, reaching the
+// stations in the chosen mode
+const RAIL_MIN_DISTANCE = 100_000;
+const RAIL_ACCESS_PROFILES: RoutingProfile[] = ['car', 'two-wheeler', 'bus'];
+
+const percent = (soc: number) => `${Math.round(soc * 100)}%`;
+
+// Stops that are unset or not filled in are skipped
+const stopsKey = (stops: (Location | null)[]) =>
+  stops.flatMap((stop) => (stop ? [`${stop.name}|${stop.lat},${stop.lng}`] : [])).join(';');
+
 const AppSidebar = ({
   source,
   destination,
+  waypoints,
   onSourceChange,
   onDestinationChange,
+  onWaypointsChange,
   onRouteCalculate,
+  activeRoute,
+  onActiveRouteChange,
+  onStepHighlight,
+  onChargingStopsChange,
+  onElevationHover,
+  selectedLocation,
+  isochrone,
+  onIsochroneChange,
+  transitJourney,
+  onTransitJourneyChange,
+  rerouteRequest,
+  traceMatch,
+  onTraceMatchChange,
+  onTracePlayback,
+  mapCenter,
+  onPoisChange,
 }: AppSidebarProps) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [panel, setPanel] = useState<'route' | 'transit' | 'reach' | 'trace'>('route');
   const [isCalculating, setIsCalculating] = useState(false);
-  const [routeInfo, setRouteInfo] = useState<{ distance: string; duration: string } | null>(null);
+  const [routeOptions, setRouteOptions] = useState<RouteInfo[]>([]);
+  const [travelMode, setTravelMode] = useState<RoutingProfile>('car');
+  const [avoid, setAvoid] = useState<Avoidance[]>([]);
+  const [tripTime, setTripTime] = useState<TripTime | null>(null);
+  const [plannedTrip, setPlannedTrip] = useState<PlannedTrip | null>(null);
+  const [ev, setEv] = useState<EvSettings | null>(null);
+  const [railOption, setRailOption] = useState<MultimodalJourney | null>(null);
+  const routeInfo = routeOptions[activeRoute] ?? null;
+  // Category searches without a place look around the start, or the map centre before one is chosen
+  const nearby = source
+    ? { point: [source.lat, source.lng] as LatLng, name: source.name }
+    : { point: mapCenter, name: 'the map centre' };
+  // Only the latest request's route is shown when several overlap
+  const requestRef = useRef(0);
+  // Stops of the route shown or being worked out, to tell when they have changed
+  const tripStops = stopsKey([source, ...waypoints.map((waypoint) => waypoint.location), destination]);
+  const routedStopsRef = useRef<string | null>(null);
 
-  const calculateRoute = async () => {
+  // Settings being changed are passed in, as state updates land after this runs.
+  // Live requests, made while a marker is dragged, skip alternatives and keep
+  // the last route on failure rather than reporting it.
+  const calculateRoute = async ({
+    mode = travelMode,
+    avoiding = avoid,
+    time = tripTime,
+    evSettings = ev,
+    live = false,
+  }: {
+    mode?: RoutingProfile;
+    avoiding?: Avoidance[];
+    time?: TripTime | null;
+    evSettings?: EvSettings | null;
+    live?: boolean;
+  } = {}) => {
     if (!source || !destination) return;
+    const request = ++requestRef.current;
+    routedStopsRef.current = tripStops;
     
     setIsCalculating(true);
+    clearRailOption();
     
-    // Simulate route calculation with a simple straight-line path
-    // In production, you'd use a routing API like OSRM or GraphHopper
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // Stops the user added but never filled in are skipped
+    let stops: Location[] = [
+      source,
+      ...waypoints.flatMap((waypoint) => (waypoint.location ? [waypoint.location] : [])),
+      destination,
+    ];
     
-    // Generate intermediate points for a curved route
-    const points: [number, number][] = [];
-    const steps = 20;
-    
-    for (let i = 0; i <= steps; i++) {
-      const t = i / steps;
-      // Add slight curve for visual interest
-      const curve = Math.sin(t * Math.PI) * 0.2;
-      const lat = source.lat + (destination.lat - source.lat) * t + curve;
-      const lng = source.lng + (destination.lng - source.lng) * t;
-      points.push([lat, lng]);
+    try {
+      let waypoints = stops.map((stop): LatLng => [stop.lat, stop.lng]);
+      let evPlan: EvPlan | null = null;
+      if (evSettings && mode === 'car') {
+        // Charging stations become extra stops, so the route is fixed and alternatives are skipped
+        const [graph, stations] = await Promise.all([loadRoadGraph(), loadChargingStations()]);
+        evPlan = planEvTrip(
+          graph,
+          waypoints,
+          evSettings.soc / 100,
+          evSettings.reserve / 100,
+          stations,
+          { capacity: evSettings.capacity, consumption: evSettings.consumption, maxChargePower: EV_MAX_CHARGE_POWER },
+          { profile: TRAVEL_PROFILES.car, avoid: avoiding },
+        );
+        const charging = new Map(evPlan.chargingStops.map((stop) => [stop.waypoint, stop]));
+        let next = 0;
+        stops = evPlan.waypoints.map((point, i) =>
+          charging.has(i) ? { name: charging.get(i)!.station.name, lat: point[0], lng: point[1] } : stops[next++],
+        );
+        waypoints = evPlan.waypoints;
+      }
+      const chargeTime = evPlan?.chargeTime ?? 0;
+      // Time spent charging pushes back the rest of the trip, or an arrive-by departure
+      const stopTimes = evPlan?.chargingStops.reduce((times, stop) => {
+        times[stop.waypoint] = stop.chargeTime;
+        return times;
+      }, [] as number[]);
+
+      const when = time ?? { type: 'depart' as const, at: Date.now() };
+      const route = await getRoutingProvider().route({
+        waypoints,
+        profile: mode,
+        alternatives: stops.length === 2 && !evPlan && !live ? MAX_ALTERNATIVES : 0,
+        avoid: avoiding,
+        time: when,
+        stopTimes,
+      });
+      if (request !== requestRef.current) return;
+      const routes = [route, ...(route.alternatives ?? [])];
+      
+      setRouteOptions(routes.map((option) => ({
+        distance: formatDistance(option.distance),
+        duration: formatDuration(option.duration + chargeTime),
+        summary: option.summary,
+        roadClasses: Object.entries(option.roadClasses)
+          .map(([roadClass, distance]) => ({ roadClass: roadClass as RoadClass, share: distance / option.distance }))
+          .sort((a, b) => b.share - a.share),
+        legs: option.legs.map((leg, i) => ({
+          from: stops[i].name,
+          to: stops[i + 1].name,
+          distance: formatDistance(leg.distance),
+          duration: formatDuration(leg.duration),
+        })),
+        steps: option.steps,
+        metres: option.distance,
+        seconds: option.duration + chargeTime,
+        tollPlazas: option.tollPlazas,
+        avoidance: option.avoidance && describeAvoidance(option.avoidance),
+        departure: option.departure !== undefined ? formatClock(option.departure) : undefined,
+        arrival: option.arrival !== undefined ? formatClock(option.arrival) : undefined,
+        ev: evPlan
+          ? {
+              arrivalSoc: evPlan.arrivalSoc,
+              chargeTime: formatDuration(chargeTime),
+              stops: evPlan.chargingStops.map((stop) => ({
+                name: stop.station.name,
+                arrivalSoc: stop.arrivalSoc,
+                departureSoc: stop.departureSoc,
+                chargeTime: formatDuration(stop.chargeTime),
+              })),
+            }
+          : undefined,
+      })));
+      onChargingStopsChange(
+        evPlan?.chargingStops.map(({ station }) => ({ name: station.name, lat: station.point[0], lng: station.point[1] })) ??
+          [],
+      );
+      setPlannedTrip({ waypoints, profile: mode, avoid: avoiding, stopTimes, day: when.at });
+      onStepHighlight(null);
+
+      // Long trips also get a train alternative, shown once it is worked out
+      if (
+        !live &&
+        stops.length === 2 &&
+        !evPlan &&
+        when.type === 'depart' &&
+        RAIL_ACCESS_PROFILES.includes(mode) &&
+        haversineDistance(waypoints[0], waypoints[1]) >= RAIL_MIN_DISTANCE
+      ) {
+        const [from, to] = stops;
+        Promise.all([loadRoadGraph(), loadRailways()])
+          .then(([graph, railways]) => {
+            const journey = planRailJourney(graph, railways, from, to, when.at, { profile: mode });
+            // A newer trip may have been asked for while the timetable loaded
+            if (request === requestRef.current) setRailOption(journey);
+          })
+          // The road route stands on its own, so trips with no sensible train just get no alternative
+          .catch(() => {
+            if (request === requestRef.current) setRailOption(null);
+          });
+      }
+      
+      onRouteCalculate(routes.map((option) => option.geometry));
+    } catch (error) {
+      if (live || request !== requestRef.current) return;
+      // Clear the old route so it is not mistaken for one meeting the new constraints
+      setRouteOptions([]);
+      setPlannedTrip(null);
+      onRouteCalculate([]);
+      onChargingStopsChange([]);
+      toast.error(error instanceof Error ? error.message : 'Route calculation failed');
+    } finally {
+      if (request === requestRef.current) setIsCalculating(false);
     }
-    
-    // Calculate approximate distance using Haversine formula
-    const R = 6371; // Earth's radius in km
-    const dLat = (destination.lat - source.lat) * Math.PI / 180;
-    const dLon = (destination.lng - source.lng) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(source.lat * Math.PI / 180) * Math.cos(destination.lat * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    const distance = R * c;
-    
-    // Estimate duration (assuming average speed of 60 km/h)
-    const durationHours = distance / 60;
-    const hours = Math.floor(durationHours);
-    const minutes = Math.round((durationHours - hours) * 60);
-    
-    setRouteInfo({
-      distance: `${distance.toFixed(1)} km`,
-      duration: hours > 0 ? `${hours}h ${minutes}m` : `${minutes} min`
-    });
-    
-    onRouteCalculate(points);
+  };
+
+  // Latest calculateRoute, so the effect below runs only for new requests
+  const calculateRouteRef = useRef(calculateRoute);
+  calculateRouteRef.current = calculateRoute;
+
+  // Re-plan as the trip is dragged on the map
+  useEffect(() => {
+    if (rerouteRequest) calculateRouteRef.current({ live: rerouteRequest.live });
+  }, [rerouteRequest]);
+
+  const clearRailOption = () => {
+    if (railOption && transitJourney === railOption) onTransitJourneyChange(null);
+    setRailOption(null);
+  };
+
+  // Takes the route off the sidebar and the map once the trip it was planned
+  // for has changed, discarding any route still being worked out
+  const clearRoute = () => {
+    requestRef.current++;
+    routedStopsRef.current = null;
     setIsCalculating(false);
+    setRouteOptions([]);
+    setPlannedTrip(null);
+    onRouteCalculate([]);
+    onChargingStopsChange([]);
+    clearRailOption();
+  };
+
+  // Any other change to the stops, from a search box, the stop list or a map
+  // popup, leaves the route for the old ones, so it is taken away
+  const clearRouteRef = useRef(clearRoute);
+  clearRouteRef.current = clearRoute;
+  const seenRerouteRef = useRef(rerouteRequest);
+  useEffect(() => {
+    const dragged = rerouteRequest !== seenRerouteRef.current;
+    seenRerouteRef.current = rerouteRequest;
+    if (!dragged && routedStopsRef.current !== null && routedStopsRef.current !== tripStops) clearRouteRef.current();
+  }, [tripStops, rerouteRequest]);
+
+  // Re-route straight away when the mode changes under an existing route
+  const changeTravelMode = (mode: RoutingProfile) => {
+    setTravelMode(mode);
+    if (routeOptions.length > 0) calculateRoute({ mode });
+  };
+
+  const changeAvoid = (next: Avoidance[]) => {
+    setAvoid(next);
+    if (routeOptions.length > 0) calculateRoute({ avoiding: next });
+  };
+
+  const changeEv = (next: EvSettings | null) => {
+    setEv(next);
+    if (routeOptions.length > 0) calculateRoute({ evSettings: next });
+  };
+
+  // Picking an hour on the chart plans the trip for leaving then
+  const departAt = (at: number) => {
+    const time: TripTime = { type: 'depart', at };
+    setTripTime(time);
+    calculateRoute({ time });
   };
 
   const swapLocations = () => {
     const tempSource = source;
     onSourceChange(destination);
     onDestinationChange(tempSource);
-    setRouteInfo(null);
+    onWaypointsChange([...waypoints].reverse());
+    clearRoute();
   };
 
   return (
@@ -118,7 +413,33 @@ const AppSidebar = ({
 
         {/* Search Section */}
         <div className="p-6 flex-1 overflow-y-auto">
-          <div className="space-y-4">
+          <Tabs value={panel} onValueChange={(value) => setPanel(value as typeof panel)} className="mb-4">
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="route" className="px-1 text-xs">Directions</TabsTrigger>
+              <TabsTrigger value="transit" className="px-1 text-xs">Bus</TabsTrigger>
+              <TabsTrigger value="reach" className="px-1 text-xs">Reachability</TabsTrigger>
+              <TabsTrigger value="trace" className="px-1 text-xs">Trace</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {/* Panels stay mounted so switching keeps what was entered */}
+          <div className={cn(panel !== 'transit' && 'hidden')}>
+            <TransitPanel journey={transitJourney} onJourneyChange={onTransitJourneyChange} />
+          </div>
+
+          <div className={cn(panel !== 'reach' && 'hidden')}>
+            <IsochronePanel
+              selectedLocation={selectedLocation}
+              isochrone={isochrone}
+              onIsochroneChange={onIsochroneChange}
+            />
+          </div>
+
+          <div className={cn(panel !== 'trace' && 'hidden')}>
+            <TracePanel match={traceMatch} onMatchChange={onTraceMatchChange} onPlaybackPoint={onTracePlayback} />
+          </div>
+
+          <div className={cn('space-y-4', panel !== 'route' && 'hidden')}>
             <div>
               <label className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-emerald-500" />
@@ -130,6 +451,34 @@ const AppSidebar = ({
                 onChange={onSourceChange}
                 icon={<MapPin className="h-5 w-5" />}
                 iconColor="text-emerald-500"
+                nearby={{ point: mapCenter, name: 'the map centre' }}
+              />
+            </div>
+
+            {/* Hospitals, temples and the like near the start or the map centre */}
+            <PoiSearch
+              source={source}
+              mapCenter={mapCenter}
+              onSourceChange={onSourceChange}
+              onDestinationChange={onDestinationChange}
+              onResultsChange={onPoisChange}
+            />
+
+            {/* Intermediate stops */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-violet-500" />
+                Stops
+              </label>
+              <WaypointList waypoints={waypoints} onChange={onWaypointsChange} />
+              <StopOptimiser
+                source={source}
+                destination={destination}
+                waypoints={waypoints}
+                onDestinationChange={onDestinationChange}
+                onWaypointsChange={onWaypointsChange}
+                profile={travelMode}
+                onOptimised={clearRoute}
               />
             </div>
 
@@ -155,12 +504,34 @@ const AppSidebar = ({
                 onChange={onDestinationChange}
                 icon={<MapPin className="h-5 w-5" />}
                 iconColor="text-coral"
+                nearby={nearby}
               />
             </div>
 
+            {/* Travel mode */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Travel Mode</label>
+              <TravelModeSelector value={travelMode} onChange={changeTravelMode} />
+            </div>
+
+            {/* Electric cars get charging stops planned in */}
+            {travelMode === 'car' && <EvOptions value={ev} onChange={changeEv} />}
+
+            {/* Avoidances */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Avoid</label>
+              <AvoidanceOptions value={avoid} onChange={changeAvoid} />
+            </div>
+
+            {/* Departure time */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">When</label>
+              <DepartureTimePicker value={tripTime} onChange={setTripTime} />
+            </div>
+
             {/* Calculate Route Button */}
             <Button
-              onClick={calculateRoute}
+              onClick={() => calculateRoute()}
               disabled={!source || !destination || isCalculating}
               className="w-full h-12 gradient-ocean text-primary-foreground font-medium shadow-glow hover:opacity-90 transition-opacity"
             >
@@ -197,7 +568,82 @@ const AppSidebar = ({
                     <div className="text-xs text-muted-foreground mb-1">Est. Time</div>
                     <div className="font-display text-lg font-bold text-foreground">{routeInfo.duration}</div>
                   </div>
+                  {plannedTrip && (
+                    <TripCost
+                      distance={routeInfo.metres}
+                      tollPlazas={routeInfo.tollPlazas}
+                      profile={plannedTrip.profile}
+                    />
+                  )}
                 </div>
+                {routeInfo.departure && routeInfo.arrival && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Clock className="h-4 w-4 flex-shrink-0 text-primary" />
+                    <span>
+                      Leave {routeInfo.departure} · arrive {routeInfo.arrival}
+                    </span>
+                  </div>
+                )}
+                {routeInfo.ev && (
+                  <div className="space-y-1.5">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <BatteryCharging className="h-4 w-4 flex-shrink-0 text-emerald-500" />
+                      <span>
+                        Arrive with {percent(routeInfo.ev.arrivalSoc)} charge
+                        {routeInfo.ev.stops.length > 0 && ` · ${routeInfo.ev.chargeTime} charging`}
+                      </span>
+                    </div>
+                    {routeInfo.ev.stops.map((stop, i) => (
+                      <div key={i} className="bg-card rounded-lg px-3 py-2 text-sm">
+                        <div className="font-medium text-foreground truncate">{stop.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {percent(stop.arrivalSoc)} → {percent(stop.departureSoc)} • {stop.chargeTime}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {routeInfo.avoidance && (
+                  <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                    <ShieldOff className="h-4 w-4 flex-shrink-0 text-coral" />
+                    <span>Route {routeInfo.avoidance}</span>
+                  </div>
+                )}
+                {routeOptions.length > 1 && (
+                  <RouteComparison
+                    options={routeOptions}
+                    active={activeRoute}
+                    onSelect={(index) => {
+                      onActiveRouteChange(index);
+                      onStepHighlight(null);
+                    }}
+                  />
+                )}
+                {railOption && (
+                  <RailAlternative
+                    journey={railOption}
+                    roadDuration={routeInfo.seconds}
+                    isShown={transitJourney === railOption}
+                    onToggle={() => onTransitJourneyChange(transitJourney === railOption ? null : railOption)}
+                  />
+                )}
+                {routeInfo.legs.length > 1 && (
+                  <div className="space-y-2">
+                    {routeInfo.legs.map((leg, i) => (
+                      <div key={i} className="bg-card rounded-lg px-3 py-2 text-sm">
+                        <div className="font-medium text-foreground truncate">
+                          {leg.from} → {leg.to}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {leg.distance} • {leg.duration}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <ElevationChart steps={routeInfo.steps} onHover={onElevationHover} />
+                {plannedTrip && <DepartureChart {...plannedTrip} onSelect={departAt} />}
+                <DirectionsPanel steps={routeInfo.steps} onHighlight={onStepHighlight} />
               </motion.div>
             )}
           </div>
@@ -214,9 +660,13 @@ const AppSidebar = ({
                 <Route className="h-4 w-4 flex-shrink-0 mt-0.5" />
                 <span>Enter both locations to calculate routes</span>
               </div>
+              <div className="flex items-start gap-3 text-sm text-muted-foreground">
+                <Navigation2 className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                <span>Drag the markers to move them, or drag the route to add a stop</span>
+              </div>
               <div className="flex items-start gap-3 text-sm text-muted-foreground">
                 <Clock className="h-4 w-4 flex-shrink-0 mt-0.5" />
-                <span>Route times are estimates based on average speeds</span>
+                <span>Route times are estimates from average speeds and typical traffic for the hour</span>
               </div>
             </div>
           </div>
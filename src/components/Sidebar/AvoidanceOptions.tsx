@@ -0,0 +1,39 @@
+import { Construction, IndianRupee, Milestone, Mountain, Ship } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AVOIDANCE_LABELS, type Avoidance } from '@/lib/routing/avoid';
+
+interface AvoidanceOptionsProps {
+  value: Avoidance[];
+  onChange: (avoid: Avoidance[]) => void;
+}
+
+const OPTIONS: { avoidance: Avoidance; icon: typeof Ship; short: string }[] = [
+  { avoidance: 'tolls', icon: IndianRupee, short: 'Tolls' },
+  { avoidance: 'national', icon: Milestone, short: 'NH' },
+  { avoidance: 'ghat', icon: Mountain, short: 'Ghat' },
+  { avoidance: 'unpaved', icon: Construction, short: 'Unpaved' },
+  { avoidance: 'ferries', icon: Ship, short: 'Ferry' },
+];
+
+const AvoidanceOptions = ({ value, onChange }: AvoidanceOptionsProps) => (
+  <ToggleGroup
+    type="multiple"
+    value={value}
+    onValueChange={(avoid) => onChange(avoid as Avoidance[])}
+    className="grid grid-cols-5 gap-1"
+  >
+    {OPTIONS.map(({ avoidance, icon: Icon, short }) => (
+      <ToggleGroupItem
+        key={avoidance}
+        value={avoidance}
+        title={`Avoid ${AVOIDANCE_LABELS[avoidance].toLowerCase()}`}
+        className="h-auto flex-col gap-1 px-1 py-2 text-[10px] data-[state=on]:bg-coral/10 data-[state=on]:text-coral"
+      >
+        <Icon className="h-4 w-4" />
+        {short}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+export default AvoidanceOptions;
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Bar, BarChart, Cell, XAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatDuration } from '@/lib/format';
+import type { LatLng } from '@/lib/geo';
+import type { Avoidance } from '@/lib/routing/avoid';
+import { getRoutingProvider } from '@/lib/routing/config';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import { istMidnight } from '@/lib/routing/traffic';
+
+interface DepartureChartProps {
+  waypoints: LatLng[];
+  profile: RoutingProfile;
+  avoid: Avoidance[];
+  stopTimes?: number[];
+  // Any moment on the day to chart
+  day: number;
+  onSelect: (departAt: number) => void;
+}
+
+const HOUR = 3600 * 1000;
+
+const chartConfig = {
+  minutes: { label: 'Travel time', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const hourLabel = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'am' : 'pm'}`;
+
+// Travel time for leaving on each hour of the day, with the quickest hour
+// picked out. Clicking a bar plans the trip for that departure.
+const DepartureChart = ({ waypoints, profile, avoid, stopTimes, day, onSelect }: DepartureChartProps) => {
+  const provider = getRoutingProvider();
+  const [durations, setDurations] = useState<(number | null)[] | null>(null);
+
+  // Hours are those of Indian time, which the traffic profiles follow
+  const midnight = istMidnight(day);
+
+  useEffect(() => {
+    if (!provider.timeDependent) return;
+    const controller = new AbortController();
+    setDurations(null);
+
+    (async () => {
+      const hourly: (number | null)[] = [];
+      for (let hour = 0; hour < 24; hour++) {
+        try {
+          const route = await provider.route({
+            waypoints,
+            profile,
+            avoid,
+            stopTimes,
+            time: { type: 'depart', at: midnight + hour * HOUR },
+            signal: controller.signal,
+          });
+          hourly.push(route.duration);
+        } catch {
+          if (controller.signal.aborted) return;
+          // e.g. a ferry on the route is not running at that hour
+          hourly.push(null);
+        }
+      }
+      if (!controller.signal.aborted) setDurations(hourly);
+    })();
+
+    return () => controller.abort();
+  }, [provider, waypoints, profile, avoid, stopTimes, midnight]);
+
+  if (!provider.timeDependent) return null;
+
+  if (!durations) {
+    return <div className="text-xs text-muted-foreground">Working out the best time to leave...</div>;
+  }
+
+  const data = durations.map((duration, hour) => ({
+    hour,
+    label: hourLabel(hour),
+    minutes: duration === null ? null : Math.round(duration / 60),
+  }));
+  const reachable = data.filter((entry) => entry.minutes !== null);
+  if (reachable.length === 0) return null;
+  const best = reachable.reduce((a, b) => (b.minutes! < a.minutes! ? b : a));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Best time to leave (IST)</h4>
+        <span className="text-xs text-foreground">
+          {best.label}–{hourLabel((best.hour + 1) % 24)} · {formatDuration(best.minutes! * 60)}
+        </span>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+        <BarChart data={data} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval={5} fontSize={10} />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                hideLabel
+                formatter={(value, _name, item) => (
+                  <span>
+                    Leave {item.payload.label}: {formatDuration(Number(value) * 60)}
+                  </span>
+                )}
+              />
+            }
+          />
+          <Bar
+            dataKey="minutes"
+            radius={2}
+            className="cursor-pointer"
+            onClick={(_, index) => onSelect(midnight + index * HOUR)}
+          >
+            {data.map((entry) => (
+              <Cell
+                key={entry.hour}
+                fill={entry.hour === best.hour ? 'var(--color-minutes)' : 'hsl(var(--muted-foreground) / 0.35)'}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default DepartureChart;
@@ -0,0 +1,49 @@
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toDateTimeLocal } from '@/lib/format';
+import type { TripTime } from '@/lib/routing/provider';
+
+interface DepartureTimePickerProps {
+  // null means leave now
+  value: TripTime | null;
+  onChange: (time: TripTime | null) => void;
+}
+
+const DepartureTimePicker = ({ value, onChange }: DepartureTimePickerProps) => (
+  <div className="space-y-2">
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={value?.type ?? 'now'}
+      onValueChange={(type) => {
+        if (!type) return;
+        if (type === 'now') onChange(null);
+        else onChange({ type: type as TripTime['type'], at: value?.at ?? Date.now() });
+      }}
+      className="w-full"
+    >
+      <ToggleGroupItem value="now" className="flex-1 text-xs">
+        Leave now
+      </ToggleGroupItem>
+      <ToggleGroupItem value="depart" className="flex-1 text-xs">
+        Depart at
+      </ToggleGroupItem>
+      <ToggleGroupItem value="arrive" className="flex-1 text-xs">
+        Arrive by
+      </ToggleGroupItem>
+    </ToggleGroup>
+    {value && (
+      <Input
+        type="datetime-local"
+        value={toDateTimeLocal(value.at)}
+        onChange={(e) => {
+          const at = new Date(e.target.value).getTime();
+          if (!Number.isNaN(at)) onChange({ ...value, at });
+        }}
+        className="bg-secondary border-0"
+      />
+    )}
+  </div>
+);
+
+export default DepartureTimePicker;
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  MapPin,
+  Navigation,
+  RotateCw,
+  Split,
+  Undo2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDistance, formatDuration } from '@/lib/format';
+import type { RouteStep } from '@/lib/routing/provider';
+
+interface DirectionsPanelProps {
+  steps: RouteStep[];
+  // Called with the stretch to highlight on the map, or null to clear it
+  onHighlight: (geometry: [number, number][] | null) => void;
+}
+
+function ManeuverIcon({ maneuver }: { maneuver: RouteStep['maneuver'] }) {
+  const className = 'h-4 w-4';
+  switch (maneuver.type) {
+    case 'depart':
+      return <Navigation className={className} />;
+    case 'arrive':
+      return <Flag className={className} />;
+    case 'waypoint':
+      return <MapPin className={className} />;
+    case 'roundabout':
+      return <RotateCw className={className} />;
+    case 'fork':
+      return <Split className={className} />;
+  }
+  switch (maneuver.modifier) {
+    case 'uturn':
+      return <Undo2 className={className} />;
+    case 'sharp left':
+      return <CornerUpLeft className={className} />;
+    case 'sharp right':
+      return <CornerUpRight className={className} />;
+    case 'left':
+      return <ArrowLeft className={className} />;
+    case 'right':
+      return <ArrowRight className={className} />;
+    case 'slight left':
+      return <ArrowUpLeft className={className} />;
+    case 'slight right':
+      return <ArrowUpRight className={className} />;
+    default:
+      return <ArrowUp className={className} />;
+  }
+}
+
+const DirectionsPanel = ({ steps, onHighlight }: DirectionsPanelProps) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [steps]);
+
+  // Hovering previews a step; leaving falls back to the clicked one
+  const highlight = (index: number | null) => {
+    onHighlight(index !== null ? steps[index].geometry : null);
+  };
+
+  let cumulative = 0;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Directions</h4>
+      <ol className="max-h-72 overflow-y-auto space-y-1" onMouseLeave={() => highlight(selected)}>
+        {steps.map((step, index) => {
+          cumulative += step.distance;
+          return (
+            <li key={index}>
+              <button
+                onMouseEnter={() => highlight(index)}
+                onClick={() => {
+                  const next = selected === index ? null : index;
+                  setSelected(next);
+                  highlight(next);
+                }}
+                className={cn(
+                  'w-full flex items-start gap-3 rounded-lg px-3 py-2 text-left transition-colors hover:bg-card',
+                  selected === index && 'bg-card ring-1 ring-primary'
+                )}
+              >
+                <div className="mt-0.5 text-primary flex-shrink-0">
+                  <ManeuverIcon maneuver={step.maneuver} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-foreground">
+                    {step.instruction}
+                    {step.distance > 0 && `, ${formatDistance(step.distance)}`}
+                  </div>
+                  {step.duration > 0 && (
+                    <div className="text-xs text-muted-foreground">{formatDuration(step.duration)}</div>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground flex-shrink-0 tabular-nums">
+                  {formatDistance(cumulative)}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default DirectionsPanel;
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { ArrowDownRight, ArrowUpRight, TrendingUp } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { elevationProfile, loadElevation, type ElevationProfile } from '@/lib/elevation';
+import type { LatLng } from '@/lib/geo';
+import type { RouteStep } from '@/lib/routing/provider';
+
+interface ElevationChartProps {
+  steps: RouteStep[];
+  // Point on the route under the pointer, null when it leaves the chart
+  onHover: (point: LatLng | null) => void;
+}
+
+const chartConfig = {
+  elevation: { label: 'Elevation', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Height along the route with the climbing it involves. Hovering the chart
+// reports the matching point so the map can follow along.
+const ElevationChart = ({ steps, onHover }: ElevationChartProps) => {
+  const [profile, setProfile] = useState<ElevationProfile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+
+    loadElevation(steps.flatMap((step) => step.geometry))
+      .then((elevationAt) => {
+        if (!cancelled) setProfile(elevationProfile(steps, elevationAt));
+      })
+      .catch(() => {
+        // Elevation is a nice-to-have; the route stands without it
+        if (!cancelled) setProfile(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [steps]);
+
+  // Drop the map marker when the route changes or the chart goes away
+  useEffect(() => () => onHover(null), [steps, onHover]);
+
+  if (!profile || profile.samples.every((sample) => sample.elevation === null)) return null;
+
+  const data = profile.samples.map((sample) => ({
+    km: sample.distance / 1000,
+    elevation: sample.elevation === null ? null : Math.round(sample.elevation),
+  }));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Elevation</h4>
+        <div className="flex items-center gap-2 text-xs text-foreground">
+          <span className="flex items-center gap-0.5" title="Total ascent">
+            <ArrowUpRight className="h-3.5 w-3.5 text-emerald-500" />
+            {Math.round(profile.ascent)} m
+          </span>
+          <span className="flex items-center gap-0.5" title="Total descent">
+            <ArrowDownRight className="h-3.5 w-3.5 text-coral" />
+            {Math.round(profile.descent)} m
+          </span>
+          <span className="flex items-center gap-0.5" title="Steepest gradient">
+            <TrendingUp className="h-3.5 w-3.5 text-muted-foreground" />
+            {Math.abs(profile.maxGradient).toFixed(1)}%
+          </span>
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+        <AreaChart
+          data={data}
+          margin={{ top: 4, right: 0, bottom: 0, left: 0 }}
+          onMouseMove={(state) => {
+            const index = state?.activeTooltipIndex;
+            onHover(index === undefined ? null : profile.samples[index].point);
+          }}
+          onMouseLeave={() => onHover(null)}
+        >
+          <XAxis
+            dataKey="km"
+            type="number"
+            domain={[0, 'dataMax']}
+            tickLine={false}
+            axisLine={false}
+            fontSize={10}
+            tickFormatter={(km: number) => `${Math.round(km)} km`}
+          />
+          <YAxis
+            dataKey="elevation"
+            tickLine={false}
+            axisLine={false}
+            fontSize={10}
+            width={32}
+            domain={[0, 'auto']}
+          />
+          <ChartTooltip
+            cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+            content={
+              <ChartTooltipContent
+                hideLabel
+                formatter={(value, _name, item) => (
+                  <span>
+                    {Number(item.payload.km).toFixed(1)} km: {value} m
+                  </span>
+                )}
+              />
+            }
+          />
+          <Area
+            dataKey="elevation"
+            type="monotone"
+            stroke="var(--color-elevation)"
+            fill="var(--color-elevation)"
+            fillOpacity={0.2}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+            connectNulls
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default ElevationChart;
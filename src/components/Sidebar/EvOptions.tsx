@@ -0,0 +1,62 @@
+import { BatteryCharging } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+// Battery and consumption figures entered for an electric car
+export interface EvSettings {
+  // kWh
+  capacity: number;
+  // Percentages of the battery
+  soc: number;
+  reserve: number;
+  // Wh per km
+  consumption: number;
+}
+
+// A typical compact electric SUV
+const DEFAULT_EV_SETTINGS: EvSettings = { capacity: 40.5, soc: 80, reserve: 10, consumption: 150 };
+
+interface EvOptionsProps {
+  // Null while planning for a fuel vehicle
+  value: EvSettings | null;
+  onChange: (settings: EvSettings | null) => void;
+}
+
+const FIELDS: { key: keyof EvSettings; label: string; min: number; max?: number; step: number }[] = [
+  { key: 'capacity', label: 'Battery (kWh)', min: 5, step: 0.5 },
+  { key: 'soc', label: 'Charge now (%)', min: 0, max: 100, step: 1 },
+  { key: 'consumption', label: 'Use (Wh/km)', min: 50, step: 5 },
+  { key: 'reserve', label: 'Reserve (%)', min: 0, max: 50, step: 1 },
+];
+
+const EvOptions = ({ value, onChange }: EvOptionsProps) => (
+  <div className="space-y-2">
+    <label className="flex items-center justify-between gap-2 text-sm font-medium text-foreground">
+      <span className="flex items-center gap-2">
+        <BatteryCharging className="h-4 w-4 text-emerald-500" />
+        Electric vehicle
+      </span>
+      <Switch checked={value !== null} onCheckedChange={(on) => onChange(on ? DEFAULT_EV_SETTINGS : null)} />
+    </label>
+    {value && (
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="text-xs text-muted-foreground space-y-1">
+            <span>{label}</span>
+            <Input
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={value[key]}
+              onChange={(e) => onChange({ ...value, [key]: Number(e.target.value) })}
+              className="h-8"
+            />
+          </label>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default EvOptions;
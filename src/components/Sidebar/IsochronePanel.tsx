@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Crosshair, MapPin, Radar, X, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import LocationSearch from './LocationSearch';
+import TravelModeSelector from './TravelModeSelector';
+import { formatDuration } from '@/lib/format';
+import { loadRoadGraph } from '@/lib/routing/graph';
+import {
+  computeIsochrone,
+  ISOCHRONE_COLORS,
+  ISOCHRONE_MINUTES,
+  type Isochrone,
+} from '@/lib/routing/isochrone';
+import { TRAVEL_PROFILES } from '@/lib/routing/profiles';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import type { Location } from '@/types/location';
+
+interface IsochronePanelProps {
+  selectedLocation: { lat: number; lng: number } | null;
+  isochrone: Isochrone | null;
+  onIsochroneChange: (isochrone: Isochrone | null) => void;
+}
+
+// "Where can I get to in 30/60/90 minutes from here?"
+const IsochronePanel = ({ selectedLocation, isochrone, onIsochroneChange }: IsochronePanelProps) => {
+  const [origin, setOrigin] = useState<Location | null>(null);
+  const [travelMode, setTravelMode] = useState<RoutingProfile>('car');
+  const [isComputing, setIsComputing] = useState(false);
+
+  const compute = async (mode: RoutingProfile = travelMode) => {
+    if (!origin) return;
+    setIsComputing(true);
+    try {
+      const graph = await loadRoadGraph();
+      onIsochroneChange(
+        computeIsochrone(graph, [origin.lat, origin.lng], ISOCHRONE_MINUTES, { profile: TRAVEL_PROFILES[mode] }),
+      );
+    } catch (error) {
+      onIsochroneChange(null);
+      toast.error(error instanceof Error ? error.message : 'Could not work out the reachable area');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const changeTravelMode = (mode: RoutingProfile) => {
+    setTravelMode(mode);
+    if (isochrone) compute(mode);
+  };
+
+  // Towns listed under the first band that reaches them
+  const bands = ISOCHRONE_MINUTES.map((minutes, i) => ({
+    minutes,
+    color: ISOCHRONE_COLORS[i],
+    places: (isochrone?.places ?? []).filter(
+      (place) => place.duration <= minutes * 60 && (i === 0 || place.duration > ISOCHRONE_MINUTES[i - 1] * 60),
+    ),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-slate-900" />
+          From
+        </label>
+        <LocationSearch
+          placeholder="Choose a starting point..."
+          value={origin}
+          onChange={setOrigin}
+          icon={<MapPin className="h-5 w-5" />}
+          iconColor="text-foreground"
+        />
+        {selectedLocation && (
+          <button
+            onClick={() => setOrigin({ name: 'Selected point', ...selectedLocation })}
+            className="mt-2 flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Crosshair className="h-3.5 w-3.5" />
+            Use the point selected on the map ({selectedLocation.lat.toFixed(3)}, {selectedLocation.lng.toFixed(3)})
+          </button>
+        )}
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-foreground mb-2 block">Travel Mode</label>
+        <TravelModeSelector value={travelMode} onChange={changeTravelMode} />
+      </div>
+
+      <Button
+        onClick={() => compute()}
+        disabled={!origin || isComputing}
+        className="w-full h-12 gradient-ocean text-primary-foreground font-medium shadow-glow hover:opacity-90 transition-opacity"
+      >
+        {isComputing ? (
+          <>
+            <Zap className="h-5 w-5 mr-2 animate-pulse" />
+            Calculating...
+          </>
+        ) : (
+          <>
+            <Radar className="h-5 w-5 mr-2" />
+            Show Reachable Area
+          </>
+        )}
+      </Button>
+
+      {isochrone && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-secondary/50 rounded-xl p-4 space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-foreground flex items-center gap-2">
+              <Radar className="h-4 w-4 text-primary" />
+              Reachable Towns
+            </h3>
+            <button
+              onClick={() => onIsochroneChange(null)}
+              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              title="Clear reachable area"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {bands.map((band) => (
+            <div key={band.minutes} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs font-medium text-foreground">
+                <div className="w-3 h-3 rounded-sm" style={{ background: band.color }} />
+                Within {band.minutes} min
+              </div>
+              {band.places.length > 0 ? (
+                <ul className="pl-5 space-y-0.5">
+                  {band.places.map((place) => (
+                    <li key={place.name} className="flex justify-between gap-2 text-sm">
+                      <span className="truncate text-foreground">{place.name}</span>
+                      <span className="text-xs text-muted-foreground tabular-nums">
+                        {formatDuration(place.duration)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="pl-5 text-xs text-muted-foreground">No towns</div>
+              )}
+            </div>
+          ))}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default IsochronePanel;
@@ -1,13 +1,25 @@
-import { useState, useCallback } from 'react';
-import { Search, MapPin, Loader2 } from 'lucide-react';
+import { Fragment, useState, useCallback, useEffect, useId, useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Search, MapPin, Loader2, Crosshair, AlertTriangle, History, Star } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { usePlaceHistory } from '@/hooks/use-place-history';
+import { formatDistance } from '@/lib/format';
+import type { LatLng } from '@/lib/geo';
+import { getGeocoder } from '@/lib/places/config';
+import {
+  COORDINATE_FORMAT_LABELS,
+  CoordinateError,
+  formatCoordinates,
+  parseCoordinates,
+  type ParsedCoordinate,
+} from '@/lib/places/coordinates';
+import { loadGazetteer, placeContext } from '@/lib/places/gazetteer';
+import { isFavourite, rankByUsage, type SavedPlace } from '@/lib/places/history';
+import { loadPois, nearestPois, parsePoiQuery, POI_CATEGORY_LABELS, POI_COLORS, type PoiCategory } from '@/lib/places/pois';
+import { searchPlaces } from '@/lib/places/search';
 import { cn } from '@/lib/utils';
-
-interface Location {
-  name: string;
-  lat: number;
-  lng: number;
-}
+import type { Location } from '@/types/location';
 
 interface LocationSearchProps {
   placeholder: string;
@@ -15,46 +27,216 @@ interface LocationSearchProps {
   onChange: (location: Location | null) => void;
   icon?: React.ReactNode;
   iconColor?: string;
+  // Where searches like "hospital" that name no place are measured from
+  nearby?: { point: LatLng; name: string } | null;
+}
+
+interface Suggestion {
+  location: Location;
+  context: string;
+  telugu?: string;
+  isCoordinate?: boolean;
+  category?: PoiCategory;
+  // Offered from the history while the box is empty
+  saved?: 'favourite' | 'recent';
 }
 
-// Popular locations in Andhra Pradesh for suggestions
-const popularLocations: Location[] = [
-  { name: 'Visakhapatnam', lat: 17.6868, lng: 83.2185 },
-  { name: 'Vijayawada', lat: 16.5062, lng: 80.6480 },
-  { name: 'Guntur', lat: 16.3067, lng: 80.4365 },
-  { name: 'Tirupati', lat: 13.6288, lng: 79.4192 },
-  { name: 'Rajahmundry', lat: 17.0005, lng: 81.8040 },
-  { name: 'Kakinada', lat: 16.9891, lng: 82.2475 },
-  { name: 'Nellore', lat: 14.4426, lng: 79.9865 },
-  { name: 'Kurnool', lat: 15.8281, lng: 78.0373 },
-  { name: 'Anantapur', lat: 14.6819, lng: 77.6006 },
-  { name: 'Kadapa', lat: 14.4674, lng: 78.8241 },
-  { name: 'Amaravati', lat: 16.5131, lng: 80.5167 },
-  { name: 'Eluru', lat: 16.7107, lng: 81.0952 },
-  { name: 'Ongole', lat: 15.5057, lng: 80.0499 },
-  { name: 'Srikakulam', lat: 18.2949, lng: 83.8935 },
-  { name: 'Chittoor', lat: 13.2172, lng: 79.1003 },
-];
-
-const LocationSearch = ({ placeholder, value, onChange, icon, iconColor }: LocationSearchProps) => {
+interface Section {
+  title: string | null;
+  suggestions: Suggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+const MAX_RECENT = 5;
+// Milliseconds typing has to pause for before the geocoder is asked
+const SEARCH_DELAY = 250;
+
+// A suggestion as kept in the history, with the line describing it
+const remembered = ({ location, context }: Suggestion): SavedPlace => ({ ...location, context: context || undefined });
+
+const LocationSearch = ({ placeholder, value, onChange, icon, iconColor, nearby }: LocationSearchProps) => {
   const [query, setQuery] = useState(value?.name || '');
   const [isOpen, setIsOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  // Nothing is looked up until the box is first used
+  const [isActive, setIsActive] = useState(false);
+  // Suggestion picked out with the arrow keys or pointer, -1 for none
+  const [highlighted, setHighlighted] = useState(-1);
+  const listId = useId();
+  const { history, recordUse, toggleFavourite } = usePlaceHistory();
+  const geocoder = getGeocoder();
+  const searchText = useDebouncedValue(query.trim(), SEARCH_DELAY);
+
+  // Keep the text in sync when the location is changed from outside (swap, reorder)
+  useEffect(() => {
+    setQuery(value?.name || '');
+  }, [value]);
 
-  const filteredLocations = popularLocations.filter(loc =>
-    loc.name.toLowerCase().includes(query.toLowerCase())
+  // The bundled gazetteer completes short Plus Codes and places categories
+  // are searched near, whichever geocoder is used, and stands in for it
+  const { data: gazetteer } = useQuery({
+    queryKey: ['gazetteer'],
+    queryFn: loadGazetteer,
+    enabled: isActive,
+    staleTime: Infinity,
+  });
+  const findPlace = useCallback(
+    (place: string) => (gazetteer ? searchPlaces(gazetteer.index, place, 1)[0]?.place ?? null : null),
+    [gazetteer],
   );
 
-  const handleSelect = useCallback((location: Location) => {
-    setQuery(location.name);
-    onChange(location);
+  // Coordinates typed or pasted in place of a name. Short Plus Codes may be
+  // followed by a place to complete them from.
+  const coordinate = useMemo((): { parsed: ParsedCoordinate | null; error: string | null } => {
+    const locate = (place: string): LatLng | null => {
+      const match = findPlace(place);
+      return match ? [match.lat, match.lng] : null;
+    };
+    try {
+      return { parsed: parseCoordinates(query, locate), error: null };
+    } catch (error) {
+      if (error instanceof CoordinateError) return { parsed: null, error: error.message };
+      throw error;
+    }
+  }, [query, findPlace]);
+  const isCoordinateInput = coordinate.parsed !== null || coordinate.error !== null;
+
+  // Categories such as "hospital near Ongole" in place of a name
+  const poiQuery = useMemo(() => (isCoordinateInput ? null : parsePoiQuery(query)), [query, isCoordinateInput]);
+  const pois = useQuery({
+    queryKey: ['pois'],
+    queryFn: loadPois,
+    enabled: poiQuery !== null,
+    staleTime: Infinity,
+  });
+
+  // Superseded requests are cancelled through the signal as the query changes
+  const places = useQuery({
+    queryKey: ['geocode', geocoder.name, searchText],
+    queryFn: ({ signal }) => geocoder.autocomplete({ query: searchText, limit: MAX_SUGGESTIONS, signal }),
+    enabled: isActive && searchText.length > 0 && !isCoordinateInput && !poiQuery,
+    staleTime: Infinity,
+    placeholderData: keepPreviousData,
+  });
+
+  const point = coordinate.parsed?.point ?? null;
+  const { data: pointPlace } = useQuery({
+    queryKey: ['reverse-geocode', geocoder.name, point?.[0], point?.[1]],
+    queryFn: ({ signal }) => geocoder.reverse({ point: point!, signal }),
+    enabled: point !== null,
+    staleTime: Infinity,
+  });
+
+  const coordinateSuggestion = (parsed: ParsedCoordinate): Suggestion => {
+    const [lat, lng] = parsed.point;
+    const parts = [`Coordinate (${COORDINATE_FORMAT_LABELS[parsed.format]})`];
+    if (pointPlace) parts.push(pointPlace.location.name, pointPlace.context);
+    return {
+      location: { name: parsed.label ?? formatCoordinates(parsed.point), lat, lng },
+      context: parts.filter(Boolean).join(' · '),
+      isCoordinate: true,
+    };
+  };
+
+  // Reported under the box while the gazetteer stands in for a failed geocoder
+  const geocoderError = places.isError && !isCoordinateInput && !poiQuery && query.trim() !== '' ? places.error : null;
+
+  // The bundled gazetteer stands in until the geocoder answers, or if it
+  // fails. Places picked often before are moved up.
+  const placeSuggestions = (): Suggestion[] =>
+    rankByUsage(
+      places.data && !places.isError
+        ? places.data.map(({ location, context, telugu, alias }) => ({
+            location,
+            context: alias ? `Also known as ${alias} · ${context}` : context,
+            telugu,
+          }))
+        : gazetteer
+          ? searchPlaces(gazetteer.index, query, MAX_SUGGESTIONS).map(({ place }) => ({
+              location: { name: place.name, lat: place.lat, lng: place.lng },
+              context: placeContext(place),
+              telugu: place.telugu ?? undefined,
+            }))
+          : [],
+      history,
+      (suggestion) => suggestion.location,
+    );
+
+  // The nearest of the category to the place named, or else to `nearby`
+  const poiSuggestions = (): Suggestion[] => {
+    if (!poiQuery || !pois.data) return [];
+    let from = nearby;
+    if (poiQuery.place) {
+      const place = findPlace(poiQuery.place);
+      from = place && { point: [place.lat, place.lng], name: place.name };
+    }
+    if (!from) return [];
+    return nearestPois(pois.data, poiQuery.category, from.point, MAX_SUGGESTIONS).map(({ poi, distance }) => ({
+      location: { name: poi.name, lat: poi.point[0], lng: poi.point[1] },
+      context: `${POI_CATEGORY_LABELS[poi.category].one} · ${formatDistance(distance)} from ${from.name}`,
+      category: poi.category,
+    }));
+  };
+
+  // Starred and recently picked places, offered while the box is empty
+  const savedSections = (): Section[] => {
+    const saved = ({ context, ...location }: SavedPlace, kind: Suggestion['saved']): Suggestion => ({
+      location,
+      context: context ?? '',
+      saved: kind,
+    });
+    const recent = history.uses
+      .filter((use) => !isFavourite(history, use.location))
+      .slice(0, MAX_RECENT)
+      .map((use) => saved(use.location, 'recent'));
+    return [
+      { title: 'Favourites', suggestions: history.favourites.map((place) => saved(place, 'favourite')) },
+      { title: 'Recent', suggestions: recent },
+    ].filter((section) => section.suggestions.length > 0);
+  };
+
+  const sections: Section[] =
+    query.trim() === ''
+      ? savedSections()
+      : [
+          {
+            title: null,
+            suggestions: coordinate.parsed
+              ? [coordinateSuggestion(coordinate.parsed)]
+              : coordinate.error
+                ? []
+                : poiQuery
+                  ? poiSuggestions()
+                  : placeSuggestions(),
+          },
+        ];
+  const options = sections.flatMap((section) => section.suggestions);
+  const active = isOpen ? options[highlighted] ?? null : null;
+  const optionId = (index: number) => `${listId}-option-${index}`;
+  const isLoading = places.isFetching || pois.isFetching;
+
+  // Keep the highlighted suggestion in view as the arrow keys move through a long list
+  useEffect(() => {
+    if (highlighted >= 0) document.getElementById(`${listId}-option-${highlighted}`)?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted, listId]);
+
+  const handleSelect = useCallback((suggestion: Suggestion) => {
+    setQuery(suggestion.location.name);
+    onChange(suggestion.location);
+    recordUse(remembered(suggestion));
     setIsOpen(false);
-  }, [onChange]);
+    setHighlighted(-1);
+  }, [onChange, recordUse]);
+
+  const open = () => {
+    setIsActive(true);
+    setIsOpen(true);
+    setHighlighted(-1);
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newQuery = e.target.value;
     setQuery(newQuery);
-    setIsOpen(newQuery.length > 0);
+    open();
     if (newQuery === '') {
       onChange(null);
     }
@@ -66,6 +248,95 @@ const LocationSearch = ({ placeholder, value, onChange, icon, iconColor }: Locat
     setIsOpen(false);
   };
 
+  // Arrow keys move through the suggestions and Enter picks the highlighted
+  // one, or the first. Shift+Enter stars or unstars the highlighted one.
+  // Escape closes the list, and pressed again clears the box.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isOpen) {
+        open();
+        return;
+      }
+      if (options.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((current) =>
+        current < 0 ? (step > 0 ? 0 : options.length - 1) : (current + step + options.length) % options.length,
+      );
+    } else if (e.key === 'Enter' && e.shiftKey) {
+      if (!active || active.isCoordinate) return;
+      e.preventDefault();
+      toggleFavourite(remembered(active));
+    } else if (e.key === 'Enter') {
+      const choice = active ?? (isOpen && query.trim() ? options[0] : null);
+      if (!choice) return;
+      e.preventDefault();
+      handleSelect(choice);
+    } else if (e.key === 'Escape') {
+      if (!isOpen && !query) return;
+      e.preventDefault();
+      if (isOpen) setIsOpen(false);
+      else handleClear();
+    }
+  };
+
+  const suggestionIcon = ({ isCoordinate, category, saved }: Suggestion) => {
+    if (saved === 'favourite') return <Star className="h-4 w-4 fill-amber-400 text-amber-400 flex-shrink-0" />;
+    if (saved === 'recent') return <History className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+    if (isCoordinate) return <Crosshair className="h-4 w-4 text-primary flex-shrink-0" />;
+    if (category) return <MapPin className="h-4 w-4 flex-shrink-0" style={{ color: POI_COLORS[category] }} />;
+    return <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+  };
+
+  const renderOption = (suggestion: Suggestion) => {
+    const { location, context, telugu, isCoordinate } = suggestion;
+    const index = options.indexOf(suggestion);
+    const starred = isFavourite(history, location);
+    return (
+      <div
+        key={`${location.name}|${context}`}
+        id={optionId(index)}
+        role="option"
+        aria-selected={index === highlighted}
+        onClick={() => handleSelect(suggestion)}
+        onMouseMove={() => setHighlighted(index)}
+        className={cn(
+          'w-full px-4 py-3 flex items-center gap-3 cursor-pointer transition-colors text-left',
+          index === highlighted && 'bg-secondary/50',
+        )}
+      >
+        {suggestionIcon(suggestion)}
+        <div className="min-w-0 flex-1">
+          <div className="font-medium text-foreground truncate">
+            {location.name}
+            {telugu && <span className="ml-2 font-normal text-muted-foreground" lang="te">{telugu}</span>}
+          </div>
+          {/* Places saved before their description was kept show their position */}
+          <div className="text-xs text-muted-foreground truncate">
+            {context || formatCoordinates([location.lat, location.lng])}
+          </div>
+        </div>
+        {/* Kept out of the accessibility tree, as an option has no focusable
+            parts; keyboard users star the highlighted option with Shift+Enter */}
+        {!isCoordinate && (
+          <button
+            type="button"
+            tabIndex={-1}
+            aria-hidden
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleFavourite(remembered(suggestion));
+            }}
+            title={starred ? 'Remove from favourites (Shift+Enter)' : 'Add to favourites (Shift+Enter)'}
+            className="p-1 flex-shrink-0 text-muted-foreground hover:text-amber-500 transition-colors"
+          >
+            <Star className={cn('h-4 w-4', starred && 'fill-amber-400 text-amber-400')} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="relative">
       <div className="relative">
@@ -77,46 +348,81 @@ const LocationSearch = ({ placeholder, value, onChange, icon, iconColor }: Locat
         </div>
         <Input
           type="text"
+          role="combobox"
+          aria-expanded={isOpen && options.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={active ? optionId(highlighted) : undefined}
+          aria-describedby={`${listId}-hint`}
           placeholder={placeholder}
           value={query}
           onChange={handleInputChange}
-          onFocus={() => query.length > 0 && setIsOpen(true)}
-          onBlur={() => setTimeout(() => setIsOpen(false), 200)}
+          onKeyDown={handleKeyDown}
+          onFocus={open}
+          onBlur={() => setIsOpen(false)}
           className="pl-10 pr-10 h-12 bg-secondary/50 border-border/50 focus:border-primary focus:ring-1 focus:ring-primary/20 transition-all"
         />
+        {isLoading && (
+          <Loader2 className="absolute right-9 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
         {query && (
           <button
             onClick={handleClear}
+            aria-label="Clear"
             className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
           >
             ×
           </button>
         )}
       </div>
+
+      <span id={`${listId}-hint`} className="sr-only">
+        Shift+Enter adds the highlighted place to favourites, or removes it
+      </span>
+
+      {coordinate.error && (
+        <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+          {coordinate.error}
+        </p>
+      )}
+
+      {geocoderError && (
+        <p role="status" className="mt-1 flex items-center gap-1 text-xs text-amber-600">
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="truncate" title={geocoderError.message}>
+            {gazetteer ? `${geocoder.name} is unavailable, so only offline places are shown` : geocoderError.message}
+          </span>
+        </p>
+      )}
       
-      {isOpen && filteredLocations.length > 0 && (
+      {isOpen && options.length > 0 && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-card rounded-lg shadow-elevated border border-border/50 overflow-hidden z-50 animate-slide-up">
-          <div className="max-h-60 overflow-y-auto">
-            {filteredLocations.map((location) => (
-              <button
-                key={location.name}
-                onClick={() => handleSelect(location)}
-                className="w-full px-4 py-3 flex items-center gap-3 hover:bg-secondary/50 transition-colors text-left"
-              >
-                <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <div className="font-medium text-foreground">{location.name}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
+          {/* Pressing on the list would otherwise blur the box and close it before the click lands */}
+          <div
+            id={listId}
+            role="listbox"
+            aria-label={placeholder}
+            onMouseDown={(e) => e.preventDefault()}
+            className="max-h-60 overflow-y-auto"
+          >
+            {sections.map((section) =>
+              section.title ? (
+                <div key={section.title} role="group" aria-label={section.title}>
+                  <div aria-hidden className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {section.title}
                   </div>
+                  {section.suggestions.map(renderOption)}
                 </div>
-              </button>
-            ))}
+              ) : (
+                <Fragment key="results">{section.suggestions.map(renderOption)}</Fragment>
+              ),
+            )}
           </div>
         </div>
       )}
       
-      {isOpen && filteredLocations.length === 0 && query.length > 0 && (
+      {isOpen && options.length === 0 && query.trim().length > 0 && !isLoading && !coordinate.error && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-card rounded-lg shadow-elevated border border-border/50 p-4 z-50 animate-slide-up">
           <p className="text-sm text-muted-foreground text-center">No locations found</p>
         </div>
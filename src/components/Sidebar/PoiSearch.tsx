@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Hospital, Landmark, Loader2 } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { formatDistance } from '@/lib/format';
+import type { LatLng } from '@/lib/geo';
+import { loadPois, nearestPois, POI_CATEGORY_LABELS, POI_COLORS, type Poi, type PoiCategory } from '@/lib/places/pois';
+import { cn } from '@/lib/utils';
+import type { Location } from '@/types/location';
+
+const POI_ICONS: Record<PoiCategory, typeof Hospital> = {
+  hospital: Hospital,
+  temple: Landmark,
+};
+
+interface PoiSearchProps {
+  source: Location | null;
+  // Centre of the map, for measuring from when there is no start location
+  mapCenter: LatLng;
+  onSourceChange: (location: Location) => void;
+  onDestinationChange: (location: Location) => void;
+  // Places listed, for marking on the map
+  onResultsChange: (pois: Poi[]) => void;
+}
+
+const MAX_RESULTS = 8;
+
+// Category chips and the nearest places of the chosen kind
+const PoiSearch = ({ source, mapCenter, onSourceChange, onDestinationChange, onResultsChange }: PoiSearchProps) => {
+  const [category, setCategory] = useState<PoiCategory | null>(null);
+  const [fromMapCenter, setFromMapCenter] = useState(false);
+  const pois = useQuery({
+    queryKey: ['pois'],
+    queryFn: loadPois,
+    enabled: category !== null,
+    staleTime: Infinity,
+  });
+
+  const fromSource = source !== null && !fromMapCenter;
+  const results = useMemo(() => {
+    if (!category || !pois.data) return [];
+    const origin: LatLng = fromSource ? [source.lat, source.lng] : mapCenter;
+    return nearestPois(pois.data, category, origin, MAX_RESULTS);
+  }, [category, pois.data, fromSource, source, mapCenter]);
+
+  useEffect(() => {
+    onResultsChange(results.map(({ poi }) => poi));
+  }, [results, onResultsChange]);
+
+  const use = (poi: Poi, role: 'source' | 'destination') => {
+    const location = { name: poi.name, lat: poi.point[0], lng: poi.point[1] };
+    if (role === 'source') onSourceChange(location);
+    else onDestinationChange(location);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ToggleGroup
+        type="single"
+        value={category ?? ''}
+        onValueChange={(value) => setCategory((value as PoiCategory) || null)}
+        className="flex flex-wrap justify-start gap-1"
+      >
+        {(Object.keys(POI_ICONS) as PoiCategory[]).map((key) => {
+          const Icon = POI_ICONS[key];
+          return (
+            <ToggleGroupItem
+              key={key}
+              value={key}
+              size="sm"
+              className="h-7 gap-1 rounded-full border border-border/50 px-2 text-xs data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+            >
+              <Icon className="h-3.5 w-3.5" style={{ color: POI_COLORS[key] }} />
+              {POI_CATEGORY_LABELS[key].many}
+            </ToggleGroupItem>
+          );
+        })}
+      </ToggleGroup>
+
+      {category && (
+        <div className="bg-secondary/50 rounded-xl p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span className="truncate">
+              Nearest to {fromSource ? source.name : 'the map centre'}
+            </span>
+            {source && (
+              <button
+                onClick={() => setFromMapCenter(!fromMapCenter)}
+                className="flex-shrink-0 underline-offset-2 hover:text-foreground hover:underline"
+              >
+                {fromMapCenter ? 'Use start' : 'Use map centre'}
+              </button>
+            )}
+          </div>
+
+          {pois.isLoading && <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />}
+          {pois.error && <p className="text-xs text-destructive">{pois.error.message}</p>}
+
+          <ul className="space-y-1">
+            {results.map(({ poi, distance }) => {
+              const Icon = POI_ICONS[poi.category];
+              return (
+                <li key={poi.id} className="flex items-center gap-2 text-sm">
+                  <Icon className="h-4 w-4 flex-shrink-0" style={{ color: POI_COLORS[poi.category] }} />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-foreground" title={poi.name}>{poi.name}</div>
+                    <div className="text-xs text-muted-foreground tabular-nums">{formatDistance(distance)}</div>
+                  </div>
+                  {(['source', 'destination'] as const).map((role) => (
+                    <button
+                      key={role}
+                      onClick={() => use(poi, role)}
+                      className={cn(
+                        'flex-shrink-0 rounded-md px-2 py-1 text-xs font-medium transition-colors',
+                        role === 'source'
+                          ? 'text-emerald-600 hover:bg-emerald-500/10'
+                          : 'text-red-600 hover:bg-red-500/10',
+                      )}
+                    >
+                      {role === 'source' ? 'Start' : 'Go'}
+                    </button>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PoiSearch;
@@ -0,0 +1,81 @@
+import { Bike, Bus, Car, Eye, EyeOff, Footprints, TrainFront } from 'lucide-react';
+import { formatClock, formatDistance, formatDuration } from '@/lib/format';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import type { MultimodalJourney } from '@/lib/transit/multimodal';
+
+interface RailAlternativeProps {
+  journey: MultimodalJourney;
+  // Seconds by road, for comparison
+  roadDuration: number;
+  isShown: boolean;
+  onToggle: () => void;
+}
+
+const ROAD_ICONS: Partial<Record<RoutingProfile, typeof Car>> = {
+  'two-wheeler': Bike,
+  bus: Bus,
+};
+
+// The trip by train, with the drive or bus ride to and from the stations
+const RailAlternative = ({ journey, roadDuration, isShown, onToggle }: RailAlternativeProps) => {
+  const duration = (journey.arrival - journey.departure) / 1000;
+  const difference = duration - roadDuration;
+
+  return (
+    <div className="bg-card rounded-lg p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <TrainFront className="h-4 w-4 text-blue-700" />
+            By train · {formatDuration(duration)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Leave {formatClock(journey.departure)} · arrive {formatClock(journey.arrival)} ·{' '}
+            {Math.abs(difference) < 300
+              ? 'about the same as by road'
+              : `${formatDuration(Math.abs(difference))} ${difference < 0 ? 'quicker' : 'longer'} than by road`}
+          </div>
+        </div>
+        <button
+          onClick={onToggle}
+          className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+          title={isShown ? 'Hide from the map' : 'Show on the map'}
+        >
+          {isShown ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        </button>
+      </div>
+
+      <ol className="space-y-1.5 text-xs">
+        {journey.legs.map((leg, i) => {
+          if (leg.type === 'ride') {
+            return (
+              <li key={i} className="flex gap-2">
+                <div className="w-1 rounded-full flex-shrink-0" style={{ background: leg.route.color }} />
+                <div className="min-w-0">
+                  <div className="font-medium text-foreground truncate">
+                    {leg.route.shortName} {leg.route.longName}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {formatClock(leg.departure)} {leg.stops[0].name} → {formatClock(leg.arrival)}{' '}
+                    {leg.stops[leg.stops.length - 1].name}
+                  </div>
+                </div>
+              </li>
+            );
+          }
+          const Icon = leg.type === 'walk' ? Footprints : (ROAD_ICONS[leg.profile] ?? Car);
+          return (
+            <li key={i} className="flex items-center gap-2 text-muted-foreground">
+              <Icon className="h-3.5 w-3.5 flex-shrink-0" />
+              <span>
+                {formatDistance(leg.distance)} to {leg.to.name} ({formatDuration((leg.arrival - leg.departure) / 1000)})
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default RailAlternative;
@@ -0,0 +1,65 @@
+import { cn } from '@/lib/utils';
+import { ROAD_CLASS_LABELS, type RoadClass } from '@/lib/routing/graph';
+
+export interface RouteOption {
+  distance: string;
+  duration: string;
+  summary: string;
+  // Share of the distance on each road class, largest first
+  roadClasses: { roadClass: RoadClass; share: number }[];
+}
+
+interface RouteComparisonProps {
+  options: RouteOption[];
+  active: number;
+  onSelect: (index: number) => void;
+}
+
+const ROAD_CLASS_COLORS: Record<RoadClass, string> = {
+  motorway: 'bg-violet-500',
+  national: 'bg-sky-500',
+  state: 'bg-emerald-500',
+  district: 'bg-amber-500',
+  village: 'bg-stone-400',
+  ferry: 'bg-indigo-500',
+};
+
+const RouteComparison = ({ options, active, onSelect }: RouteComparisonProps) => (
+  <div className="space-y-2">
+    {options.map((option, index) => (
+      <button
+        key={index}
+        onClick={() => onSelect(index)}
+        className={cn(
+          'w-full text-left bg-card rounded-lg p-3 border transition-colors',
+          index === active ? 'border-primary' : 'border-transparent hover:border-border'
+        )}
+      >
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="text-sm font-medium text-foreground truncate">
+            {option.summary ? `via ${option.summary}` : `Route ${index + 1}`}
+          </span>
+          <span className="text-xs text-muted-foreground flex-shrink-0">
+            {option.distance} • {option.duration}
+          </span>
+        </div>
+        <div className="mt-2 flex h-1.5 rounded-full overflow-hidden bg-secondary">
+          {option.roadClasses.map(({ roadClass, share }) => (
+            <div
+              key={roadClass}
+              className={ROAD_CLASS_COLORS[roadClass]}
+              style={{ width: `${share * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="mt-1 text-[11px] text-muted-foreground">
+          {option.roadClasses
+            .map(({ roadClass, share }) => `${ROAD_CLASS_LABELS[roadClass]} ${Math.round(share * 100)}%`)
+            .join(' • ')}
+        </div>
+      </button>
+    ))}
+  </div>
+);
+
+export default RouteComparison;
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Shuffle, Zap, TrendingDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toast } from '@/components/ui/sonner';
+import { formatDistance } from '@/lib/format';
+import { getRoutingProvider } from '@/lib/routing/config';
+import { optimiseStopOrder, tripCost, type TripEnd } from '@/lib/routing/optimize';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import { createWaypoint } from '@/lib/waypoints';
+import type { Location, Waypoint } from '@/types/location';
+
+interface StopOptimiserProps {
+  source: Location | null;
+  destination: Location | null;
+  waypoints: Waypoint[];
+  onDestinationChange: (location: Location | null) => void;
+  onWaypointsChange: (waypoints: Waypoint[]) => void;
+  profile: RoutingProfile;
+  onOptimised: () => void;
+}
+
+const isSamePlace = (a: Location, b: Location) => a.lat === b.lat && a.lng === b.lng;
+
+const StopOptimiser = ({
+  source,
+  destination,
+  waypoints,
+  onDestinationChange,
+  onWaypointsChange,
+  profile,
+  onOptimised,
+}: StopOptimiserProps) => {
+  const [tripEnd, setTripEnd] = useState<TripEnd>('fixed');
+  const [isOptimising, setIsOptimising] = useState(false);
+  const [saving, setSaving] = useState<{ original: number; optimised: number } | null>(null);
+
+  const stops = waypoints.filter((waypoint) => waypoint.location);
+  if (stops.length < 2) return null;
+
+  const optimise = async () => {
+    if (!source) return;
+
+    const end: TripEnd = tripEnd === 'fixed' && !destination ? 'open' : tripEnd;
+    // A round trip that already ends at the start should not count it as a stop
+    const includeDestination = destination && !(end === 'start' && isSamePlace(destination, source));
+    const items: { location: Location; waypoint?: Waypoint }[] = [
+      { location: source },
+      ...stops.map((waypoint) => ({ location: waypoint.location!, waypoint })),
+      ...(includeDestination ? [{ location: destination }] : []),
+    ];
+
+    setIsOptimising(true);
+    try {
+      const points = items.map(({ location }) => [location.lat, location.lng] as [number, number]);
+      const { distances } = await getRoutingProvider().matrix({ sources: points, destinations: points, profile });
+
+      const original = tripCost(distances, items.map((_, i) => i), end);
+      const best = optimiseStopOrder(distances, end);
+      if (!Number.isFinite(best.cost)) throw new Error('Some stops cannot be reached by road');
+
+      const visits = best.order.slice(1).map((i) => items[i]);
+      const toWaypoint = ({ location, waypoint }: (typeof items)[number]) => waypoint ?? createWaypoint(location);
+
+      if (end === 'start') {
+        onWaypointsChange(visits.map(toWaypoint));
+        onDestinationChange(source);
+      } else {
+        onWaypointsChange(visits.slice(0, -1).map(toWaypoint));
+        onDestinationChange(visits[visits.length - 1].location);
+      }
+
+      setSaving({ original, optimised: best.cost });
+      onOptimised();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not optimise the stop order');
+    } finally {
+      setIsOptimising(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={tripEnd}
+        onValueChange={(value) => value && setTripEnd(value as TripEnd)}
+        className="w-full"
+      >
+        <ToggleGroupItem value="fixed" disabled={!destination} className="flex-1 text-xs">
+          Keep end
+        </ToggleGroupItem>
+        <ToggleGroupItem value="open" className="flex-1 text-xs">
+          Any end
+        </ToggleGroupItem>
+        <ToggleGroupItem value="start" className="flex-1 text-xs">
+          Round trip
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      <Button
+        variant="secondary"
+        onClick={optimise}
+        disabled={!source || isOptimising}
+        className="w-full"
+      >
+        {isOptimising ? (
+          <>
+            <Zap className="h-4 w-4 mr-2 animate-pulse" />
+            Optimising...
+          </>
+        ) : (
+          <>
+            <Shuffle className="h-4 w-4 mr-2" />
+            Optimise order
+          </>
+        )}
+      </Button>
+
+      {saving && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-start gap-2 rounded-lg bg-emerald-500/10 px-3 py-2 text-xs text-foreground"
+        >
+          <TrendingDown className="h-4 w-4 flex-shrink-0 text-emerald-500" />
+          {saving.original - saving.optimised > 1 ? (
+            <span>
+              Saves <strong>{formatDistance(saving.original - saving.optimised)}</strong> (
+              {Math.round(((saving.original - saving.optimised) / saving.original) * 100)}%) versus your order:{' '}
+              {formatDistance(saving.optimised)} instead of {formatDistance(saving.original)}
+            </span>
+          ) : (
+            <span>Your order was already the shortest ({formatDistance(saving.optimised)})</span>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default StopOptimiser;
@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Pause, Play, Route, Upload, X, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { toast } from '@/components/ui/sonner';
+import { formatClock, formatDistance, formatDuration } from '@/lib/format';
+import type { LatLng } from '@/lib/geo';
+import { loadGazetteer } from '@/lib/places/gazetteer';
+import { loadRoadGraph, ROAD_CLASS_LABELS, type RoadClass } from '@/lib/routing/graph';
+import { roadClassBreakdown } from '@/lib/routing/summary';
+import { alongAt, districtBreakdown, matchTrace, pointAlong, type MatchedTrace } from '@/lib/trace/match';
+import { parseTrace, TraceError } from '@/lib/trace/parse';
+import { cn } from '@/lib/utils';
+
+interface TracePanelProps {
+  match: MatchedTrace | null;
+  onMatchChange: (match: MatchedTrace | null) => void;
+  // Where the playback marker is, or null when there is nothing to play
+  onPlaybackPoint: (point: LatLng | null) => void;
+}
+
+// Seconds of trace per second of playback; untimed traces play as if driven at 60 km/h
+const PLAYBACK_SPEEDS = [60, 300, 1200];
+const UNTIMED_RATE = 60 / 3.6;
+
+// Which roads a GPS trace recorded in the field actually used, with a replay
+// of the journey along them
+const TracePanel = ({ match, onMatchChange, onPlaybackPoint }: TracePanelProps) => {
+  const [isMatching, setIsMatching] = useState(false);
+  // Milliseconds since the epoch for timed traces, otherwise metres along the path
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // For the districts the trace passed through
+  const { data: gazetteer } = useQuery({
+    queryKey: ['gazetteer'],
+    queryFn: loadGazetteer,
+    enabled: match !== null,
+    staleTime: Infinity,
+  });
+
+  const timeline = useMemo(() => {
+    if (!match) return null;
+    const { fixes } = match;
+    const timed = fixes.length > 1 && fixes.every((fix) => fix.time !== null) && fixes[fixes.length - 1].time! > fixes[0].time!;
+    return timed
+      ? { timed, start: fixes[0].time!, end: fixes[fixes.length - 1].time! }
+      : { timed, start: 0, end: match.distance };
+  }, [match]);
+
+  const along = match && timeline ? (timeline.timed ? alongAt(match, position) : position) : 0;
+
+  // A new trace replays from its start, which is a time only if every fix has one
+  useEffect(() => {
+    if (timeline) setPosition(timeline.start);
+  }, [timeline]);
+
+  const importTrace = async (file: File) => {
+    setIsMatching(true);
+    setIsPlaying(false);
+    try {
+      const trace = parseTrace(file.name, await file.text());
+      const matched = matchTrace(await loadRoadGraph(), trace);
+      if (matched.fixes.length === 0) throw new TraceError('None of the trace is near a road in Andhra Pradesh');
+      onMatchChange(matched);
+      toast.success(`Matched ${formatDistance(matched.distance)} of ${trace.name} to the road network`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the trace');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const clear = () => {
+    setIsPlaying(false);
+    onMatchChange(null);
+  };
+
+  // Advance the marker every frame while playing
+  useEffect(() => {
+    if (!isPlaying || !timeline) return;
+    const rate = speed * (timeline.timed ? 1000 : UNTIMED_RATE);
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setPosition((current) => Math.min(timeline.end, current + elapsed * rate));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, timeline]);
+
+  useEffect(() => {
+    if (isPlaying && timeline && position >= timeline.end) setIsPlaying(false);
+  }, [isPlaying, position, timeline]);
+
+  useEffect(() => {
+    onPlaybackPoint(match ? pointAlong(match, along) : null);
+  }, [match, along, onPlaybackPoint]);
+
+  const roadClasses = match
+    ? (Object.entries(roadClassBreakdown(match.segments)) as [RoadClass, number][]).sort((a, b) => b[1] - a[1])
+    : [];
+  // Recomputed only for a new trace, not on every frame of playback
+  const districts = useMemo(
+    () => (match && gazetteer ? districtBreakdown(gazetteer, match.segments) : []),
+    [match, gazetteer],
+  );
+  const share = (distance: number) => (match && match.distance > 0 ? distance / match.distance : 0);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Import a GPX or CSV track from a phone to see which roads it followed and replay the trip.
+      </p>
+
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isMatching}
+        className="w-full h-12 gradient-ocean text-primary-foreground font-medium shadow-glow hover:opacity-90 transition-opacity"
+      >
+        {isMatching ? (
+          <>
+            <Zap className="h-5 w-5 mr-2 animate-pulse" />
+            Matching...
+          </>
+        ) : (
+          <>
+            <Upload className="h-5 w-5 mr-2" />
+            Import GPS Trace
+          </>
+        )}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".gpx,.csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importTrace(file);
+          e.target.value = '';
+        }}
+      />
+
+      {match && timeline && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-secondary/50 rounded-xl p-4 space-y-4"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <h3 className="font-medium text-foreground flex items-center gap-2">
+                <Route className="h-4 w-4 text-primary flex-shrink-0" />
+                <span className="truncate">{match.trace.name}</span>
+              </h3>
+              <div className="text-xs text-muted-foreground">
+                {formatDistance(match.distance)} by road · {match.trace.points.length} points
+                {timeline.timed && ` · ${formatDuration((timeline.end - timeline.start) / 1000)}`}
+              </div>
+            </div>
+            <button
+              onClick={clear}
+              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              title="Clear trace"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {match.unmatched > 0 && (
+            <div className="flex items-center gap-2 text-xs text-amber-600">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+              {match.unmatched} point{match.unmatched > 1 ? 's were' : ' was'} too far from any road to match
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  if (!isPlaying && position >= timeline.end) setPosition(timeline.start);
+                  setIsPlaying(!isPlaying);
+                }}
+                className="p-2 rounded-full bg-primary text-primary-foreground hover:opacity-90 transition-opacity"
+                title={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </button>
+              <Slider
+                min={timeline.start}
+                max={timeline.end}
+                step={timeline.timed ? 1000 : 10}
+                value={[position]}
+                onValueChange={([value]) => setPosition(value)}
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="tabular-nums">
+                {timeline.timed ? `${formatClock(position)} · ` : ''}
+                {formatDistance(along)}
+              </span>
+              <span className="flex gap-1">
+                {PLAYBACK_SPEEDS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSpeed(option)}
+                    className={cn(
+                      'px-1.5 py-0.5 rounded transition-colors',
+                      speed === option ? 'bg-primary text-primary-foreground' : 'hover:text-foreground',
+                    )}
+                  >
+                    {option}×
+                  </button>
+                ))}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="text-xs font-medium text-foreground">By road class</div>
+            {roadClasses.map(([roadClass, distance]) => (
+              <div key={roadClass} className="space-y-0.5">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="text-foreground">{ROAD_CLASS_LABELS[roadClass]}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">{formatDistance(distance)}</span>
+                </div>
+                <div className="h-1 rounded-full bg-secondary overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${share(distance) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-foreground">By district</div>
+            <ul className="space-y-0.5">
+              {districts.map(({ district, distance }) => (
+                <li key={district} className="flex justify-between gap-2 text-sm">
+                  <span className="truncate text-foreground">{district}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {formatDistance(distance)} · {Math.round(share(distance) * 100)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default TracePanel;
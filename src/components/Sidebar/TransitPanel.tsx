@@ -0,0 +1,280 @@
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bus, Footprints, MapPin, Upload, X, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/sonner';
+import LocationSearch from './LocationSearch';
+import { formatClock, formatDistance, formatDuration, toDateTimeLocal } from '@/lib/format';
+import { loadBundledFeed, parseGtfs, unzipTextFiles } from '@/lib/transit/gtfs';
+import type { MultimodalJourney } from '@/lib/transit/multimodal';
+import { buildTransitNetwork, nextJourneys, type TransitJourney, type TransitNetwork } from '@/lib/transit/raptor';
+import { cn } from '@/lib/utils';
+import type { Location } from '@/types/location';
+
+interface TransitPanelProps {
+  // Journey on the map, which may also be a train alternative from the Directions tab
+  journey: MultimodalJourney | null;
+  onJourneyChange: (journey: TransitJourney | null) => void;
+}
+
+const changes = (transfers: number) =>
+  transfers <= 0 ? 'direct' : `${transfers} change${transfers > 1 ? 's' : ''}`;
+
+// Bus journeys between towns from a GTFS timetable, the bundled sample or
+// one the user imports
+const TransitPanel = ({ journey, onJourneyChange }: TransitPanelProps) => {
+  const [from, setFrom] = useState<Location | null>(null);
+  const [to, setTo] = useState<Location | null>(null);
+  // null means leave now
+  const [departAt, setDepartAt] = useState<number | null>(null);
+  const [imported, setImported] = useState<TransitNetwork | null>(null);
+  const [journeys, setJourneys] = useState<TransitJourney[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundledRef = useRef<TransitNetwork | null>(null);
+
+  const plan = async () => {
+    if (!from || !to) return;
+    setIsPlanning(true);
+    try {
+      const network = imported ?? (bundledRef.current ??= buildTransitNetwork(await loadBundledFeed()));
+      const found = nextJourneys(network, from, to, departAt ?? Date.now());
+      setJourneys(found);
+      onJourneyChange(found[0] ?? null);
+    } catch (error) {
+      setJourneys(null);
+      onJourneyChange(null);
+      toast.error(error instanceof Error ? error.message : 'Could not plan a bus journey');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // A zipped feed, or its .txt files picked together
+  const importFeed = async (files: FileList) => {
+    try {
+      const list = Array.from(files);
+      const zip = list.find((file) => file.name.toLowerCase().endsWith('.zip'));
+      const texts = zip
+        ? await unzipTextFiles(await zip.arrayBuffer())
+        : Object.fromEntries(await Promise.all(list.map(async (file) => [file.name, await file.text()] as const)));
+      const network = buildTransitNetwork(parseGtfs(texts));
+      setImported(network);
+      setJourneys(null);
+      onJourneyChange(null);
+      toast.success(`Imported ${network.stops.length} stops and ${network.patterns.length} route patterns`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the GTFS feed');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-emerald-500" />
+          From
+        </label>
+        <LocationSearch
+          placeholder="Enter start location..."
+          value={from}
+          onChange={setFrom}
+          icon={<MapPin className="h-5 w-5" />}
+          iconColor="text-emerald-500"
+        />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-coral" />
+          To
+        </label>
+        <LocationSearch
+          placeholder="Enter destination..."
+          value={to}
+          onChange={setTo}
+          icon={<MapPin className="h-5 w-5" />}
+          iconColor="text-coral"
+        />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-foreground mb-2 flex items-center justify-between">
+          Leave at
+          {departAt !== null && (
+            <button
+              onClick={() => setDepartAt(null)}
+              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Leave now
+            </button>
+          )}
+        </label>
+        <Input
+          type="datetime-local"
+          value={toDateTimeLocal(departAt ?? Date.now())}
+          onChange={(e) => {
+            const at = new Date(e.target.value).getTime();
+            if (!Number.isNaN(at)) setDepartAt(at);
+          }}
+          className="bg-secondary border-0"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="truncate">Timetable: {imported ? imported.agency : 'APSRTC sample'}</span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          {imported && (
+            <button onClick={() => setImported(null)} className="hover:text-foreground transition-colors">
+              Use sample
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+          >
+            <Upload className="h-3.5 w-3.5" />
+            Import GTFS
+          </button>
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,.txt"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) importFeed(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <Button
+        onClick={plan}
+        disabled={!from || !to || isPlanning}
+        className="w-full h-12 gradient-ocean text-primary-foreground font-medium shadow-glow hover:opacity-90 transition-opacity"
+      >
+        {isPlanning ? (
+          <>
+            <Zap className="h-5 w-5 mr-2 animate-pulse" />
+            Planning...
+          </>
+        ) : (
+          <>
+            <Bus className="h-5 w-5 mr-2" />
+            Find Buses
+          </>
+        )}
+      </Button>
+
+      {journeys && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-secondary/50 rounded-xl p-4 space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-foreground flex items-center gap-2">
+              <Bus className="h-4 w-4 text-primary" />
+              Journeys
+            </h3>
+            <button
+              onClick={() => {
+                setJourneys(null);
+                onJourneyChange(null);
+              }}
+              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              title="Clear journeys"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {journeys.length === 0 && (
+            <div className="text-sm text-muted-foreground">No buses run between these places in the next day</div>
+          )}
+
+          {journeys.map((option, i) => {
+            const isActive = option === journey;
+            return (
+              <div
+                key={i}
+                className={cn(
+                  'bg-card rounded-lg p-3 space-y-2 border-2 transition-colors',
+                  isActive ? 'border-primary' : 'border-transparent',
+                )}
+              >
+                <button onClick={() => onJourneyChange(option)} className="w-full text-left space-y-1.5">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium text-foreground">
+                      {formatClock(option.departure)} → {formatClock(option.arrival)}
+                    </span>
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {formatDuration((option.arrival - option.departure) / 1000)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {option.legs.map((leg, j) =>
+                      leg.type === 'ride' ? (
+                        <span
+                          key={j}
+                          className="px-1.5 py-0.5 rounded text-xs font-semibold"
+                          style={{ background: leg.route.color, color: leg.route.textColor }}
+                        >
+                          {leg.route.shortName || leg.route.longName}
+                        </span>
+                      ) : (
+                        <Footprints key={j} className="h-3.5 w-3.5 text-muted-foreground" />
+                      ),
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {option.legs.some((leg) => leg.type === 'ride') ? changes(option.transfers) : 'walk only'}
+                    </span>
+                  </div>
+                </button>
+
+                {isActive && (
+                  <ol className="pt-2 border-t border-border space-y-2 text-xs">
+                    {option.legs.map((leg, j) => (
+                      <li key={j} className="flex gap-2">
+                        {leg.type === 'ride' ? (
+                          <>
+                            <div className="w-1 rounded-full flex-shrink-0" style={{ background: leg.route.color }} />
+                            <div className="min-w-0">
+                              <div className="font-medium text-foreground">
+                                {leg.route.shortName} {leg.route.longName} towards {leg.headsign}
+                              </div>
+                              <div className="text-muted-foreground">
+                                {formatClock(leg.departure)} {leg.stops[0].name}
+                              </div>
+                              <div className="text-muted-foreground">
+                                {formatClock(leg.arrival)} {leg.stops[leg.stops.length - 1].name}
+                                {leg.stops.length > 2 && ` · ${leg.stops.length - 1} stops`}
+                              </div>
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <Footprints className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                            <div className="text-muted-foreground">
+                              Walk {formatDistance(leg.distance)} to {leg.to.name} (
+                              {formatDuration((leg.arrival - leg.departure) / 1000)})
+                            </div>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            );
+          })}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default TransitPanel;
@@ -0,0 +1,41 @@
+import { Bike, Bus, Car, Footprints, Gauge, Truck } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TRAVEL_PROFILES } from '@/lib/routing/profiles';
+import type { RoutingProfile } from '@/lib/routing/provider';
+
+interface TravelModeSelectorProps {
+  value: RoutingProfile;
+  onChange: (mode: RoutingProfile) => void;
+}
+
+const MODES: { mode: RoutingProfile; icon: typeof Car; short: string }[] = [
+  { mode: 'car', icon: Car, short: 'Car' },
+  { mode: 'two-wheeler', icon: Gauge, short: '2-wheeler' },
+  { mode: 'bus', icon: Bus, short: 'Bus' },
+  { mode: 'truck', icon: Truck, short: 'Truck' },
+  { mode: 'bicycle', icon: Bike, short: 'Cycle' },
+  { mode: 'walking', icon: Footprints, short: 'Walk' },
+];
+
+const TravelModeSelector = ({ value, onChange }: TravelModeSelectorProps) => (
+  <ToggleGroup
+    type="single"
+    value={value}
+    onValueChange={(mode) => mode && onChange(mode as RoutingProfile)}
+    className="grid grid-cols-6 gap-1"
+  >
+    {MODES.map(({ mode, icon: Icon, short }) => (
+      <ToggleGroupItem
+        key={mode}
+        value={mode}
+        title={TRAVEL_PROFILES[mode].label}
+        className="h-auto flex-col gap-1 px-1 py-2 text-[10px] data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+      >
+        <Icon className="h-4 w-4" />
+        {short}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+export default TravelModeSelector;
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, IndianRupee } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_VEHICLE_COSTS,
+  FARE_TARIFFS,
+  fareFor,
+  fuelCost,
+  loadTollRates,
+  TOLL_CLASS_LABELS,
+  tollCharges,
+  type RawTollRates,
+  type TollClass,
+  type VehicleCosts,
+} from '@/lib/cost';
+import { formatRupees } from '@/lib/format';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import { cn } from '@/lib/utils';
+
+interface TripCostProps {
+  // Metres
+  distance: number;
+  // Undefined when the routing provider does not report toll plazas
+  tollPlazas?: string[];
+  profile: RoutingProfile;
+}
+
+const EXEMPT = 'exempt';
+
+// Running cost of the trip in one's own vehicle, with bus, auto and taxi
+// fares for comparison
+const TripCost = ({ distance, tollPlazas, profile }: TripCostProps) => {
+  const [vehicle, setVehicle] = useState<VehicleCosts | null>(DEFAULT_VEHICLE_COSTS[profile]);
+  const [rates, setRates] = useState<RawTollRates | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    setVehicle(DEFAULT_VEHICLE_COSTS[profile]);
+  }, [profile]);
+
+  useEffect(() => {
+    loadTollRates()
+      .then(setRates)
+      .catch(() => setRates(null));
+  }, []);
+
+  const fuel = vehicle ? fuelCost(distance, vehicle) : 0;
+  const tolls = rates && tollPlazas && vehicle ? tollCharges(tollPlazas, rates, vehicle.tollClass) : null;
+  const fares = FARE_TARIFFS.map((tariff) => ({ tariff, fare: fareFor(tariff, distance) }));
+  const cheapestFare = Math.min(...fares.flatMap(({ fare }) => (fare === null ? [] : [fare])));
+
+  const update = (change: Partial<VehicleCosts>) => setVehicle((current) => current && { ...current, ...change });
+
+  return (
+    <div className="col-span-2 bg-card rounded-lg p-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2 text-left">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">{vehicle ? 'Est. Cost' : 'Fares from'}</div>
+          <div className="font-display text-lg font-bold text-foreground">
+            {formatRupees(vehicle ? fuel + (tolls?.total ?? 0) : cheapestFare)}
+          </div>
+          {vehicle && (
+            <div className="text-xs text-muted-foreground">
+              Fuel {formatRupees(fuel)}
+              {tolls ? ` + tolls ${formatRupees(tolls.total)}` : ''}
+            </div>
+          )}
+        </div>
+        <ChevronDown className={cn('h-4 w-4 text-muted-foreground transition-transform', isOpen && 'rotate-180')} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 pt-3 border-t border-border space-y-3 text-sm">
+          {vehicle && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>Mileage (km/l)</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    value={vehicle.efficiency}
+                    onChange={(e) => update({ efficiency: Number(e.target.value) })}
+                    className="h-8"
+                  />
+                </label>
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>Fuel price (₹/l)</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={vehicle.fuelPrice}
+                    onChange={(e) => update({ fuelPrice: Number(e.target.value) })}
+                    className="h-8"
+                  />
+                </label>
+              </div>
+              <label className="text-xs text-muted-foreground space-y-1 block">
+                <span>Toll class</span>
+                <Select
+                  value={vehicle.tollClass ?? EXEMPT}
+                  onValueChange={(value) => update({ tollClass: value === EXEMPT ? null : (value as TollClass) })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TOLL_CLASS_LABELS) as TollClass[]).map((tollClass) => (
+                      <SelectItem key={tollClass} value={tollClass}>
+                        {TOLL_CLASS_LABELS[tollClass]}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={EXEMPT}>Exempt (two-wheeler)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </label>
+
+              {!tollPlazas ? (
+                <div className="text-xs text-muted-foreground">Toll plazas are not reported by this routing provider</div>
+              ) : (
+                tolls &&
+                tolls.charges.length + tolls.unpriced.length > 0 && (
+                  <ul className="space-y-0.5">
+                    {tolls.charges.map((charge, i) => (
+                      <li key={i} className="flex justify-between gap-2 text-xs">
+                        <span className="truncate text-foreground">{charge.name}</span>
+                        <span className="tabular-nums text-muted-foreground">{formatRupees(charge.amount)}</span>
+                      </li>
+                    ))}
+                    {tolls.unpriced.map((name, i) => (
+                      <li key={`unpriced-${i}`} className="flex justify-between gap-2 text-xs">
+                        <span className="truncate text-foreground">{name}</span>
+                        <span className="text-muted-foreground">rate unknown</span>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </div>
+          )}
+
+          {(['APSRTC', 'Local'] as const).map((group) => (
+            <div key={group} className="space-y-0.5">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground flex items-center gap-1">
+                <IndianRupee className="h-3 w-3" />
+                {group === 'APSRTC' ? 'APSRTC bus fares' : 'Auto & taxi'}
+              </h4>
+              {fares
+                .filter(({ tariff }) => tariff.group === group)
+                .map(({ tariff, fare }) => (
+                  <div key={tariff.label} className="flex justify-between gap-2 text-xs">
+                    <span className="text-foreground">{tariff.label}</span>
+                    <span className="tabular-nums text-muted-foreground">
+                      {fare === null ? 'not for this distance' : formatRupees(fare)}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripCost;
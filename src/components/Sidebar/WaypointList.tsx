@@ -0,0 +1,101 @@
+import { Reorder, useDragControls } from 'framer-motion';
+import { GripVertical, MapPin, Plus, X } from 'lucide-react';
+import LocationSearch from './LocationSearch';
+import { createWaypoint } from '@/lib/waypoints';
+import type { Location, Waypoint } from '@/types/location';
+
+interface WaypointListProps {
+  waypoints: Waypoint[];
+  onChange: (waypoints: Waypoint[]) => void;
+}
+
+const WaypointItem = ({
+  waypoint,
+  index,
+  onLocationChange,
+  onRemove,
+}: {
+  waypoint: Waypoint;
+  index: number;
+  onLocationChange: (location: Location | null) => void;
+  onRemove: () => void;
+}) => {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={waypoint}
+      dragListener={false}
+      dragControls={dragControls}
+      className="flex items-center gap-2"
+    >
+      <button
+        onPointerDown={(e) => dragControls.start(e)}
+        className="p-1 text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing touch-none"
+        title="Drag to reorder"
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+      <div className="w-5 h-5 rounded-full bg-violet-500 text-[11px] font-bold text-white flex items-center justify-center flex-shrink-0">
+        {index + 1}
+      </div>
+      <div className="flex-1 min-w-0">
+        <LocationSearch
+          placeholder="Add a stop..."
+          value={waypoint.location}
+          onChange={onLocationChange}
+          icon={<MapPin className="h-5 w-5" />}
+          iconColor="text-violet-500"
+        />
+      </div>
+      <button
+        onClick={onRemove}
+        className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+        title="Remove stop"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </Reorder.Item>
+  );
+};
+
+const WaypointList = ({ waypoints, onChange }: WaypointListProps) => {
+  const addWaypoint = () => {
+    onChange([...waypoints, createWaypoint()]);
+  };
+
+  const updateWaypoint = (id: string, location: Location | null) => {
+    onChange(waypoints.map((waypoint) => (waypoint.id === id ? { ...waypoint, location } : waypoint)));
+  };
+
+  const removeWaypoint = (id: string) => {
+    onChange(waypoints.filter((waypoint) => waypoint.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {waypoints.length > 0 && (
+        <Reorder.Group axis="y" values={waypoints} onReorder={onChange} className="space-y-2">
+          {waypoints.map((waypoint, index) => (
+            <WaypointItem
+              key={waypoint.id}
+              waypoint={waypoint}
+              index={index}
+              onLocationChange={(location) => updateWaypoint(waypoint.id, location)}
+              onRemove={() => removeWaypoint(waypoint.id)}
+            />
+          ))}
+        </Reorder.Group>
+      )}
+      <button
+        onClick={addWaypoint}
+        className="w-full py-2 flex items-center justify-center gap-2 text-sm text-muted-foreground hover:text-foreground border border-dashed border-border rounded-lg transition-colors"
+      >
+        <Plus className="h-4 w-4" />
+        Add stop
+      </button>
+    </div>
+  );
+};
+
+export default WaypointList;
@@ -0,0 +1,59 @@
+import * as React from "react";
+import {
+  PLACE_HISTORY_KEY,
+  readPlaceHistory,
+  recordPlaceUse,
+  toggleFavourite,
+  writePlaceHistory,
+  type PlaceHistory,
+  type SavedPlace,
+} from "@/lib/places/history";
+
+// One copy shared by every search box, read from localStorage on first use
+let current: PlaceHistory | null = null;
+const listeners = new Set<() => void>();
+
+// Merely reading window.localStorage throws when the browser blocks storage,
+// so that is treated as having none
+const storage = () => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const getSnapshot = () => {
+  if (!current) current = readPlaceHistory(storage());
+  return current;
+};
+
+const update = (change: (history: PlaceHistory) => PlaceHistory) => {
+  current = change(getSnapshot());
+  writePlaceHistory(storage(), current);
+  listeners.forEach((listener) => listener());
+};
+
+// Other tabs changing the history are picked up too
+const subscribe = (listener: () => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== PLACE_HISTORY_KEY) return;
+    current = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+const recordUse = (place: SavedPlace) => update((history) => recordPlaceUse(history, place));
+const toggleStar = (place: SavedPlace) => update((history) => toggleFavourite(history, place));
+
+// Recently picked and starred places, and ways to add to them
+export function usePlaceHistory() {
+  const history = React.useSyncExternalStore(subscribe, getSnapshot);
+  return { history, recordUse, toggleFavourite: toggleStar };
+}
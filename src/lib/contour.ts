@@ -0,0 +1,101 @@
+import type { LatLng } from './geo';
+
+type Side = 'bottom' | 'right' | 'top' | 'left';
+
+// Sides joined inside a cell for each pattern of inside corners
+// (bit 1: bottom-left, 2: bottom-right, 4: top-right, 8: top-left). The two
+// saddle patterns keep the inside corners apart.
+const CASES: Side[][][] = [
+  [],
+  [['left', 'bottom']],
+  [['bottom', 'right']],
+  [['left', 'right']],
+  [['right', 'top']],
+  [['left', 'bottom'], ['right', 'top']],
+  [['bottom', 'top']],
+  [['left', 'top']],
+  [['top', 'left']],
+  [['bottom', 'top']],
+  [['bottom', 'right'], ['top', 'left']],
+  [['right', 'top']],
+  [['right', 'left']],
+  [['bottom', 'right']],
+  [['left', 'bottom']],
+  [],
+];
+
+// Closed outlines of the region where `values` (rows of a regular grid) are
+// at most `threshold`, traced with marching squares. Rings may be nested;
+// drawn with the even-odd fill rule they give the region with its holes.
+// The outermost rows and columns must lie outside the region.
+export function contourRings(
+  values: number[][],
+  threshold: number,
+  toLatLng: (row: number, col: number) => LatLng,
+): LatLng[][] {
+  const points = new Map<string, LatLng>();
+  const segments: [string, string][] = [];
+
+  // Where the contour crosses the grid line between two neighbouring values
+  const crossing = (r1: number, c1: number, r2: number, c2: number) => {
+    const key = `${r1}:${c1}:${r2}:${c2}`;
+    if (!points.has(key)) {
+      const a = values[r1][c1];
+      const b = values[r2][c2];
+      const t = Number.isFinite(a) && Number.isFinite(b) ? (threshold - a) / (b - a) : 0.5;
+      const [lat1, lng1] = toLatLng(r1, c1);
+      const [lat2, lng2] = toLatLng(r2, c2);
+      points.set(key, [lat1 + (lat2 - lat1) * t, lng1 + (lng2 - lng1) * t]);
+    }
+    return key;
+  };
+
+  for (let r = 0; r < values.length - 1; r++) {
+    for (let c = 0; c < values[r].length - 1; c++) {
+      const pattern =
+        (values[r][c] <= threshold ? 1 : 0) |
+        (values[r][c + 1] <= threshold ? 2 : 0) |
+        (values[r + 1][c + 1] <= threshold ? 4 : 0) |
+        (values[r + 1][c] <= threshold ? 8 : 0);
+
+      const side = (name: Side) => {
+        switch (name) {
+          case 'bottom':
+            return crossing(r, c, r, c + 1);
+          case 'right':
+            return crossing(r, c + 1, r + 1, c + 1);
+          case 'top':
+            return crossing(r + 1, c, r + 1, c + 1);
+          case 'left':
+            return crossing(r, c, r + 1, c);
+        }
+      };
+      for (const [from, to] of CASES[pattern]) segments.push([side(from), side(to)]);
+    }
+  }
+
+  // Every crossing is shared by exactly two segments, so chain them into rings
+  const byPoint = new Map<string, number[]>();
+  segments.forEach(([a, b], i) => {
+    for (const key of [a, b]) byPoint.set(key, [...(byPoint.get(key) ?? []), i]);
+  });
+
+  const used = new Set<number>();
+  const rings: LatLng[][] = [];
+  for (let first = 0; first < segments.length; first++) {
+    if (used.has(first)) continue;
+    used.add(first);
+    const [start, next] = segments[first];
+    const ring = [points.get(start)!];
+    let key = next;
+    while (key !== start) {
+      ring.push(points.get(key)!);
+      const segment = byPoint.get(key)!.find((i) => !used.has(i));
+      if (segment === undefined) break;
+      used.add(segment);
+      key = segments[segment][0] === key ? segments[segment][1] : segments[segment][0];
+    }
+    rings.push(ring);
+  }
+  return rings;
+}
@@ -0,0 +1,181 @@
+import type { RoutingProfile } from './routing/provider';
+
+// NHAI toll classes
+export type TollClass = 'car' | 'lcv' | 'bus-truck' | 'multi-axle';
+
+export const TOLL_CLASS_LABELS: Record<TollClass, string> = {
+  car: 'Car / jeep / van',
+  lcv: 'Light commercial',
+  'bus-truck': 'Bus / 2-axle truck',
+  'multi-axle': '3-axle commercial',
+};
+
+// On-disk format of public/data/toll-rates.json: single-journey charges in
+// rupees for each plaza named in ap-roads.json
+export interface RawTollRates {
+  version: number;
+  plazas: Record<string, Record<TollClass, number>>;
+}
+
+// Running costs of the vehicle making the trip
+export interface VehicleCosts {
+  // Kilometres per litre
+  efficiency: number;
+  // Rupees per litre
+  fuelPrice: number;
+  // Null for vehicles that ride through toll plazas free, such as two-wheelers
+  tollClass: TollClass | null;
+}
+
+// Typical figures for each travel mode; null where no fuel is burnt
+export const DEFAULT_VEHICLE_COSTS: Record<RoutingProfile, VehicleCosts | null> = {
+  car: { efficiency: 15, fuelPrice: 109.6, tollClass: 'car' },
+  'two-wheeler': { efficiency: 45, fuelPrice: 109.6, tollClass: null },
+  bus: { efficiency: 5, fuelPrice: 97.5, tollClass: 'bus-truck' },
+  truck: { efficiency: 4, fuelPrice: 97.5, tollClass: 'bus-truck' },
+  bicycle: null,
+  walking: null,
+};
+
+// A distance-slab tariff: `baseFare` covers the first `baseKm`, and each
+// slab's rate applies to the kilometres beyond the previous slab up to its
+// `upToKm`. Fares are rounded up to `roundTo` rupees.
+export interface FareTariff {
+  label: string;
+  group: 'APSRTC' | 'Local';
+  baseFare: number;
+  baseKm: number;
+  slabs: { upToKm: number; perKm: number }[];
+  roundTo: number;
+  // Longest trip the service is usually hired for
+  maxKm?: number;
+}
+
+export const FARE_TARIFFS: FareTariff[] = [
+  {
+    label: 'Palle Velugu',
+    group: 'APSRTC',
+    baseFare: 10,
+    baseKm: 4,
+    slabs: [{ upToKm: 100, perKm: 1.07 }, { upToKm: Infinity, perKm: 0.98 }],
+    roundTo: 5,
+    maxKm: 200,
+  },
+  {
+    label: 'Express',
+    group: 'APSRTC',
+    baseFare: 25,
+    baseKm: 10,
+    slabs: [{ upToKm: 200, perKm: 1.36 }, { upToKm: Infinity, perKm: 1.25 }],
+    roundTo: 5,
+  },
+  {
+    label: 'Ultra Deluxe',
+    group: 'APSRTC',
+    baseFare: 30,
+    baseKm: 10,
+    slabs: [{ upToKm: 200, perKm: 1.57 }, { upToKm: Infinity, perKm: 1.45 }],
+    roundTo: 5,
+  },
+  {
+    label: 'Super Luxury',
+    group: 'APSRTC',
+    baseFare: 35,
+    baseKm: 10,
+    slabs: [{ upToKm: 200, perKm: 1.76 }, { upToKm: Infinity, perKm: 1.62 }],
+    roundTo: 5,
+  },
+  {
+    label: 'Indra AC',
+    group: 'APSRTC',
+    baseFare: 45,
+    baseKm: 10,
+    slabs: [{ upToKm: 200, perKm: 2.1 }, { upToKm: Infinity, perKm: 1.95 }],
+    roundTo: 5,
+  },
+  {
+    label: 'Garuda AC',
+    group: 'APSRTC',
+    baseFare: 60,
+    baseKm: 10,
+    slabs: [{ upToKm: 200, perKm: 2.45 }, { upToKm: Infinity, perKm: 2.25 }],
+    roundTo: 5,
+  },
+  {
+    // Beyond town limits the driver charges for the empty ride back
+    label: 'Auto-rickshaw',
+    group: 'Local',
+    baseFare: 30,
+    baseKm: 1.6,
+    slabs: [{ upToKm: 15, perKm: 15 }, { upToKm: Infinity, perKm: 22 }],
+    roundTo: 1,
+    maxKm: 40,
+  },
+  {
+    label: 'Taxi',
+    group: 'Local',
+    baseFare: 200,
+    baseKm: 5,
+    slabs: [{ upToKm: 100, perKm: 18 }, { upToKm: Infinity, perKm: 13 }],
+    roundTo: 10,
+  },
+];
+
+// Fare in rupees for a trip of `distance` metres, or null when the service
+// does not run that far
+export function fareFor(tariff: FareTariff, distance: number): number | null {
+  const km = distance / 1000;
+  if (tariff.maxKm !== undefined && km > tariff.maxKm) return null;
+  let fare = tariff.baseFare;
+  let from = tariff.baseKm;
+  for (const { upToKm, perKm } of tariff.slabs) {
+    if (km <= from) break;
+    fare += (Math.min(km, upToKm) - from) * perKm;
+    from = Math.max(from, upToKm);
+  }
+  return Math.ceil(fare / tariff.roundTo - 1e-9) * tariff.roundTo;
+}
+
+export function fuelCost(distance: number, { efficiency, fuelPrice }: VehicleCosts): number {
+  return efficiency > 0 ? (distance / 1000 / efficiency) * fuelPrice : 0;
+}
+
+export interface TollCharges {
+  total: number;
+  charges: { name: string; amount: number }[];
+  // Plazas on the route with no rate in the dataset
+  unpriced: string[];
+}
+
+export function tollCharges(plazas: string[], rates: RawTollRates, tollClass: TollClass | null): TollCharges {
+  const charges: TollCharges['charges'] = [];
+  const unpriced: string[] = [];
+  if (tollClass) {
+    for (const name of plazas) {
+      const amount = rates.plazas[name]?.[tollClass];
+      if (amount === undefined) unpriced.push(name);
+      else charges.push({ name, amount });
+    }
+  }
+  return { total: charges.reduce((sum, charge) => sum + charge.amount, 0), charges, unpriced };
+}
+
+const TOLL_RATES_URL = `${import.meta.env.BASE_URL}data/toll-rates.json`;
+
+let tollRatesPromise: Promise<RawTollRates> | null = null;
+
+// Fetches the bundled toll rates once per session
+export function loadTollRates(): Promise<RawTollRates> {
+  if (!tollRatesPromise) {
+    tollRatesPromise = fetch(TOLL_RATES_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load toll rates (${response.status})`);
+        return response.json() as Promise<RawTollRates>;
+      })
+      .catch((error) => {
+        tollRatesPromise = null;
+        throw error;
+      });
+  }
+  return tollRatesPromise;
+}
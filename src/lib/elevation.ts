@@ -0,0 +1,174 @@
+import { haversineDistance, type LatLng } from './geo';
+
+// One-degree square of heights in the SRTM .hgt layout: big-endian 16-bit
+// metres, rows from the north edge to the south edge, and the edge rows and
+// columns shared with the neighbouring tiles
+export interface DemTile {
+  // South-west corner
+  lat: number;
+  lng: number;
+  // Samples per side
+  size: number;
+  heights: Int16Array;
+}
+
+// Heights in metres, or null where there is no data
+export type ElevationSource = (point: LatLng) => number | null;
+
+export interface ElevationSample {
+  // Metres along the route
+  distance: number;
+  elevation: number | null;
+  point: LatLng;
+}
+
+export interface ElevationProfile {
+  samples: ElevationSample[];
+  // Metres climbed and descended
+  ascent: number;
+  descent: number;
+  // Steepest stretch as a percentage, negative when it is downhill
+  maxGradient: number;
+  minElevation: number;
+  maxElevation: number;
+}
+
+const VOID = -32768;
+// Changes smaller than this are treated as noise in the ascent and descent totals
+const CLIMB_THRESHOLD = 5;
+// Most samples a profile is cut into, and the closest they are spaced
+const MAX_SAMPLES = 500;
+const MIN_SPACING = 100;
+
+// File name of the tile covering a point, e.g. "N13E079"
+export function tileName([lat, lng]: LatLng): string {
+  const south = Math.floor(lat);
+  const west = Math.floor(lng);
+  return (
+    `${south < 0 ? 'S' : 'N'}${String(Math.abs(south)).padStart(2, '0')}` +
+    `${west < 0 ? 'W' : 'E'}${String(Math.abs(west)).padStart(3, '0')}`
+  );
+}
+
+export function parseHgt(name: string, buffer: ArrayBuffer): DemTile {
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size)) throw new Error(`${name}.hgt is not a square grid of heights`);
+  const view = new DataView(buffer);
+  const heights = new Int16Array(size * size);
+  for (let i = 0; i < heights.length; i++) heights[i] = view.getInt16(i * 2, false);
+  const lat = Number(name.slice(1, 3)) * (name[0] === 'S' ? -1 : 1);
+  const lng = Number(name.slice(4, 7)) * (name[3] === 'W' ? -1 : 1);
+  return { lat, lng, size, heights };
+}
+
+// Height at a point inside the tile, interpolated between the four surrounding samples
+export function sampleTile(tile: DemTile, [lat, lng]: LatLng): number | null {
+  const last = tile.size - 1;
+  const y = (tile.lat + 1 - lat) * last;
+  const x = (lng - tile.lng) * last;
+  const row = Math.min(Math.max(Math.floor(y), 0), last - 1);
+  const col = Math.min(Math.max(Math.floor(x), 0), last - 1);
+  const corners = [
+    tile.heights[row * tile.size + col],
+    tile.heights[row * tile.size + col + 1],
+    tile.heights[(row + 1) * tile.size + col],
+    tile.heights[(row + 1) * tile.size + col + 1],
+  ];
+  if (corners.includes(VOID)) return null;
+  const dy = y - row;
+  const dx = x - col;
+  const top = corners[0] + (corners[1] - corners[0]) * dx;
+  const bottom = corners[2] + (corners[3] - corners[2]) * dx;
+  return top + (bottom - top) * dy;
+}
+
+// Tiles by name; null where the tile is not bundled
+const tiles = new Map<string, Promise<DemTile | null>>();
+
+function loadTile(name: string): Promise<DemTile | null> {
+  if (!tiles.has(name)) {
+    const tile = fetch(`${import.meta.env.BASE_URL}dem/${name}.hgt`).then(async (response) => {
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Failed to load elevation tile ${name} (${response.status})`);
+      return parseHgt(name, await response.arrayBuffer());
+    });
+    tiles.set(name, tile);
+    tile.catch(() => tiles.delete(name));
+  }
+  return tiles.get(name)!;
+}
+
+// Fetches the bundled tiles covering the points and looks heights up in them
+export async function loadElevation(points: LatLng[]): Promise<ElevationSource> {
+  const names = [...new Set(points.map(tileName))];
+  const loaded = new Map(await Promise.all(names.map(async (name) => [name, await loadTile(name)] as const)));
+  return (point) => {
+    const tile = loaded.get(tileName(point));
+    return tile ? sampleTile(tile, point) : null;
+  };
+}
+
+// Heights at even spacing along the route. Each stretch is given its
+// reported road distance, so winding roads drawn as straight lines still
+// get their true length and gradient.
+export function elevationProfile(
+  stretches: { geometry: LatLng[]; distance: number }[],
+  elevationAt: ElevationSource,
+): ElevationProfile {
+  // Route distance at each vertex
+  const vertices: { point: LatLng; distance: number }[] = [];
+  let travelled = 0;
+  for (const { geometry, distance } of stretches) {
+    const drawn = geometry.slice(1).reduce((sum, point, i) => sum + haversineDistance(geometry[i], point), 0);
+    const scale = drawn > 0 ? distance / drawn : 0;
+    geometry.forEach((point, i) => {
+      if (i > 0) travelled += haversineDistance(geometry[i - 1], point) * scale;
+      vertices.push({ point, distance: travelled });
+    });
+    if (drawn === 0) travelled += distance;
+  }
+
+  const spacing = Math.max(MIN_SPACING, travelled / MAX_SAMPLES);
+  const count = Math.max(1, Math.ceil(travelled / spacing));
+  const samples: ElevationSample[] = [];
+  let v = 0;
+  for (let k = 0; k <= count && vertices.length > 0; k++) {
+    const distance = Math.min(k * spacing, travelled);
+    while (v < vertices.length - 2 && vertices[v + 1].distance < distance) v++;
+    const a = vertices[v];
+    const b = vertices[Math.min(v + 1, vertices.length - 1)];
+    const t = b.distance > a.distance ? (distance - a.distance) / (b.distance - a.distance) : 0;
+    const point: LatLng = [a.point[0] + (b.point[0] - a.point[0]) * t, a.point[1] + (b.point[1] - a.point[1]) * t];
+    samples.push({ distance, elevation: elevationAt(point), point });
+  }
+
+  const known = samples.filter((sample): sample is ElevationSample & { elevation: number } => sample.elevation !== null);
+  let ascent = 0;
+  let descent = 0;
+  let maxGradient = 0;
+  let reference = known[0]?.elevation ?? 0;
+  known.forEach((sample, i) => {
+    if (sample.elevation - reference >= CLIMB_THRESHOLD) {
+      ascent += sample.elevation - reference;
+      reference = sample.elevation;
+    } else if (reference - sample.elevation >= CLIMB_THRESHOLD) {
+      descent += reference - sample.elevation;
+      reference = sample.elevation;
+    }
+    const previous = known[i - 1];
+    if (previous && sample.distance > previous.distance) {
+      const gradient = ((sample.elevation - previous.elevation) / (sample.distance - previous.distance)) * 100;
+      if (Math.abs(gradient) > Math.abs(maxGradient)) maxGradient = gradient;
+    }
+  });
+
+  const heights = known.map((sample) => sample.elevation);
+  return {
+    samples,
+    ascent,
+    descent,
+    maxGradient,
+    minElevation: heights.length > 0 ? Math.min(...heights) : 0,
+    maxElevation: heights.length > 0 ? Math.max(...heights) : 0,
+  };
+}
@@ -0,0 +1,38 @@
+// Human-readable distance from metres, e.g. "12.4 km" or "850 m"
+export function formatDistance(metres: number): string {
+  if (metres < 1000) return `${Math.round(metres)} m`;
+  return `${(metres / 1000).toFixed(1)} km`;
+}
+
+// Human-readable duration from seconds, e.g. "2h 15m" or "40 min"
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes} min`;
+}
+
+// Clock time from milliseconds since the epoch, e.g. "9:05 am", with the
+// weekday added when it is not today, e.g. "Sat 6:30 pm"
+export function formatClock(time: number): string {
+  const date = new Date(time);
+  const clock = date.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return clock;
+  return `${date.toLocaleDateString('en-IN', { weekday: 'short' })} ${clock}`;
+}
+
+// Rupee amount rounded to the rupee with Indian digit grouping, e.g. "₹1,23,450"
+export function formatRupees(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+// Value for a `datetime-local` input, which works in local time without a
+// zone suffix, e.g. "2025-03-14T09:05"
+export function toDateTimeLocal(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
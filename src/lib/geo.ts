@@ -0,0 +1,39 @@
+export type LatLng = [number, number];
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance between two [lat, lng] points, in metres
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b[0] - a[0]);
+  const dLng = toRadians(b[1] - a[1]);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Compass bearing from a to b in degrees, 0 = north, clockwise
+export function initialBearing(a: LatLng, b: LatLng): number {
+  const lat1 = toRadians(a[0]);
+  const lat2 = toRadians(b[0]);
+  const dLng = toRadians(b[1] - a[1]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Closest point to `p` on the segment a–b. Uses a local equirectangular
+// projection, which is accurate enough at the scale of a road segment.
+export function projectOnSegment(p: LatLng, a: LatLng, b: LatLng): { point: LatLng; t: number } {
+  const k = Math.cos(toRadians(p[0]));
+  const ax = a[1] * k, ay = a[0];
+  const bx = b[1] * k, by = b[0];
+  const px = p[1] * k, py = p[0];
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return { point: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t], t };
+}
@@ -0,0 +1,69 @@
+import { findPlace, type Gazetteer } from './places/gazetteer';
+import type { MatrixResponse } from './routing/provider';
+import type { Location } from '@/types/location';
+
+export interface ParsedPlaces {
+  places: Location[];
+  // One message per line that could not be read
+  errors: string[];
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Reads pasted places, one per line, as "Name, lat, lng", "lat, lng" or a
+// place name from the gazetteer. Tabs work as separators too, so columns
+// copied from a spreadsheet can be pasted directly.
+export function parsePlaces(text: string, gazetteer: Gazetteer): ParsedPlaces {
+  const places: Location[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const fields = line.split(/[,\t]/).map((field) => field.trim());
+    if (fields.every((field) => field === '')) return;
+
+    const coordinates = fields.slice(-2);
+    if (coordinates.length === 2 && coordinates.every((field) => NUMBER.test(field))) {
+      const [lat, lng] = coordinates.map(Number);
+      if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        errors.push(`Line ${i + 1}: ${lat}, ${lng} is not a valid coordinate`);
+        return;
+      }
+      const name = fields.slice(0, -2).join(', ') || `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+      places.push({ name, lat, lng });
+      return;
+    }
+
+    const place = findPlace(gazetteer, line);
+    if (place) places.push({ name: place.name, lat: place.lat, lng: place.lng });
+    else errors.push(`Line ${i + 1}: "${line.trim()}" is not a known place`);
+  });
+
+  return { places, errors };
+}
+
+// Names starting like a formula are prefixed with ' so spreadsheets show them
+// as text rather than running them
+const csvField = (name: string) => {
+  const value = /^[=+\-@]/.test(name) ? `'${name}` : name;
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One row per origin–destination pair, with empty cells where there is no route
+export function matrixToCsv(origins: Location[], destinations: Location[], matrix: MatrixResponse): string {
+  const rows = [['origin', 'destination', 'distance_km', 'duration_min'].join(',')];
+  origins.forEach((origin, i) => {
+    destinations.forEach((destination, j) => {
+      const distance = matrix.distances[i][j];
+      const duration = matrix.durations[i][j];
+      rows.push(
+        [
+          csvField(origin.name),
+          csvField(destination.name),
+          distance === null ? '' : (distance / 1000).toFixed(1),
+          duration === null ? '' : (duration / 60).toFixed(0),
+        ].join(','),
+      );
+    });
+  });
+  return rows.join('\n') + '\n';
+}
@@ -0,0 +1,47 @@
+import { CachingGeocoder, type Geocoder } from './geocoder';
+import { LocalGeocoder } from './geocoders/local';
+import { NominatimGeocoder } from './geocoders/nominatim';
+import { PhotonGeocoder } from './geocoders/photon';
+
+export interface GeocoderConfig {
+  provider: 'local' | 'nominatim' | 'photon';
+  // Base URL of the geocoding server, e.g. https://photon.example.org
+  url?: string;
+}
+
+export const geocoderConfig: GeocoderConfig = {
+  provider: (import.meta.env.VITE_GEOCODER_PROVIDER as GeocoderConfig['provider']) || 'local',
+  url: import.meta.env.VITE_GEOCODER_URL,
+};
+
+export function createGeocoder(config: GeocoderConfig): Geocoder {
+  switch (config.provider) {
+    case 'local':
+      return new LocalGeocoder();
+    case 'nominatim':
+    case 'photon':
+      if (!config.url) throw new Error(`Geocoder "${config.provider}" needs VITE_GEOCODER_URL`);
+      return config.provider === 'nominatim' ? new NominatimGeocoder(config.url) : new PhotonGeocoder(config.url);
+    default:
+      throw new Error(`Unknown geocoder "${config.provider}"`);
+  }
+}
+
+let defaultGeocoder: Geocoder | null = null;
+
+// Geocoder selected by the VITE_GEOCODER_* environment variables, with its
+// answers cached. A misconfigured one falls back to the offline gazetteer, as
+// search boxes ask for it while rendering and an error would blank the page.
+export function getGeocoder(): Geocoder {
+  if (!defaultGeocoder) {
+    let geocoder: Geocoder;
+    try {
+      geocoder = createGeocoder(geocoderConfig);
+    } catch (error) {
+      console.warn(`${error instanceof Error ? error.message : error}; using the offline gazetteer instead`);
+      geocoder = new LocalGeocoder();
+    }
+    defaultGeocoder = new CachingGeocoder(geocoder);
+  }
+  return defaultGeocoder;
+}
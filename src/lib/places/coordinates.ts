@@ -0,0 +1,264 @@
+import type { LatLng } from '@/lib/geo';
+
+// Coordinates typed or pasted into a search box instead of a place name:
+// decimal degrees, degrees-minutes-seconds, Open Location Codes (Plus Codes)
+// and geo: URIs
+export type CoordinateFormat = 'decimal' | 'dms' | 'plus-code' | 'geo';
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  'plus-code': 'Plus Code',
+  geo: 'geo: link',
+};
+
+export interface ParsedCoordinate {
+  point: LatLng;
+  format: CoordinateFormat;
+  // Name given in a geo: link, e.g. geo:0,0?q=16.5,80.6(Benz Circle)
+  label?: string;
+}
+
+// Text that is clearly meant as coordinates but cannot be a point on Earth
+export class CoordinateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoordinateError';
+  }
+}
+
+function checkRange([lat, lng]: LatLng): LatLng {
+  if (Math.abs(lat) > 90) throw new CoordinateError(`Latitude ${lat} is out of range (−90 to 90)`);
+  if (Math.abs(lng) > 180) throw new CoordinateError(`Longitude ${lng} is out of range (−180 to 180)`);
+  return [lat, lng];
+}
+
+// Open Location Code digits, in order of value
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+// Degrees spanned by each digit of the first five pairs
+const PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const PLUS_CODE = /^([23456789CFGHJMPQRVWX]{2,8}0*)\+([23456789CFGHJMPQRVWX]*)(?:[\s,]+(.+))?$/i;
+
+// Centre of the area a full code stands for
+function decodePlusCode(code: string): LatLng {
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  let lat = -90;
+  let lng = -180;
+  let height = 0;
+  let width = 0;
+  for (let i = 0; i < Math.min(digits.length, 10); i += 2) {
+    height = width = PAIR_RESOLUTIONS[i / 2];
+    lat += OLC_ALPHABET.indexOf(digits[i]) * height;
+    lng += OLC_ALPHABET.indexOf(digits[i + 1]) * width;
+  }
+  // Past ten digits each one picks a cell in a 4 × 5 grid
+  for (const digit of digits.slice(10)) {
+    height /= 5;
+    width /= 4;
+    const value = OLC_ALPHABET.indexOf(digit);
+    lat += Math.floor(value / 4) * height;
+    lng += (value % 4) * width;
+  }
+  return [lat + height / 2, lng + width / 2];
+}
+
+// First `length` digits of the code for a point
+function encodePrefix([lat, lng]: LatLng, length: number): string {
+  let restLat = Math.min(Math.max(lat, -90), 89.9999999) + 90;
+  let restLng = ((((lng + 180) % 360) + 360) % 360);
+  let prefix = '';
+  for (let i = 0; i < length / 2; i++) {
+    const resolution = PAIR_RESOLUTIONS[i];
+    const latDigit = Math.floor(restLat / resolution);
+    const lngDigit = Math.floor(restLng / resolution);
+    prefix += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lngDigit];
+    restLat -= latDigit * resolution;
+    restLng -= lngDigit * resolution;
+  }
+  return prefix;
+}
+
+// The state and country as Google Maps adds them after a place, which the
+// place search does not need
+const REGION_SUFFIX = /(?:\s*,?\s*\b(?:andhra pradesh|india)\b)+\s*$/i;
+
+function parsePlusCode(text: string, locate: (place: string) => LatLng | null): ParsedCoordinate | null {
+  const match = PLUS_CODE.exec(text.trim());
+  if (!match) return null;
+  const [, head, tail, place] = match;
+  const code = `${head}+${tail}`.toUpperCase();
+  const isPadded = head.includes('0');
+  if (head.length % 2 === 1 || tail.length === 1 || (isPadded && (tail.length > 0 || head.length !== 8))) {
+    throw new CoordinateError(`${code} is not a valid Plus Code`);
+  }
+
+  // A full code needs no place to go with it
+  if (head.length === 8) {
+    if (OLC_ALPHABET.indexOf(code[0]) > 8 || OLC_ALPHABET.indexOf(code[1]) > 17) {
+      throw new CoordinateError(`${code} is out of range`);
+    }
+    return { point: decodePlusCode(code), format: 'plus-code' };
+  }
+
+  // A short code leaves off the leading digits, which are taken from the
+  // place given after it. The state spans several cells of a 4+2 code, so
+  // none can be guessed without one.
+  const locality = place?.replace(REGION_SUFFIX, '').trim();
+  if (!locality) throw new CoordinateError(`${code} is a short Plus Code; add a nearby place, e.g. ${code} Vijayawada`);
+  const reference = locate(locality);
+  if (!reference) throw new CoordinateError(`Could not find ${locality} to complete the Plus Code`);
+  const missing = 8 - head.length;
+  const resolution = PAIR_RESOLUTIONS[missing / 2 - 1];
+  const [lat, lng] = decodePlusCode(encodePrefix(reference, missing) + code);
+  // The nearest of the neighbouring cells that share the code
+  const nearer = (value: number, target: number) =>
+    value - target > resolution / 2 ? value - resolution : target - value > resolution / 2 ? value + resolution : value;
+  return { point: checkRange([nearer(lat, reference[0]), nearer(lng, reference[1])]), format: 'plus-code' };
+}
+
+// geo: URIs as in RFC 5870, with an optional altitude and parameters
+const GEO_URI = /^geo:\s*(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)(?:,[^;?]*)?(?:;[^?]*)?(?:\?(.*))?$/i;
+const GEO_QUERY = /(?:^|&)q=(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)(?:\s*\(([^)]*)\))?/;
+
+function decodeQuery(query: string): string {
+  try {
+    return decodeURIComponent(query.replace(/\+/g, ' '));
+  } catch {
+    return query;
+  }
+}
+
+// The name in a shared link is anyone's text and ends up on the map and in the
+// saved places, so tags and angle brackets are dropped and its length capped
+const MAX_LABEL = 100;
+const plainLabel = (label: string) =>
+  label
+    .replace(/<[^>]*>?/g, ' ')
+    .replace(/[<>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_LABEL);
+
+function parseGeoUri(text: string): ParsedCoordinate | null {
+  const match = GEO_URI.exec(text.trim());
+  if (!match) {
+    if (/^geo:/i.test(text.trim())) throw new CoordinateError('This geo: link has no coordinates');
+    return null;
+  }
+  let point: LatLng = [Number(match[1]), Number(match[2])];
+  let label: string | undefined;
+  // Android shares places as geo:0,0?q=lat,lng(Name)
+  const query = match[3] ? GEO_QUERY.exec(decodeQuery(match[3])) : null;
+  if (query) {
+    point = [Number(query[1]), Number(query[2])];
+    label = plainLabel(query[3] ?? '') || undefined;
+  }
+  return { point: checkRange(point), format: 'geo', ...(label && { label }) };
+}
+
+interface Component {
+  values: number[];
+  units: (number | null)[];
+  hemisphere: string | null;
+}
+
+// Position of a number within degrees, minutes and seconds by its mark
+const UNIT_MARKS: Record<string, number> = {
+  '°': 0, 'º': 0, "'": 1, '′': 1, '’': 1, '"': 2, '″': 2, '”': 2, "''": 2, '′′': 2,
+};
+
+const DEGREE_TOKEN = /(-?\d+(?:\.\d+)?)\s*(''|′′|[°º'′’"″”])?|([NSEW])|([,;])|(\s+)/giy;
+
+function toDegrees({ values, units, hemisphere }: Component): number {
+  const parts = [0, 0, 0];
+  values.forEach((value, i) => {
+    parts[units[i] ?? i] = Math.abs(value);
+  });
+  if (parts[1] >= 60) throw new CoordinateError(`${parts[1]} minutes is out of range (0 to 60)`);
+  if (parts[2] >= 60) throw new CoordinateError(`${parts[2]} seconds is out of range (0 to 60)`);
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  const negative = values[0] < 0 || Object.is(values[0], -0) || hemisphere === 'S' || hemisphere === 'W';
+  return negative ? -degrees : degrees;
+}
+
+// "16.5062, 80.6480", "16°30'22"N 80°38'53"E", "N16.5062 E80.648",
+// "16 30 22 80 38 53" and so on
+function parseDegrees(text: string): ParsedCoordinate | null {
+  const input = text.trim().toUpperCase();
+  if (!/\d/.test(input)) return null;
+
+  const components: Component[] = [];
+  let current: Component = { values: [], units: [], hemisphere: null };
+  const close = () => {
+    if (current.values.length > 0) components.push(current);
+    current = { values: [], units: [], hemisphere: null };
+  };
+
+  DEGREE_TOKEN.lastIndex = 0;
+  let position = 0;
+  while (position < input.length) {
+    const token = DEGREE_TOKEN.exec(input);
+    // Anything else, such as other letters, means this is not a coordinate
+    if (!token) return null;
+    position = DEGREE_TOKEN.lastIndex;
+    const [, number, mark, hemisphere, separator] = token;
+    if (number !== undefined) {
+      const unit = mark ? UNIT_MARKS[mark] : null;
+      // A new degrees value starts the second coordinate
+      if (unit === 0 && current.values.length > 0) close();
+      current.values.push(Number(number));
+      current.units.push(unit);
+    } else if (hemisphere) {
+      if (current.values.length > 0 && !current.hemisphere) {
+        current.hemisphere = hemisphere;
+        close();
+      } else {
+        close();
+        current.hemisphere = hemisphere;
+      }
+    } else if (separator) {
+      close();
+    }
+  }
+  close();
+
+  // Unmarked numbers with nothing between them are split evenly:
+  // "16.5 80.6", "16 30 80 38" or "16 30 22 80 38 53"
+  if (components.length === 1 && [2, 4, 6].includes(components[0].values.length)) {
+    const [{ values, units, hemisphere }] = components;
+    if (hemisphere || units.some((unit) => unit !== null)) return null;
+    const half = values.length / 2;
+    components.splice(
+      0,
+      1,
+      { values: values.slice(0, half), units: units.slice(0, half), hemisphere: null },
+      { values: values.slice(half), units: units.slice(half), hemisphere: null },
+    );
+  }
+  if (components.length !== 2 || components.some((component) => component.values.length > 3)) return null;
+
+  const isLatitude = (component: Component) => component.hemisphere === 'N' || component.hemisphere === 'S';
+  const isLongitude = (component: Component) => component.hemisphere === 'E' || component.hemisphere === 'W';
+  let [first, second] = components;
+  if (isLongitude(first) || isLatitude(second)) [first, second] = [second, first];
+  if (isLongitude(first) || isLatitude(second)) {
+    throw new CoordinateError('Give one latitude (N or S) and one longitude (E or W)');
+  }
+
+  const isDms = components.some((component) => component.values.length > 1);
+  return { point: checkRange([toDegrees(first), toDegrees(second)]), format: isDms ? 'dms' : 'decimal' };
+}
+
+// The point meant by a search box entry, or null if it is not coordinates.
+// Short Plus Codes followed by a place name, e.g. "GJ4X+2C Vijayawada", are
+// completed using `locate`. Throws CoordinateError for coordinates that are
+// out of range or malformed.
+export function parseCoordinates(
+  text: string,
+  locate: (place: string) => LatLng | null = () => null,
+): ParsedCoordinate | null {
+  return parseGeoUri(text) ?? parsePlusCode(text, locate) ?? parseDegrees(text);
+}
+
+// "16.5062, 80.6480"
+export const formatCoordinates = ([lat, lng]: LatLng) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
@@ -0,0 +1,158 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import type { Location } from '@/types/location';
+import { buildSearchIndex, normalizeName, type SearchIndex } from './search';
+
+export type PlaceKind = 'district' | 'mandal' | 'town' | 'village';
+
+export const PLACE_KIND_LABELS: Record<PlaceKind, string> = {
+  district: 'District',
+  mandal: 'Mandal',
+  town: 'Town',
+  village: 'Village',
+};
+
+// On-disk format of public/data/gazetteer.json. Mandals reference their
+// district and towns and villages their mandal by index. Each entry has its
+// population, then optionally its name in Telugu and other names it is known by.
+type Names = [telugu?: string, aliases?: string[]];
+
+export interface RawGazetteer {
+  version: number;
+  districts: [string, number, number, number, ...Names][];
+  mandals: [string, number, number, number, number, ...Names][];
+  // [name, 't' for a town or 'v' for a village, mandal, lat, lng, population, ...]
+  places: [string, 't' | 'v', number, number, number, number, ...Names][];
+}
+
+export interface GazetteerPlace extends Location {
+  id: number;
+  kind: PlaceKind;
+  district: string;
+  // Null for districts and mandals themselves
+  mandal: string | null;
+  population: number;
+  telugu: string | null;
+  // Historical and colloquial names, e.g. Bezawada for Vijayawada
+  aliases: string[];
+}
+
+export interface Gazetteer {
+  places: GazetteerPlace[];
+  index: SearchIndex;
+}
+
+// Every district, mandal, town and village as one flat list, largest areas first
+export function buildGazetteer(raw: RawGazetteer): Gazetteer {
+  const places: GazetteerPlace[] = [];
+  const add = (place: Omit<GazetteerPlace, 'id'>) => places.push({ id: places.length, ...place });
+
+  for (const [name, lat, lng, population, telugu = null, aliases = []] of raw.districts) {
+    add({ name, lat, lng, kind: 'district', district: name, mandal: null, population, telugu, aliases });
+  }
+  for (const [name, district, lat, lng, population, telugu = null, aliases = []] of raw.mandals) {
+    add({
+      name,
+      lat,
+      lng,
+      kind: 'mandal',
+      district: raw.districts[district][0],
+      mandal: null,
+      population,
+      telugu,
+      aliases,
+    });
+  }
+  for (const [name, kind, mandal, lat, lng, population, telugu = null, aliases = []] of raw.places) {
+    const [mandalName, district] = raw.mandals[mandal];
+    add({
+      name,
+      lat,
+      lng,
+      kind: kind === 't' ? 'town' : 'village',
+      district: raw.districts[district][0],
+      mandal: mandalName,
+      population,
+      telugu,
+      aliases,
+    });
+  }
+
+  return { places, index: buildSearchIndex(places) };
+}
+
+// "Village · Ghantasala mandal · Krishna district"
+export function placeContext(place: GazetteerPlace): string {
+  const parts = [PLACE_KIND_LABELS[place.kind]];
+  if (place.mandal) parts.push(`${place.mandal} mandal`);
+  if (place.kind !== 'district') parts.push(`${place.district} district`);
+  return parts.join(' · ');
+}
+
+// Kinds preferred when places share a name, so "Guntur" is the town rather
+// than the mandal or district of that name
+const NAME_PREFERENCE: PlaceKind[] = ['town', 'mandal', 'district', 'village'];
+
+// The place going by exactly this name or one of its aliases, ignoring case
+// and punctuation, or null. The largest wins among places of one kind.
+export function findPlace({ places }: Gazetteer, name: string): GazetteerPlace | null {
+  const wanted = normalizeName(name);
+  if (!wanted) return null;
+  let found: GazetteerPlace | null = null;
+  for (const place of places) {
+    if (![place.name, ...place.aliases].some((other) => normalizeName(other) === wanted)) continue;
+    const rank = NAME_PREFERENCE.indexOf(place.kind);
+    const foundRank = found ? NAME_PREFERENCE.indexOf(found.kind) : Infinity;
+    if (rank < foundRank || (rank === foundRank && place.population > found!.population)) found = place;
+  }
+  return found;
+}
+
+const nearestOf = (places: GazetteerPlace[], point: LatLng) =>
+  places.reduce<{ place: GazetteerPlace | null; distance: number }>(
+    (best, place) => {
+      const distance = haversineDistance(point, [place.lat, place.lng]);
+      return distance < best.distance ? { place, distance } : best;
+    },
+    { place: null, distance: Infinity },
+  ).place;
+
+// Each district with its headquarters town, which the district is placed at
+export function districtHeadquarters({ places }: Gazetteer): { district: string; location: Location }[] {
+  const towns = places.filter((place) => place.kind === 'town');
+  return places
+    .filter((place) => place.kind === 'district')
+    .map((district) => {
+      const town = nearestOf(towns.filter((place) => place.district === district.name), [district.lat, district.lng]);
+      const { name, lat, lng } = town ?? district;
+      return { district: district.name, location: { name, lat, lng } };
+    });
+}
+
+// District a point lies in. The bundled data has no boundaries, so this is
+// the district of the mandal whose headquarters is nearest, as in reverseGeocode.
+export function districtAt({ places }: Gazetteer, point: LatLng): string | null {
+  return nearestOf(places.filter((place) => place.kind === 'mandal'), point)?.district ?? null;
+}
+
+// The bundled file is a sample; a full list in the same format can be served
+// from elsewhere and named by VITE_GAZETTEER_URL
+const GAZETTEER_URL = import.meta.env.VITE_GAZETTEER_URL || `${import.meta.env.BASE_URL}data/gazetteer.json`;
+
+let gazetteerPromise: Promise<Gazetteer> | null = null;
+
+// Fetches and indexes the bundled gazetteer the first time a search needs it
+export function loadGazetteer(): Promise<Gazetteer> {
+  if (!gazetteerPromise) {
+    gazetteerPromise = fetch(GAZETTEER_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load gazetteer (${response.status})`);
+        return response.json() as Promise<RawGazetteer>;
+      })
+      .then(buildGazetteer)
+      .catch((error) => {
+        gazetteerPromise = null;
+        throw error;
+      });
+  }
+  return gazetteerPromise;
+}
@@ -0,0 +1,90 @@
+import type { LatLng } from '@/lib/geo';
+import type { Location } from '@/types/location';
+
+// Andhra Pradesh with a little margin, [south, west, north, east]. Remote
+// geocoders are asked for places inside it only.
+export const AP_BOUNDS: [number, number, number, number] = [12.6, 76.7, 19.95, 84.8];
+
+// Where the map opens, roughly the middle of the state
+export const AP_CENTRE: LatLng = [15.9129, 79.74];
+
+export const isInAndhraPradesh = ([lat, lng]: LatLng) =>
+  lat >= AP_BOUNDS[0] && lat <= AP_BOUNDS[2] && lng >= AP_BOUNDS[1] && lng <= AP_BOUNDS[3];
+
+export interface GeocodeRequest {
+  query: string;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface ReverseGeocodeRequest {
+  point: LatLng;
+  signal?: AbortSignal;
+}
+
+export interface GeocodeResult {
+  location: Location;
+  // Where it is, e.g. "Village · Movva mandal · Krishna district"
+  context: string;
+  telugu?: string;
+  // Other name the result was found by, e.g. Bezawada for Vijayawada
+  alias?: string;
+}
+
+export interface Geocoder {
+  readonly name: string;
+  // Places matching a complete query, best first
+  forward(request: GeocodeRequest): Promise<GeocodeResult[]>;
+  // Suggestions for a query still being typed
+  autocomplete(request: GeocodeRequest): Promise<GeocodeResult[]>;
+  // What is at a point, or null where nothing is known
+  reverse(request: ReverseGeocodeRequest): Promise<GeocodeResult | null>;
+}
+
+// Raised when a remote geocoder is unreachable or answers with an error
+export class GeocoderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'GeocoderError';
+  }
+}
+
+// Remembers answers so retyping a query or revisiting a point costs nothing.
+// Only successful answers are kept, so a cancelled request is simply retried.
+export class CachingGeocoder implements Geocoder {
+  private readonly cache = new Map<string, GeocodeResult[] | GeocodeResult | null>();
+
+  constructor(private readonly geocoder: Geocoder, private readonly size = 200) {}
+
+  get name() {
+    return this.geocoder.name;
+  }
+
+  private async remember<T extends GeocodeResult[] | GeocodeResult | null>(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.cache.has(key)) {
+      const result = this.cache.get(key) as T;
+      // Move to the back so the least recently used entry goes first
+      this.cache.delete(key);
+      this.cache.set(key, result);
+      return result;
+    }
+    const result = await load();
+    this.cache.set(key, result);
+    if (this.cache.size > this.size) this.cache.delete(this.cache.keys().next().value);
+    return result;
+  }
+
+  forward(request: GeocodeRequest) {
+    return this.remember(`forward|${request.limit}|${request.query}`, () => this.geocoder.forward(request));
+  }
+
+  autocomplete(request: GeocodeRequest) {
+    return this.remember(`autocomplete|${request.limit}|${request.query}`, () => this.geocoder.autocomplete(request));
+  }
+
+  reverse(request: ReverseGeocodeRequest) {
+    const [lat, lng] = request.point;
+    // About 10 m apart counts as the same point
+    return this.remember(`reverse|${lat.toFixed(4)},${lng.toFixed(4)}`, () => this.geocoder.reverse(request));
+  }
+}
@@ -0,0 +1,20 @@
+import { GeocoderError } from '../geocoder';
+
+export const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// GETs a JSON document from a geocoding server, failing on error statuses
+export async function getJson<T>(url: string, server: string, signal?: AbortSignal): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new GeocoderError(`${server} unreachable: ${(error as Error).message}`);
+  }
+  if (!response.ok) throw new GeocoderError(`${server} request failed (${response.status})`, response.status);
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new GeocoderError(`${server} sent an unreadable response`, response.status);
+  }
+}
@@ -0,0 +1,35 @@
+import { loadGazetteer, placeContext } from '../gazetteer';
+import type { GeocodeRequest, GeocodeResult, Geocoder, ReverseGeocodeRequest } from '../geocoder';
+import { addressContext, addressName, loadReverseData, reverseGeocode } from '../reverse';
+import { searchPlaces, type PlaceMatch } from '../search';
+
+const toResult = ({ place, alias }: PlaceMatch): GeocodeResult => ({
+  location: { name: place.name, lat: place.lat, lng: place.lng },
+  context: placeContext(place),
+  ...(place.telugu && { telugu: place.telugu }),
+  ...(alias && { alias }),
+});
+
+// Searches the bundled gazetteer in the browser, so works offline
+export class LocalGeocoder implements Geocoder {
+  readonly name = 'Offline gazetteer';
+
+  async forward({ query, limit = 8 }: GeocodeRequest): Promise<GeocodeResult[]> {
+    const { index } = await loadGazetteer();
+    return searchPlaces(index, query, limit).map(toResult);
+  }
+
+  // The gazetteer search already matches the starts of words
+  autocomplete(request: GeocodeRequest): Promise<GeocodeResult[]> {
+    return this.forward(request);
+  }
+
+  async reverse({ point }: ReverseGeocodeRequest): Promise<GeocodeResult | null> {
+    const address = reverseGeocode(await loadReverseData(), point);
+    if (!address.place && !address.mandal) return null;
+    return {
+      location: { name: addressName(address), lat: point[0], lng: point[1] },
+      context: addressContext(address),
+    };
+  }
+}
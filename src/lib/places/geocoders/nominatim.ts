@@ -0,0 +1,77 @@
+import {
+  AP_BOUNDS,
+  isInAndhraPradesh,
+  type GeocodeRequest,
+  type GeocodeResult,
+  type Geocoder,
+  type ReverseGeocodeRequest,
+} from '../geocoder';
+import { getJson, trimTrailingSlash } from './http';
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  address?: Record<string, string>;
+}
+
+// Address parts naming the settlement and the district, most specific first
+const LOCALITY_KEYS = ['suburb', 'village', 'town', 'city'];
+const DISTRICT_KEYS = ['state_district', 'county'];
+
+function toResult(place: NominatimPlace): GeocodeResult {
+  const name = place.name || place.display_name.split(',')[0].trim();
+  const address = place.address ?? {};
+  const pick = (keys: string[]) => keys.map((key) => address[key]).find((value) => value && value !== name);
+  const parts = [pick(LOCALITY_KEYS), pick(DISTRICT_KEYS), address.postcode && `PIN ${address.postcode}`];
+  return {
+    location: { name, lat: Number(place.lat), lng: Number(place.lon) },
+    context: parts.filter(Boolean).join(' · '),
+  };
+}
+
+const inBounds = (result: GeocodeResult): boolean =>
+  isInAndhraPradesh([result.location.lat, result.location.lng]);
+
+// Adapter for the Nominatim API (`/search` and `/reverse`). Searches are
+// bounded to Andhra Pradesh. Nominatim has no autocomplete, so suggestions
+// are plain searches; its usage policy rules out autocomplete against the
+// public openstreetmap.org server, so point this at your own.
+export class NominatimGeocoder implements Geocoder {
+  readonly name = 'Nominatim';
+
+  constructor(private readonly baseUrl: string) {}
+
+  async forward({ query, limit = 8, signal }: GeocodeRequest): Promise<GeocodeResult[]> {
+    const [south, west, north, east] = AP_BOUNDS;
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      addressdetails: '1',
+      limit: String(limit),
+      countrycodes: 'in',
+      viewbox: `${west},${north},${east},${south}`,
+      bounded: '1',
+    });
+    const places = await getJson<NominatimPlace[]>(`${trimTrailingSlash(this.baseUrl)}/search?${params}`, this.name, signal);
+    return places.map(toResult).filter(inBounds);
+  }
+
+  autocomplete(request: GeocodeRequest): Promise<GeocodeResult[]> {
+    return this.forward(request);
+  }
+
+  async reverse({ point, signal }: ReverseGeocodeRequest): Promise<GeocodeResult | null> {
+    if (!isInAndhraPradesh(point)) return null;
+    const [lat, lng] = point;
+    const params = new URLSearchParams({ lat: String(lat), lon: String(lng), format: 'jsonv2', addressdetails: '1' });
+    const place = await getJson<NominatimPlace | { error: string }>(
+      `${trimTrailingSlash(this.baseUrl)}/reverse?${params}`,
+      this.name,
+      signal,
+    );
+    // Nominatim answers "Unable to geocode" with a 200
+    return 'error' in place ? null : toResult(place);
+  }
+}
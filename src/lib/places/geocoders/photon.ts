@@ -0,0 +1,68 @@
+import {
+  AP_BOUNDS,
+  isInAndhraPradesh,
+  type GeocodeRequest,
+  type GeocodeResult,
+  type Geocoder,
+  type ReverseGeocodeRequest,
+} from '../geocoder';
+import { getJson, trimTrailingSlash } from './http';
+
+interface PhotonFeature {
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: {
+    name?: string;
+    street?: string;
+    city?: string;
+    district?: string;
+    county?: string;
+    state?: string;
+    postcode?: string;
+  };
+}
+
+interface PhotonResponse {
+  features: PhotonFeature[];
+}
+
+function toResult({ geometry, properties }: PhotonFeature): GeocodeResult {
+  const [lng, lat] = geometry.coordinates;
+  const name = properties.name || properties.street || properties.city || `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+  const locality = [properties.district, properties.city].find((value) => value && value !== name);
+  const district = properties.county !== name ? properties.county : undefined;
+  const parts = [locality, district, properties.postcode && `PIN ${properties.postcode}`];
+  return { location: { name, lat, lng }, context: parts.filter(Boolean).join(' · ') };
+}
+
+const inBounds = (result: GeocodeResult): boolean =>
+  isInAndhraPradesh([result.location.lat, result.location.lng]);
+
+// Adapter for the Photon API (`/api` and `/reverse`), which is built for
+// search-as-you-type. Searches are bounded to Andhra Pradesh.
+export class PhotonGeocoder implements Geocoder {
+  readonly name = 'Photon';
+
+  constructor(private readonly baseUrl: string) {}
+
+  async autocomplete({ query, limit = 8, signal }: GeocodeRequest): Promise<GeocodeResult[]> {
+    const [south, west, north, east] = AP_BOUNDS;
+    const params = new URLSearchParams({ q: query, limit: String(limit), lang: 'en', bbox: `${west},${south},${east},${north}` });
+    const { features } = await getJson<PhotonResponse>(`${trimTrailingSlash(this.baseUrl)}/api?${params}`, this.name, signal);
+    return features.map(toResult).filter(inBounds);
+  }
+
+  forward(request: GeocodeRequest): Promise<GeocodeResult[]> {
+    return this.autocomplete(request);
+  }
+
+  async reverse({ point, signal }: ReverseGeocodeRequest): Promise<GeocodeResult | null> {
+    if (!isInAndhraPradesh(point)) return null;
+    const params = new URLSearchParams({ lat: String(point[0]), lon: String(point[1]), lang: 'en' });
+    const { features } = await getJson<PhotonResponse>(
+      `${trimTrailingSlash(this.baseUrl)}/reverse?${params}`,
+      this.name,
+      signal,
+    );
+    return features.length > 0 ? toResult(features[0]) : null;
+  }
+}
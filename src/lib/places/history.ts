@@ -0,0 +1,101 @@
+import type { Location } from '@/types/location';
+
+// Places picked in the search boxes and the ones starred, kept in the
+// browser between visits. A place is told apart by its name and position.
+
+// A place as remembered, with the line that described it in the suggestions
+export interface SavedPlace extends Location {
+  context?: string;
+}
+
+export interface PlaceUse {
+  location: SavedPlace;
+  // How often it has been picked, and when last, in ms since the epoch
+  count: number;
+  lastUsed: number;
+}
+
+export interface PlaceHistory {
+  // Most recently picked first
+  uses: PlaceUse[];
+  favourites: SavedPlace[];
+}
+
+export const PLACE_HISTORY_KEY = 'ap-navigator.places';
+export const EMPTY_PLACE_HISTORY: PlaceHistory = { uses: [], favourites: [] };
+
+// Places picked longer ago than the last this many are forgotten
+const MAX_USES = 50;
+// Positions a place moves up the suggestions per doubling of its use count
+const USAGE_WEIGHT = 1.5;
+
+export const placeKey = ({ name, lat, lng }: Location) => `${name}|${lat.toFixed(4)},${lng.toFixed(4)}`;
+
+const samePlace = (a: Location, b: Location) => placeKey(a) === placeKey(b);
+
+export function recordPlaceUse(history: PlaceHistory, location: SavedPlace, now = Date.now()): PlaceHistory {
+  const previous = history.uses.find((use) => samePlace(use.location, location));
+  const use = { location, count: (previous?.count ?? 0) + 1, lastUsed: now };
+  return { ...history, uses: [use, ...history.uses.filter((other) => other !== previous)].slice(0, MAX_USES) };
+}
+
+export const isFavourite = (history: PlaceHistory, location: Location) =>
+  history.favourites.some((favourite) => samePlace(favourite, location));
+
+// Stars a place, or unstars it if it already is
+export function toggleFavourite(history: PlaceHistory, location: SavedPlace): PlaceHistory {
+  const favourites = isFavourite(history, location)
+    ? history.favourites.filter((favourite) => !samePlace(favourite, location))
+    : [...history.favourites, location];
+  return { ...history, favourites };
+}
+
+export const timesUsed = (history: PlaceHistory, location: Location) =>
+  history.uses.find((use) => samePlace(use.location, location))?.count ?? 0;
+
+// Moves often picked places up the list, by USAGE_WEIGHT places for each
+// doubling of the times picked, so a familiar town still gives way to a much
+// better match for what was typed
+export function rankByUsage<T>(items: T[], history: PlaceHistory, locationOf: (item: T) => Location): T[] {
+  return items
+    .map((item, index) => ({ item, score: index - USAGE_WEIGHT * Math.log2(1 + timesUsed(history, locationOf(item))) }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ item }) => item);
+}
+
+const isLocation = (value: unknown): value is SavedPlace => {
+  const location = value as SavedPlace | null;
+  return (
+    typeof location?.name === 'string' &&
+    Number.isFinite(location.lat) &&
+    Number.isFinite(location.lng) &&
+    (location.context === undefined || typeof location.context === 'string')
+  );
+};
+
+// Null storage, e.g. when the browser has it turned off, reads as no history.
+// Entries that are not places, say from an older version, are dropped.
+export function readPlaceHistory(storage: Storage | null): PlaceHistory {
+  try {
+    const stored = JSON.parse(storage?.getItem(PLACE_HISTORY_KEY) ?? 'null');
+    if (Array.isArray(stored?.uses) && Array.isArray(stored?.favourites)) {
+      return {
+        uses: stored.uses.filter(
+          (use: PlaceUse) => isLocation(use?.location) && Number.isFinite(use.count) && Number.isFinite(use.lastUsed),
+        ),
+        favourites: stored.favourites.filter(isLocation),
+      };
+    }
+  } catch {
+    // Unreadable history is started afresh
+  }
+  return EMPTY_PLACE_HISTORY;
+}
+
+export function writePlaceHistory(storage: Storage | null, history: PlaceHistory) {
+  try {
+    storage?.setItem(PLACE_HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Storage that is full or turned off just means nothing is remembered
+  }
+}
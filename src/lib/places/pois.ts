@@ -0,0 +1,117 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+
+// Only kinds of place the bundled file lists by name and position. Petrol
+// pumps, bus stands and police stations wait for a sourced extract.
+export type PoiCategory = 'hospital' | 'temple';
+
+export const POI_CATEGORY_LABELS: Record<PoiCategory, { one: string; many: string }> = {
+  hospital: { one: 'Hospital', many: 'Hospitals' },
+  temple: { one: 'Temple', many: 'Temples' },
+};
+
+export const POI_COLORS: Record<PoiCategory, string> = {
+  hospital: '#dc2626',
+  temple: '#ea580c',
+};
+
+// Words each category is searched by, in the singular
+const CATEGORY_WORDS: Record<PoiCategory, string[]> = {
+  hospital: ['hospital', 'health centre', 'health center', 'clinic', 'phc', 'chc'],
+  temple: ['temple', 'gudi', 'devalayam', 'mandir', 'shrine'],
+};
+
+// On-disk format of public/data/pois.json: [name, category, lat, lng]
+export interface RawPois {
+  version: number;
+  pois: [string, PoiCategory, number, number][];
+}
+
+export interface Poi {
+  id: number;
+  name: string;
+  category: PoiCategory;
+  point: LatLng;
+}
+
+export interface PoiMatch {
+  poi: Poi;
+  // Metres from where the search was made
+  distance: number;
+}
+
+// A category search typed into the location box, e.g. "hospital near Ongole".
+// `place` is null when no place is named.
+export interface PoiQuery {
+  category: PoiCategory;
+  place: string | null;
+}
+
+const POIS_URL = `${import.meta.env.BASE_URL}data/pois.json`;
+
+export function buildPois(raw: RawPois): Poi[] {
+  return raw.pois.map(([name, category, lat, lng], id) => ({ id, name, category, point: [lat, lng] }));
+}
+
+let poisPromise: Promise<Poi[]> | null = null;
+
+// Fetches the bundled points of interest once per session
+export function loadPois(): Promise<Poi[]> {
+  if (!poisPromise) {
+    poisPromise = fetch(POIS_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load points of interest (${response.status})`);
+        return response.json() as Promise<RawPois>;
+      })
+      .then(buildPois)
+      .catch((error) => {
+        poisPromise = null;
+        throw error;
+      });
+  }
+  return poisPromise;
+}
+
+// Places of one category, closest to `origin` first
+export function nearestPois(pois: Poi[], category: PoiCategory, origin: LatLng, limit = 10): PoiMatch[] {
+  return pois
+    .filter((poi) => poi.category === category)
+    .map((poi) => ({ poi, distance: haversineDistance(origin, poi.point) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "health centre" is taken whole
+const CATEGORY_PATTERNS = (Object.entries(CATEGORY_WORDS) as [PoiCategory, string[]][])
+  .flatMap(([category, words]) => words.map((word) => ({ category, word })))
+  .sort((a, b) => b.word.length - a.word.length)
+  .map(({ category, word }) => ({
+    category,
+    leading: new RegExp(`^${escape(word)}(?:e?s)?(?=\\s|$)`, 'i'),
+    trailing: new RegExp(`(?:^|\\s)${escape(word)}(?:e?s)?$`, 'i'),
+  }));
+
+const LEADING_LINK = /^(?:near(?:by)?|close to|around|in|at|of)\s+/i;
+// Said in place of a place, or the start of one still being typed
+const NEARBY = /^(?:nearby|near me|near by|around me|around|near|close to|in|at|of)$/i;
+
+// Reads "hospital near Ongole", "temples in Guntur", "Tirupati temples" or
+// just "hospital". Anything else is left for the place search.
+export function parsePoiQuery(text: string): PoiQuery | null {
+  const query = text.trim().replace(/\s+/g, ' ');
+  for (const { category, leading, trailing } of CATEGORY_PATTERNS) {
+    let place: string;
+    const start = query.match(leading);
+    if (start) {
+      place = query.slice(start[0].length);
+    } else {
+      const end = query.match(trailing);
+      if (!end) continue;
+      place = query.slice(0, end.index);
+    }
+    place = place.trim().replace(LEADING_LINK, '').replace(/\s+(?:nearby|near me)$/i, '').trim();
+    return { category, place: place && !NEARBY.test(place) ? place : null };
+  }
+  return null;
+}
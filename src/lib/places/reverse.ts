@@ -0,0 +1,126 @@
+import { haversineDistance, projectOnSegment, type LatLng } from '@/lib/geo';
+import { loadRoadGraph, type RoadGraph, type RoadInfo } from '@/lib/routing/graph';
+import { loadGazetteer, type Gazetteer, type GazetteerPlace } from './gazetteer';
+
+// On-disk format of public/data/post-offices.json: [PIN, office, lat, lng]
+export interface RawPostOffices {
+  version: number;
+  offices: [string, string, number, number][];
+}
+
+export interface PostOffice {
+  pin: string;
+  name: string;
+  point: LatLng;
+}
+
+// Everything looked up for a point picked on the map
+export interface ReverseData {
+  gazetteer: Gazetteer;
+  graph: RoadGraph;
+  postOffices: PostOffice[];
+}
+
+// What is at a point, as far as the bundled data can tell. Parts are null
+// where nothing is close enough to name.
+export interface PointAddress {
+  point: LatLng;
+  // Nearest town or village
+  place: GazetteerPlace | null;
+  placeDistance: number;
+  mandal: GazetteerPlace | null;
+  district: string | null;
+  postOffice: PostOffice | null;
+  road: { road: RoadInfo; point: LatLng; distance: number } | null;
+}
+
+// Places closer than this are named outright, and up to the second distance as "Near …"
+const AT_PLACE = 3000;
+const NEAR_PLACE = 30000;
+// Further than these from any mandal headquarters, post office or road, the
+// point is taken to be outside the data, e.g. out at sea or across the border
+const MANDAL_RANGE = 40000;
+const POST_OFFICE_RANGE = 25000;
+const ROAD_RANGE = 10000;
+
+function nearest<T>(items: T[], distanceTo: (item: T) => number, range: number): { item: T; distance: number } | null {
+  let best: { item: T; distance: number } | null = null;
+  for (const item of items) {
+    const distance = distanceTo(item);
+    if (distance <= range && (!best || distance < best.distance)) best = { item, distance };
+  }
+  return best;
+}
+
+// The bundled data has no boundaries, so a point is put in the mandal whose
+// headquarters is nearest, and in that mandal's district. The PIN is that of
+// the nearest listed post office.
+export function reverseGeocode({ gazetteer, graph, postOffices }: ReverseData, point: LatLng): PointAddress {
+  const distanceTo = (place: GazetteerPlace) => haversineDistance(point, [place.lat, place.lng]);
+  const settlements = gazetteer.places.filter((place) => place.kind === 'town' || place.kind === 'village');
+  const mandals = gazetteer.places.filter((place) => place.kind === 'mandal');
+
+  const place = nearest(settlements, distanceTo, NEAR_PLACE);
+  const mandal = nearest(mandals, distanceTo, MANDAL_RANGE);
+  const postOffice = nearest(postOffices, (office) => haversineDistance(point, office.point), POST_OFFICE_RANGE);
+
+  let road: PointAddress['road'] = null;
+  for (const edge of graph.edges) {
+    const projection = projectOnSegment(point, graph.nodes[edge.from], graph.nodes[edge.to]).point;
+    const distance = haversineDistance(point, projection);
+    if (distance <= ROAD_RANGE && (!road || distance < road.distance)) {
+      road = { road: edge.road, point: projection, distance };
+    }
+  }
+
+  return {
+    point,
+    place: place?.item ?? null,
+    placeDistance: place?.distance ?? Infinity,
+    mandal: mandal?.item ?? null,
+    district: mandal?.item.district ?? null,
+    postOffice: postOffice?.item ?? null,
+    road,
+  };
+}
+
+// "Kuchipudi", "Near Kuchipudi", or the coordinates when nothing is near
+export function addressName({ point, place, placeDistance }: PointAddress): string {
+  if (place && placeDistance <= AT_PLACE) return place.name;
+  if (place) return `Near ${place.name}`;
+  return `${point[0].toFixed(4)}, ${point[1].toFixed(4)}`;
+}
+
+// "Movva mandal · Krishna district · PIN 521136"
+export function addressContext({ mandal, district, postOffice }: PointAddress): string {
+  const parts: string[] = [];
+  if (mandal) parts.push(`${mandal.name} mandal`);
+  if (district) parts.push(`${district} district`);
+  if (postOffice) parts.push(`PIN ${postOffice.pin}`);
+  return parts.join(' · ');
+}
+
+const POST_OFFICES_URL = `${import.meta.env.BASE_URL}data/post-offices.json`;
+
+let postOfficesPromise: Promise<PostOffice[]> | null = null;
+
+export function loadPostOffices(): Promise<PostOffice[]> {
+  if (!postOfficesPromise) {
+    postOfficesPromise = fetch(POST_OFFICES_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load post offices (${response.status})`);
+        return response.json() as Promise<RawPostOffices>;
+      })
+      .then((raw) => raw.offices.map(([pin, name, lat, lng]) => ({ pin, name, point: [lat, lng] as LatLng })))
+      .catch((error) => {
+        postOfficesPromise = null;
+        throw error;
+      });
+  }
+  return postOfficesPromise;
+}
+
+export async function loadReverseData(): Promise<ReverseData> {
+  const [gazetteer, graph, postOffices] = await Promise.all([loadGazetteer(), loadRoadGraph(), loadPostOffices()]);
+  return { gazetteer, graph, postOffices };
+}
@@ -0,0 +1,208 @@
+import type { GazetteerPlace, PlaceKind } from './gazetteer';
+import { hasTelugu, phoneticKey, transliterate } from './telugu';
+
+// Prefix and typo-tolerant lookup over place names. Every word of every name
+// is kept in one sorted list, so the words starting with what was typed are a
+// contiguous run found by binary search; misspellings are caught by comparing
+// the typed word against distinct words with a bounded edit distance. Each
+// word is also listed by its phonetic key, so "chittooru" finds Chittoor and,
+// once transliterated, "చిత్తూరు" does too.
+export interface SearchIndex {
+  places: GazetteerPlace[];
+  // Every name a place goes by: its own, its Telugu one and its aliases
+  labels: Label[];
+  // Distinct name words and their keys, sorted, each with the labels having it
+  words: string[];
+  postings: number[][];
+  // Words of the mandal and district, and their keys, by place id
+  context: Set<string>[];
+}
+
+interface Label {
+  place: number;
+  text: string;
+  normalized: string;
+  key: string;
+  kind: 'name' | 'telugu' | 'alias';
+}
+
+export interface PlaceMatch {
+  place: GazetteerPlace;
+  score: number;
+  // Set when the place was found by one of its other names
+  alias?: string;
+}
+
+// Bigger and more prominent places win ties
+const KIND_WEIGHT: Record<PlaceKind, number> = { district: 0.6, town: 0.5, mandal: 0.3, village: 0 };
+
+// Lower case in Latin letters, accents and punctuation dropped: "S. Kota"
+// becomes "s kota" and "ఎస్. కోట" becomes "es kota"
+export function normalizeName(text: string): string {
+  return transliterate(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+const wordsOf = (text: string) => normalizeName(text).split(' ').filter(Boolean);
+
+const keyOf = (words: string[]) => words.map(phoneticKey).join(' ');
+
+export function buildSearchIndex(places: GazetteerPlace[]): SearchIndex {
+  const labels: Label[] = [];
+  const byWord = new Map<string, number[]>();
+  for (const place of places) {
+    const names: Pick<Label, 'text' | 'kind'>[] = [
+      { text: place.name, kind: 'name' },
+      ...(place.telugu ? [{ text: place.telugu, kind: 'telugu' as const }] : []),
+      ...place.aliases.map((text) => ({ text, kind: 'alias' as const })),
+    ];
+    for (const { text, kind } of names) {
+      const words = wordsOf(text);
+      const id = labels.length;
+      labels.push({ place: place.id, text, normalized: words.join(' '), key: keyOf(words), kind });
+      for (const word of new Set([...words, ...words.map(phoneticKey)])) {
+        if (!byWord.has(word)) byWord.set(word, []);
+        byWord.get(word)!.push(id);
+      }
+    }
+  }
+  const words = [...byWord.keys()].sort();
+  return {
+    places,
+    labels,
+    words,
+    postings: words.map((word) => byWord.get(word)!),
+    context: places.map((place) => {
+      const words = wordsOf(`${place.mandal ?? ''} ${place.district}`);
+      return new Set([...words, ...words.map(phoneticKey)]);
+    }),
+  };
+}
+
+// First position in the sorted words not before `prefix`
+function lowerBound(words: string[], prefix: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (words[middle] < prefix) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+// Fewest edits turning `query` into the start of `word`, or Infinity once
+// past `limit`, so "vijaywad" is one edit from "vijayawada"
+export function prefixEditDistance(query: string, word: string, limit: number): number {
+  let previous = Array.from({ length: word.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= word.length; j++) {
+      const substitution = previous[j - 1] + (query[i - 1] === word[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return Infinity;
+    previous = current;
+  }
+  const best = Math.min(...previous);
+  return best <= limit ? best : Infinity;
+}
+
+// Typos forgiven for a word of this length
+const allowedEdits = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+// Score of each label for one typed word: 3 for a whole word, 2 for the start
+// of one, less for a near miss
+function matchWord(index: SearchIndex, token: string, scores = new Map<number, number>()): Map<number, number> {
+  const credit = (position: number, score: number) => {
+    for (const id of index.postings[position]) {
+      if (score > (scores.get(id) ?? 0)) scores.set(id, score);
+    }
+  };
+
+  for (let i = lowerBound(index.words, token); i < index.words.length && index.words[i].startsWith(token); i++) {
+    credit(i, index.words[i] === token ? 3 : 2);
+  }
+
+  // Typos are looked for among words with the same first letter, which
+  // people rarely get wrong
+  const limit = allowedEdits(token.length);
+  if (limit > 0) {
+    const end = lowerBound(index.words, String.fromCodePoint(token.codePointAt(0)! + 1));
+    for (let i = lowerBound(index.words, token[0]); i < end; i++) {
+      if (index.words[i].startsWith(token)) continue;
+      const edits = prefixEditDistance(token, index.words[i], limit);
+      if (edits !== Infinity) credit(i, 1.5 - edits * 0.5);
+    }
+  }
+  return scores;
+}
+
+// Best places for what has been typed, in English or Telugu. Every word typed
+// must match one of the place's names or, to narrow down common names, its
+// mandal or district, e.g. "srikakulam krishna".
+export function searchPlaces(index: SearchIndex, query: string, limit = 8): PlaceMatch[] {
+  const tokens = wordsOf(query);
+  if (tokens.length === 0) return [];
+  const normalized = tokens.join(' ');
+  const key = keyOf(tokens);
+  // Other names, and Telugu names spelt out in English, count for a little
+  // less than the name itself, so "vijay" is Vijayawada before Vizianagaram
+  // (Vijayanagaram)
+  const inTelugu = hasTelugu(query);
+  const labelWeight = (label: Label) => (label.kind === 'name' || (label.kind === 'telugu' && inTelugu) ? 0 : -0.5);
+
+  const perToken = tokens.map((token) => {
+    const scores = matchWord(index, token);
+    const tokenKey = phoneticKey(token);
+    return tokenKey === token ? scores : matchWord(index, tokenKey, scores);
+  });
+  const candidates = new Set(perToken.flatMap((scores) => [...scores.keys()]));
+
+  // Best scoring label of each place
+  const best = new Map<number, { label: Label; score: number }>();
+  for (const id of candidates) {
+    const label = index.labels[id];
+    const context = index.context[label.place];
+    let score = 0;
+    let matchesName = false;
+    let isComplete = true;
+    tokens.forEach((token, i) => {
+      const nameScore = perToken[i].get(id);
+      if (nameScore) {
+        score += nameScore;
+        matchesName = true;
+      } else if ([...context].some((word) => word.startsWith(token) || word.startsWith(phoneticKey(token)))) {
+        score += 0.5;
+      } else {
+        isComplete = false;
+      }
+    });
+    if (!matchesName || !isComplete) continue;
+
+    if (label.normalized === normalized || label.key === key) score += 4;
+    else if (label.normalized.startsWith(normalized) || label.key.startsWith(key)) score += 2;
+    score += labelWeight(label);
+
+    const current = best.get(label.place);
+    if (!current || score > current.score) {
+      best.set(label.place, { label, score });
+    }
+  }
+
+  const matches: PlaceMatch[] = [...best].map(([id, { label, score }]) => {
+    const place = index.places[id];
+    return {
+      place,
+      score: score + KIND_WEIGHT[place.kind] + Math.log10(Math.max(1, place.population)) / 10,
+      ...(label.kind === 'alias' && { alias: label.text }),
+    };
+  });
+  return matches.sort((a, b) => b.score - a.score || a.place.name.localeCompare(b.place.name)).slice(0, limit);
+}
@@ -0,0 +1,71 @@
+// Telugu script and the many ways its place names are spelt in English
+
+const CONSONANTS: Record<string, string> = {
+  'క': 'k', 'ఖ': 'kh', 'గ': 'g', 'ఘ': 'gh', 'ఙ': 'n',
+  'చ': 'ch', 'ఛ': 'chh', 'జ': 'j', 'ఝ': 'jh', 'ఞ': 'n',
+  'ట': 't', 'ఠ': 'th', 'డ': 'd', 'ఢ': 'dh', 'ణ': 'n',
+  'త': 't', 'థ': 'th', 'ద': 'd', 'ధ': 'dh', 'న': 'n',
+  'ప': 'p', 'ఫ': 'ph', 'బ': 'b', 'భ': 'bh', 'మ': 'm',
+  'య': 'y', 'ర': 'r', 'ఱ': 'r', 'ల': 'l', 'ళ': 'l', 'వ': 'v',
+  'శ': 'sh', 'ష': 'sh', 'స': 's', 'హ': 'h',
+};
+
+const VOWELS: Record<string, string> = {
+  'అ': 'a', 'ఆ': 'aa', 'ఇ': 'i', 'ఈ': 'ee', 'ఉ': 'u', 'ఊ': 'oo', 'ఋ': 'ri',
+  'ఎ': 'e', 'ఏ': 'e', 'ఐ': 'ai', 'ఒ': 'o', 'ఓ': 'o', 'ఔ': 'au',
+};
+
+// Vowels written as marks on the consonant before them
+const VOWEL_SIGNS: Record<string, string> = {
+  'ా': 'aa', 'ి': 'i', 'ీ': 'ee', 'ు': 'u', 'ూ': 'oo', 'ృ': 'ri',
+  'ె': 'e', 'ే': 'e', 'ై': 'ai', 'ొ': 'o', 'ో': 'o', 'ౌ': 'au',
+};
+
+const VIRAMA = '్';
+const ANUSVARA = 'ం';
+const VISARGA = 'ః';
+const CANDRABINDU = 'ఁ';
+
+export const hasTelugu = (text: string) => /[\u0c00-\u0c7f]/.test(text);
+
+// Telugu script spelt out in Latin letters the way road signs tend to:
+// "విజయవాడ" becomes "vijayavaada". Anything else is left as it is.
+export function transliterate(text: string): string {
+  if (!hasTelugu(text)) return text;
+  const chars = [...text];
+  let out = '';
+  chars.forEach((char, i) => {
+    const next = chars[i + 1];
+    if (char in CONSONANTS) {
+      out += CONSONANTS[char];
+      // Every consonant carries an "a" unless a vowel sign or virama replaces it
+      if (next in VOWEL_SIGNS) out += VOWEL_SIGNS[next];
+      else if (next !== VIRAMA) out += 'a';
+    } else if (char in VOWELS) {
+      out += VOWELS[char];
+    } else if (char === ANUSVARA) {
+      // Sounds as the nasal of whatever follows: "m" before p, b and m
+      const following = next in CONSONANTS ? CONSONANTS[next][0] : null;
+      out += following && !'pbm'.includes(following) ? 'n' : 'm';
+    } else if (char === VISARGA) {
+      out += 'h';
+    } else if (!(char in VOWEL_SIGNS) && char !== VIRAMA && char !== CANDRABINDU) {
+      out += char;
+    }
+  });
+  return out;
+}
+
+// Folds a lower-case romanised word to a rough sound so different spellings
+// of one name meet: "chittooru" and "chittoor" both become "citur", and
+// "vishakhapatnam" and "visakapatnam" agree
+export function phoneticKey(word: string): string {
+  return word
+    .replace(/ee|ii/g, 'i')
+    .replace(/oo|uu/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/([kgcjtdpbs])h/g, '$1')
+    .replace(/w/g, 'v')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/([^aeiou])u$/, '$1');
+}
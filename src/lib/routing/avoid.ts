@@ -0,0 +1,98 @@
+import { projectOnSegment } from '@/lib/geo';
+import { formatDistance } from '@/lib/format';
+import type { RouteSegment } from './engine';
+import type { RoadEdge, RoadGraph, TollPlaza } from './graph';
+import type { AvoidanceImpact } from './provider';
+
+export type Avoidance = 'tolls' | 'national' | 'ghat' | 'unpaved' | 'ferries';
+
+export const AVOIDANCE_LABELS: Record<Avoidance, string> = {
+  tolls: 'Tolls',
+  national: 'National highways',
+  ghat: 'Ghat roads',
+  unpaved: 'Unpaved roads',
+  ferries: 'Ferries',
+};
+
+const AVOIDANCE_NOUNS: Record<Avoidance, string> = {
+  tolls: 'toll roads',
+  national: 'national highways',
+  ghat: 'ghat roads',
+  unpaved: 'unpaved roads',
+  ferries: 'ferries',
+};
+
+// "toll roads, ghat roads and ferries"
+export function listAvoidances(avoid: Avoidance[]): string {
+  const nouns = avoid.map((avoidance) => AVOIDANCE_NOUNS[avoidance]);
+  return nouns.length > 1 ? `${nouns.slice(0, -1).join(', ')} and ${nouns[nouns.length - 1]}` : nouns.join('');
+}
+
+// Whether any of the avoidances rules the edge out. Expressways count as
+// national highways.
+export function isAvoided(edge: RoadEdge, avoid: Avoidance[]): boolean {
+  return avoid.some((avoidance) => {
+    switch (avoidance) {
+      case 'tolls':
+        return edge.tolls.length > 0;
+      case 'national':
+        return edge.road.class === 'national' || edge.road.class === 'motorway';
+      case 'ghat':
+        return edge.flags.includes('ghat');
+      case 'unpaved':
+        return edge.flags.includes('unpaved');
+      case 'ferries':
+        return edge.flags.includes('ferry');
+    }
+  });
+}
+
+// Toll plazas the route drives through, in order. Segments at either end of
+// a route may only cover part of an edge, so plazas beyond them are skipped.
+export function tollPlazasPassed(graph: RoadGraph, segments: RouteSegment[]): TollPlaza[] {
+  return segments.flatMap(({ edge, start, end }) => {
+    if (edge.tolls.length === 0) return [];
+    const a = graph.nodes[edge.from];
+    const b = graph.nodes[edge.to];
+    const from = projectOnSegment(start, a, b).t;
+    const to = projectOnSegment(end, a, b).t;
+    const passed = edge.tolls.filter(
+      ({ position }) => position >= Math.min(from, to) && position <= Math.max(from, to),
+    );
+    return from <= to ? passed : passed.reverse();
+  });
+}
+
+// How much of each avoidable feature a route uses: toll plazas and ferry
+// crossings are counted, the rest measured in metres
+export function avoidanceExposure(graph: RoadGraph, segments: RouteSegment[]): Record<Avoidance, number> {
+  const metresWhere = (avoidance: Avoidance) =>
+    segments
+      .filter((segment) => isAvoided(segment.edge, [avoidance]))
+      .reduce((sum, segment) => sum + segment.distance, 0);
+
+  return {
+    tolls: tollPlazasPassed(graph, segments).length,
+    national: metresWhere('national'),
+    ghat: metresWhere('ghat'),
+    unpaved: metresWhere('unpaved'),
+    ferries: new Set(segments.filter((segment) => segment.edge.flags.includes('ferry')).map((s) => s.edge.id)).size,
+  };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Route summary line, e.g. "avoids 3 toll plazas, +18 km"
+export function describeAvoidance({ avoided, extraDistance }: AvoidanceImpact): string {
+  const parts: string[] = [];
+  if (avoided.tolls) parts.push(plural(avoided.tolls, 'toll plaza'));
+  if (avoided.national) parts.push(`${formatDistance(avoided.national)} of national highway`);
+  if (avoided.ghat) parts.push(`${formatDistance(avoided.ghat)} of ghat road`);
+  if (avoided.unpaved) parts.push(`${formatDistance(avoided.unpaved)} of unpaved road`);
+  if (avoided.ferries) parts.push(plural(avoided.ferries, 'ferry crossing'));
+  if (parts.length === 0) return 'needs no detour to avoid these';
+
+  const sign = extraDistance > 0 ? '+' : '−';
+  const detour = Math.abs(extraDistance) >= 100 ? `, ${sign}${formatDistance(Math.abs(extraDistance))}` : '';
+  return `avoids ${parts.join(', ')}${detour}`;
+}
@@ -0,0 +1,40 @@
+import type { RoutingProvider } from './provider';
+import { LocalRoutingProvider } from './providers/local';
+import { OsrmRoutingProvider } from './providers/osrm';
+import { GraphHopperRoutingProvider } from './providers/graphhopper';
+
+export interface RoutingConfig {
+  provider: 'local' | 'osrm' | 'graphhopper';
+  // Base URL of the routing server, e.g. https://router.example.org
+  url?: string;
+  apiKey?: string;
+}
+
+export const routingConfig: RoutingConfig = {
+  provider: (import.meta.env.VITE_ROUTING_PROVIDER as RoutingConfig['provider']) || 'local',
+  url: import.meta.env.VITE_ROUTING_URL,
+  apiKey: import.meta.env.VITE_ROUTING_API_KEY,
+};
+
+export function createRoutingProvider(config: RoutingConfig): RoutingProvider {
+  switch (config.provider) {
+    case 'local':
+      return new LocalRoutingProvider();
+    case 'osrm':
+    case 'graphhopper':
+      if (!config.url) throw new Error(`Routing provider "${config.provider}" needs VITE_ROUTING_URL`);
+      return config.provider === 'osrm'
+        ? new OsrmRoutingProvider(config.url)
+        : new GraphHopperRoutingProvider(config.url, config.apiKey);
+    default:
+      throw new Error(`Unknown routing provider "${config.provider}"`);
+  }
+}
+
+let defaultProvider: RoutingProvider | null = null;
+
+// Provider selected by the VITE_ROUTING_* environment variables
+export function getRoutingProvider(): RoutingProvider {
+  if (!defaultProvider) defaultProvider = createRoutingProvider(routingConfig);
+  return defaultProvider;
+}
@@ -0,0 +1,267 @@
+import { haversineDistance, projectOnSegment, type LatLng } from '@/lib/geo';
+import { isAvoided, listAvoidances, type Avoidance } from './avoid';
+import { MinHeap } from './heap';
+import type { RoadEdge, RoadGraph } from './graph';
+import { TRAVEL_PROFILES, type TravelProfile } from './profiles';
+import type { TrafficModel } from './traffic';
+
+export interface RouteSegment {
+  edge: RoadEdge;
+  start: LatLng;
+  end: LatLng;
+  // Graph node the segment ends at, null where it ends part-way along the edge
+  endNode: number | null;
+  // Metres and seconds travelled on this edge (less than the full edge at the ends of a route)
+  distance: number;
+  duration: number;
+}
+
+export interface RouteResult {
+  geometry: LatLng[];
+  distance: number;
+  duration: number;
+  segments: RouteSegment[];
+}
+
+export interface RouteOptions {
+  // Speeds and access rules to route with; cars by default
+  profile?: TravelProfile;
+  // Multipliers on the search cost of individual edges, keyed by edge id.
+  // They steer the search without changing the reported duration.
+  penalties?: Map<number, number>;
+  // Kinds of road the route must not use at all
+  avoid?: Avoidance[];
+  // Hour-of-week speed factors, applied from the departure time (ms since the epoch)
+  traffic?: TrafficModel;
+  departAt?: number;
+}
+
+export class RouteNotFoundError extends Error {
+  constructor(message = 'No road route connects these locations') {
+    super(message);
+    this.name = 'RouteNotFoundError';
+  }
+}
+
+interface Snap {
+  edge: RoadEdge;
+  // Fraction along the edge from `edge.from` to `edge.to`
+  t: number;
+  point: LatLng;
+}
+
+interface Arc {
+  to: number;
+  edge: RoadEdge;
+  distance: number;
+  point: LatLng;
+}
+
+interface Step {
+  node: number;
+  arc: Arc;
+  // Seconds to travel the arc at the time it is entered
+  duration: number;
+}
+
+// Speed in km/h for the profile on this edge, or 0 where the mode is not allowed
+export function edgeSpeed(edge: RoadEdge, profile: TravelProfile): number {
+  let speed = profile.speeds[edge.road.class] ?? 0;
+  for (const flag of edge.flags) speed *= profile.flagFactors[flag] ?? 1;
+  return speed;
+}
+
+// Seconds to cover `distance` metres of the edge
+export function travelTime(edge: RoadEdge, distance: number, profile: TravelProfile): number {
+  return distance / (edgeSpeed(edge, profile) / 3.6);
+}
+
+const maxSpeed = (profile: TravelProfile) => Math.max(...Object.values(profile.speeds));
+
+// Whether a route with these options may use the edge
+export function isUsable(edge: RoadEdge, { profile = TRAVEL_PROFILES.car, avoid = [] }: RouteOptions): boolean {
+  return edgeSpeed(edge, profile) > 0 && !isAvoided(edge, avoid);
+}
+
+// Nearest point to an arbitrary location on a road the route may use
+export function snapToGraph(graph: RoadGraph, point: LatLng, options: RouteOptions = {}): Snap {
+  let best: Snap | null = null;
+  let bestDistance = Infinity;
+  for (const edge of graph.edges) {
+    if (!isUsable(edge, options)) continue;
+    const projection = projectOnSegment(point, graph.nodes[edge.from], graph.nodes[edge.to]);
+    const distance = haversineDistance(point, projection.point);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { edge, ...projection };
+    }
+  }
+  if (!best) {
+    throw new RouteNotFoundError(
+      options.avoid?.length ? `Every road is ruled out when avoiding ${listAvoidances(options.avoid)}` : 'The road network is empty',
+    );
+  }
+  return best;
+}
+
+// Fastest route between two points using A* over the road graph. The start
+// and end are snapped onto the nearest edge and enter the search as two
+// virtual nodes, so routes can begin and end part-way along a road. With a
+// traffic model each edge is timed for the hour the route reaches it.
+export function findRoute(graph: RoadGraph, from: LatLng, to: LatLng, options: RouteOptions = {}): RouteResult {
+  const { penalties, profile = TRAVEL_PROFILES.car, avoid = [], traffic, departAt = Date.now() } = options;
+  const start = snapToGraph(graph, from, options);
+  const end = snapToGraph(graph, to, options);
+  const source = graph.nodes.length;
+  const target = source + 1;
+
+  const coordinate = (node: number) =>
+    node === source ? start.point : node === target ? end.point : graph.nodes[node];
+
+  const arcsFrom = (node: number): Arc[] => {
+    if (node === source) {
+      const { edge, t } = start;
+      const arcs: Arc[] = [
+        { to: edge.from, edge, distance: edge.length * t, point: graph.nodes[edge.from] },
+        { to: edge.to, edge, distance: edge.length * (1 - t), point: graph.nodes[edge.to] },
+      ];
+      if (edge.id === end.edge.id) {
+        arcs.push({ to: target, edge, distance: edge.length * Math.abs(end.t - t), point: end.point });
+      }
+      return arcs;
+    }
+
+    const arcs = graph.adjacency[node].map((id) => {
+      const edge = graph.edges[id];
+      const other = edge.from === node ? edge.to : edge.from;
+      return { to: other, edge, distance: edge.length, point: graph.nodes[other] };
+    });
+    if (end.edge.from === node) {
+      arcs.push({ to: target, edge: end.edge, distance: end.edge.length * end.t, point: end.point });
+    }
+    if (end.edge.to === node) {
+      arcs.push({ to: target, edge: end.edge, distance: end.edge.length * (1 - end.t), point: end.point });
+    }
+    return arcs;
+  };
+
+  // Infinity where traffic closes the road at that hour
+  const arcDuration = (arc: Arc, elapsed: number) => {
+    const duration = travelTime(arc.edge, arc.distance, profile);
+    if (!traffic) return duration;
+    const factor = traffic.factor(arc.edge, departAt + elapsed * 1000);
+    return factor > 0 ? duration / factor : Infinity;
+  };
+
+  const fastest = (maxSpeed(profile) * Math.max(1, traffic?.maxFactor ?? 1)) / 3.6;
+  const heuristic = (node: number) => haversineDistance(coordinate(node), end.point) / fastest;
+
+  // Search cost (penalised) and actual seconds elapsed, which traffic is read at
+  const cost = new Map<number, number>([[source, 0]]);
+  const elapsed = new Map<number, number>([[source, 0]]);
+  const previous = new Map<number, Step>();
+  const settled = new Set<number>();
+  const open = new MinHeap<number>();
+  open.push(source, heuristic(source));
+
+  while (open.size > 0) {
+    const node = open.pop()!;
+    if (settled.has(node)) continue;
+    settled.add(node);
+    if (node === target) break;
+
+    for (const arc of arcsFrom(node)) {
+      if (settled.has(arc.to) || !isUsable(arc.edge, options)) continue;
+      const duration = arcDuration(arc, elapsed.get(node)!);
+      if (duration === Infinity) continue;
+      const penalty = penalties?.get(arc.edge.id) ?? 1;
+      const candidate = cost.get(node)! + duration * penalty;
+      if (candidate < (cost.get(arc.to) ?? Infinity)) {
+        cost.set(arc.to, candidate);
+        elapsed.set(arc.to, elapsed.get(node)! + duration);
+        previous.set(arc.to, { node, arc, duration });
+        open.push(arc.to, candidate + heuristic(arc.to));
+      }
+    }
+  }
+
+  if (!settled.has(target)) {
+    // Say so rather than quietly ignoring the constraints
+    throw new RouteNotFoundError(
+      avoid.length > 0 ? `No route between these locations avoids ${listAvoidances(avoid)}` : undefined,
+    );
+  }
+
+  const steps: Step[] = [];
+  for (let node = target; node !== source; ) {
+    const step = previous.get(node)!;
+    steps.unshift(step);
+    node = step.node;
+  }
+  const arcs = steps.map((step) => step.arc);
+
+  const segments: RouteSegment[] = [];
+  let position = start.point;
+  for (const { arc, duration } of steps) {
+    if (arc.distance > 0) {
+      segments.push({
+        edge: arc.edge,
+        start: position,
+        end: arc.point,
+        endNode: arc.to < graph.nodes.length ? arc.to : null,
+        distance: arc.distance,
+        duration,
+      });
+    }
+    position = arc.point;
+  }
+
+  const geometry = [start.point];
+  for (const arc of arcs) {
+    const last = geometry[geometry.length - 1];
+    if (arc.point[0] !== last[0] || arc.point[1] !== last[1]) geometry.push(arc.point);
+  }
+
+  return {
+    geometry,
+    distance: segments.reduce((sum, segment) => sum + segment.distance, 0),
+    duration: segments.reduce((sum, segment) => sum + segment.duration, 0),
+    segments,
+  };
+}
+
+// Share of `route` (by distance) that runs over edges also used by `other`
+function overlap(route: RouteResult, other: RouteResult): number {
+  const shared = new Set(other.segments.map((segment) => segment.edge.id));
+  const distance = route.segments
+    .filter((segment) => shared.has(segment.edge.id))
+    .reduce((sum, segment) => sum + segment.distance, 0);
+  return route.distance > 0 ? distance / route.distance : 1;
+}
+
+// The fastest route followed by up to `maxRoutes - 1` alternatives, found by
+// repeatedly penalising the edges of routes already chosen. Alternatives must
+// differ meaningfully from every earlier route and stay reasonably quick.
+export function findAlternativeRoutes(
+  graph: RoadGraph,
+  from: LatLng,
+  to: LatLng,
+  maxRoutes: number,
+  options: RouteOptions = {},
+): RouteResult[] {
+  const primary = findRoute(graph, from, to, options);
+  const routes = [primary];
+  const penalties = new Map(options.penalties);
+
+  let last = primary;
+  for (let attempt = 0; attempt < maxRoutes * 3 && routes.length < maxRoutes; attempt++) {
+    for (const segment of last.segments) {
+      penalties.set(segment.edge.id, (penalties.get(segment.edge.id) ?? 1) * 1.6);
+    }
+    last = findRoute(graph, from, to, { ...options, penalties });
+    if (last.duration > primary.duration * 1.5) break;
+    if (routes.every((route) => overlap(last, route) < 0.7)) routes.push(last);
+  }
+
+  return routes;
+}
@@ -0,0 +1,224 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { findRoute, RouteNotFoundError, type RouteOptions } from './engine';
+import type { RoadGraph } from './graph';
+import { MinHeap } from './heap';
+
+// On-disk format of public/data/charging-stations.json
+export interface RawChargingStations {
+  version: number;
+  // Power is the fastest the station charges at, in kW
+  stations: { name: string; lat: number; lng: number; power: number }[];
+}
+
+export interface ChargingStation {
+  name: string;
+  point: LatLng;
+  power: number;
+}
+
+export interface EvSpec {
+  // Usable battery, kWh
+  capacity: number;
+  // Wh per km
+  consumption: number;
+  // Fastest the car accepts, kW
+  maxChargePower: number;
+}
+
+export interface ChargingStop {
+  station: ChargingStation;
+  // State of charge on arrival and on leaving, 0 to 1
+  arrivalSoc: number;
+  departureSoc: number;
+  // Seconds spent at the charger
+  chargeTime: number;
+}
+
+export interface EvPlan {
+  // The trip's stops with the charging stations slotted in between them
+  waypoints: LatLng[];
+  // Index into `waypoints` of each charging stop
+  chargingStops: (ChargingStop & { waypoint: number })[];
+  arrivalSoc: number;
+  chargeTime: number;
+}
+
+// Fast chargers slow right down above this, so stops only charge up to it
+export const MAX_CHARGE = 0.8;
+// Share of the charger's output that ends up in the battery
+const CHARGING_EFFICIENCY = 0.9;
+// Parking, plugging in and paying at each stop
+const STOP_OVERHEAD = 5 * 60;
+
+const STATIONS_URL = `${import.meta.env.BASE_URL}data/charging-stations.json`;
+
+export function buildChargingStations(raw: RawChargingStations): ChargingStation[] {
+  return raw.stations.map(({ name, lat, lng, power }) => ({ name, point: [lat, lng], power }));
+}
+
+let stationsPromise: Promise<ChargingStation[]> | null = null;
+
+// Fetches the bundled charging stations once per session
+export function loadChargingStations(): Promise<ChargingStation[]> {
+  if (!stationsPromise) {
+    stationsPromise = fetch(STATIONS_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load charging stations (${response.status})`);
+        return response.json() as Promise<RawChargingStations>;
+      })
+      .then(buildChargingStations)
+      .catch((error) => {
+        stationsPromise = null;
+        throw error;
+      });
+  }
+  return stationsPromise;
+}
+
+// Seconds to put `energy` kWh into the battery at a station
+export function chargingTime(energy: number, station: ChargingStation, spec: EvSpec): number {
+  if (energy <= 0) return 0;
+  const power = Math.min(station.power, spec.maxChargePower) * CHARGING_EFFICIENCY;
+  return (energy / power) * 3600 + STOP_OVERHEAD;
+}
+
+interface Label {
+  // Seconds driving and charging since the start of the leg
+  time: number;
+  soc: number;
+  previous: number | null;
+  // Charging done at the previous stop before setting off for this one
+  charge: { departureSoc: number; chargeTime: number } | null;
+}
+
+// Quickest sequence of charging stops for one leg, counting both driving
+// and charging time. At each station the car takes on just enough to reach
+// the next stop with the reserve intact, never more than MAX_CHARGE.
+function planLeg(
+  graph: RoadGraph,
+  from: LatLng,
+  to: LatLng,
+  soc: number,
+  reserve: number,
+  stations: ChargingStation[],
+  spec: EvSpec,
+  options: RouteOptions,
+): { stops: ChargingStop[]; arrivalSoc: number } {
+  // Places by index: 0 is the start, 1 the end, then the stations
+  const points = [from, to, ...stations.map((station) => station.point)];
+  const maxRange = ((Math.max(soc, MAX_CHARGE) - reserve) * spec.capacity * 1000) / spec.consumption;
+  const drives = new Map<string, { energy: number; duration: number } | null>();
+  const drive = (a: number, b: number) => {
+    const key = `${a}:${b}`;
+    if (!drives.has(key)) {
+      let result: { energy: number; duration: number } | null = null;
+      // Roads are never shorter than the straight line, so far pairs can be skipped
+      if (haversineDistance(points[a], points[b]) / 1000 <= maxRange) {
+        try {
+          const route = findRoute(graph, points[a], points[b], options);
+          result = { energy: (route.distance / 1000) * (spec.consumption / 1000), duration: route.duration };
+        } catch (error) {
+          if (!(error instanceof RouteNotFoundError)) throw error;
+        }
+      }
+      drives.set(key, result);
+    }
+    return drives.get(key)!;
+  };
+
+  const labels = new Map<number, Label>([[0, { time: 0, soc, previous: null, charge: null }]]);
+  const settled = new Set<number>();
+  const open = new MinHeap<number>();
+  open.push(0, 0);
+
+  while (open.size > 0) {
+    const place = open.pop()!;
+    if (settled.has(place)) continue;
+    settled.add(place);
+    if (place === 1) break;
+
+    const label = labels.get(place)!;
+    const station = place >= 2 ? stations[place - 2] : null;
+    for (let next = 1; next < points.length; next++) {
+      if (settled.has(next)) continue;
+      const leg = drive(place, next);
+      if (!leg) continue;
+
+      // Charge at this station if the battery would otherwise dip below the reserve
+      const needed = reserve + leg.energy / spec.capacity;
+      let departureSoc = label.soc;
+      let chargeTime = 0;
+      if (needed > label.soc) {
+        if (!station || needed > MAX_CHARGE) continue;
+        departureSoc = needed;
+        chargeTime = chargingTime((needed - label.soc) * spec.capacity, station, spec);
+      }
+
+      const time = label.time + chargeTime + leg.duration;
+      if (time < (labels.get(next)?.time ?? Infinity)) {
+        labels.set(next, {
+          time,
+          soc: departureSoc - leg.energy / spec.capacity,
+          previous: place,
+          charge: chargeTime > 0 ? { departureSoc, chargeTime } : null,
+        });
+        open.push(next, time);
+      }
+    }
+  }
+
+  const end = labels.get(1);
+  if (!end) throw new RouteNotFoundError('No chain of charging stations keeps the battery above the reserve');
+
+  // Walk back from the end, collecting the stations visited
+  const stops: ChargingStop[] = [];
+  let place = 1;
+  while (labels.get(place)!.previous !== null) {
+    const { previous, charge } = labels.get(place)!;
+    if (previous! >= 2) {
+      const arrivalSoc = labels.get(previous!)!.soc;
+      stops.unshift({
+        station: stations[previous! - 2],
+        arrivalSoc,
+        departureSoc: charge?.departureSoc ?? arrivalSoc,
+        chargeTime: charge?.chargeTime ?? 0,
+      });
+    }
+    place = previous!;
+  }
+  return { stops, arrivalSoc: end.soc };
+}
+
+// Plans charging stops for a trip through `stops`, starting with `soc`
+// (0 to 1) and never letting the battery fall below `reserve`
+export function planEvTrip(
+  graph: RoadGraph,
+  stops: LatLng[],
+  soc: number,
+  reserve: number,
+  stations: ChargingStation[],
+  spec: EvSpec,
+  options: RouteOptions = {},
+): EvPlan {
+  if (soc < reserve) throw new RouteNotFoundError('The battery is already below the reserve');
+
+  const waypoints: LatLng[] = [stops[0]];
+  const chargingStops: EvPlan['chargingStops'] = [];
+  let current = soc;
+  for (let i = 1; i < stops.length; i++) {
+    const leg = planLeg(graph, stops[i - 1], stops[i], current, reserve, stations, spec, options);
+    for (const stop of leg.stops) {
+      waypoints.push(stop.station.point);
+      chargingStops.push({ ...stop, waypoint: waypoints.length - 1 });
+    }
+    waypoints.push(stops[i]);
+    current = leg.arrivalSoc;
+  }
+
+  return {
+    waypoints,
+    chargingStops,
+    arrivalSoc: current,
+    chargeTime: chargingStops.reduce((sum, stop) => sum + stop.chargeTime, 0),
+  };
+}
@@ -0,0 +1,99 @@
+import type { LatLng } from '@/lib/geo';
+
+export type RoadClass = 'motorway' | 'national' | 'state' | 'district' | 'village' | 'ferry';
+export type EdgeFlag = 'ghat' | 'unpaved' | 'ferry';
+
+export const ROAD_CLASS_LABELS: Record<RoadClass, string> = {
+  motorway: 'Expressway',
+  national: 'National highway',
+  state: 'State highway',
+  district: 'District road',
+  village: 'Village road',
+  ferry: 'Ferry',
+};
+
+export interface RoadInfo {
+  ref: string;
+  name: string;
+  class: RoadClass;
+}
+
+// On-disk format of public/data/ap-roads.json. Edges are undirected and
+// reference nodes and roads by index: [from, to, road, lengthMetres, flags?].
+// Toll plazas sit on an edge: [edge, fractionFromEdgeStart, name].
+export interface RawRoadGraph {
+  version: number;
+  nodes: [number, number, string][];
+  roads: RoadInfo[];
+  edges: ([number, number, number, number] | [number, number, number, number, EdgeFlag[]])[];
+  tolls?: [number, number, string][];
+}
+
+export interface TollPlaza {
+  name: string;
+  point: LatLng;
+  // Fraction along the edge from `edge.from` to `edge.to`
+  position: number;
+}
+
+export interface RoadEdge {
+  id: number;
+  from: number;
+  to: number;
+  road: RoadInfo;
+  length: number;
+  flags: EdgeFlag[];
+  tolls: TollPlaza[];
+}
+
+export interface RoadGraph {
+  nodes: LatLng[];
+  nodeNames: string[];
+  edges: RoadEdge[];
+  // Edge ids incident to each node
+  adjacency: number[][];
+}
+
+const GRAPH_URL = `${import.meta.env.BASE_URL}data/ap-roads.json`;
+
+export function buildRoadGraph(raw: RawRoadGraph): RoadGraph {
+  const nodes = raw.nodes.map(([lat, lng]) => [lat, lng] as LatLng);
+  const nodeNames = raw.nodes.map(([, , name]) => name);
+  const adjacency: number[][] = nodes.map(() => []);
+
+  const edges = raw.edges.map(([from, to, road, length, flags], id) => {
+    adjacency[from].push(id);
+    adjacency[to].push(id);
+    return { id, from, to, road: raw.roads[road], length, flags: flags ?? [], tolls: [] as TollPlaza[] };
+  });
+
+  for (const [id, position, name] of raw.tolls ?? []) {
+    const { from, to, tolls } = edges[id];
+    const point: LatLng = [
+      nodes[from][0] + (nodes[to][0] - nodes[from][0]) * position,
+      nodes[from][1] + (nodes[to][1] - nodes[from][1]) * position,
+    ];
+    tolls.push({ name, point, position });
+  }
+
+  return { nodes, nodeNames, edges, adjacency };
+}
+
+let graphPromise: Promise<RoadGraph> | null = null;
+
+// Fetches and indexes the bundled road graph once per session
+export function loadRoadGraph(): Promise<RoadGraph> {
+  if (!graphPromise) {
+    graphPromise = fetch(GRAPH_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load road graph (${response.status})`);
+        return response.json() as Promise<RawRoadGraph>;
+      })
+      .then(buildRoadGraph)
+      .catch((error) => {
+        graphPromise = null;
+        throw error;
+      });
+  }
+  return graphPromise;
+}
@@ -0,0 +1,144 @@
+import { contourRings } from '@/lib/contour';
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { isUsable, snapToGraph, travelTime, type RouteOptions } from './engine';
+import type { RoadGraph } from './graph';
+import { MinHeap } from './heap';
+import { TRAVEL_PROFILES } from './profiles';
+
+export const ISOCHRONE_MINUTES = [30, 60, 90];
+
+// Fill colour of each band, innermost first
+export const ISOCHRONE_COLORS = ['#10b981', '#f59e0b', '#ef4444'];
+
+export interface IsochroneBand {
+  minutes: number;
+  // Outlines to fill with the even-odd rule; inner rings are holes
+  rings: LatLng[][];
+}
+
+export interface ReachablePlace {
+  name: string;
+  point: LatLng;
+  // Seconds from the origin
+  duration: number;
+}
+
+export interface Isochrone {
+  origin: LatLng;
+  // Smallest time limit first
+  bands: IsochroneBand[];
+  places: ReachablePlace[];
+}
+
+// Grid the contours are traced on, about 2.8 km between points
+const CELL_DEGREES = 0.025;
+// How far from the graph's roads the local roads it leaves out are assumed to reach
+const LOCAL_REACH = 12000;
+const SAMPLE_SPACING = 1500;
+
+// Seconds from the origin to every graph node, Infinity beyond `limit`
+export function travelTimesFrom(graph: RoadGraph, origin: LatLng, limit: number, options: RouteOptions = {}): number[] {
+  const profile = options.profile ?? TRAVEL_PROFILES.car;
+  const times = graph.nodes.map(() => Infinity);
+  const open = new MinHeap<number>();
+
+  const start = snapToGraph(graph, origin, options);
+  const lead = haversineDistance(origin, start.point) / localSpeed(options);
+  const reach = (node: number, time: number) => {
+    if (time < times[node] && time <= limit) {
+      times[node] = time;
+      open.push(node, time);
+    }
+  };
+  reach(start.edge.from, lead + travelTime(start.edge, start.edge.length * start.t, profile));
+  reach(start.edge.to, lead + travelTime(start.edge, start.edge.length * (1 - start.t), profile));
+
+  const settled = new Set<number>();
+  while (open.size > 0) {
+    const node = open.pop()!;
+    if (settled.has(node)) continue;
+    settled.add(node);
+    for (const id of graph.adjacency[node]) {
+      const edge = graph.edges[id];
+      if (!isUsable(edge, options)) continue;
+      reach(edge.from === node ? edge.to : edge.from, times[node] + travelTime(edge, edge.length, profile));
+    }
+  }
+  return times;
+}
+
+// Metres per second on the minor roads between the graph's roads
+function localSpeed({ profile = TRAVEL_PROFILES.car }: RouteOptions): number {
+  return (profile.speeds.village ?? Math.min(...Object.values(profile.speeds))) / 3.6;
+}
+
+// Areas reachable within each of `minutes` from the origin. Travel times are
+// worked out along the road graph, spread a short way off it at local-road
+// speed onto a grid, and the grid is contoured at each limit.
+export function computeIsochrone(
+  graph: RoadGraph,
+  origin: LatLng,
+  minutes: number[] = ISOCHRONE_MINUTES,
+  options: RouteOptions = {},
+): Isochrone {
+  const profile = options.profile ?? TRAVEL_PROFILES.car;
+  const limits = [...minutes].sort((a, b) => a - b);
+  const limit = limits[limits.length - 1] * 60;
+  const speed = localSpeed(options);
+  const times = travelTimesFrom(graph, origin, limit, options);
+  const start = snapToGraph(graph, origin, options);
+  const lead = haversineDistance(origin, start.point) / speed;
+
+  // Points along the roads with their travel time from the origin
+  const samples: { point: LatLng; time: number }[] = [{ point: origin, time: 0 }];
+  for (const edge of graph.edges) {
+    if (!isUsable(edge, options) || Math.min(times[edge.from], times[edge.to]) > limit) continue;
+    const a = graph.nodes[edge.from];
+    const b = graph.nodes[edge.to];
+    const count = Math.ceil(edge.length / SAMPLE_SPACING);
+    for (let k = 0; k <= count; k++) {
+      const along = k / count;
+      let time = Math.min(
+        times[edge.from] + travelTime(edge, edge.length * along, profile),
+        times[edge.to] + travelTime(edge, edge.length * (1 - along), profile),
+      );
+      if (edge.id === start.edge.id) {
+        time = Math.min(time, lead + travelTime(edge, edge.length * Math.abs(along - start.t), profile));
+      }
+      if (time <= limit) samples.push({ point: [a[0] + (b[0] - a[0]) * along, a[1] + (b[1] - a[1]) * along], time });
+    }
+  }
+
+  // Grid covering every sample's local reach, with an unreachable border
+  const margin = LOCAL_REACH / 111_000 + CELL_DEGREES * 2;
+  const south = Math.min(...samples.map(({ point }) => point[0])) - margin;
+  const west = Math.min(...samples.map(({ point }) => point[1])) - margin;
+  const rows = Math.ceil((Math.max(...samples.map(({ point }) => point[0])) + margin - south) / CELL_DEGREES) + 1;
+  const cols = Math.ceil((Math.max(...samples.map(({ point }) => point[1])) + margin - west) / CELL_DEGREES) + 1;
+  const toLatLng = (row: number, col: number): LatLng => [south + row * CELL_DEGREES, west + col * CELL_DEGREES];
+  const grid = Array.from({ length: rows }, () => new Array<number>(cols).fill(Infinity));
+
+  for (const { point, time } of samples) {
+    const reach = Math.min(LOCAL_REACH, (limit - time) * speed);
+    const row = Math.round((point[0] - south) / CELL_DEGREES);
+    const col = Math.round((point[1] - west) / CELL_DEGREES);
+    const span = Math.ceil(reach / 111_000 / CELL_DEGREES / Math.cos((point[0] * Math.PI) / 180));
+    for (let r = Math.max(1, row - span); r <= Math.min(rows - 2, row + span); r++) {
+      for (let c = Math.max(1, col - span); c <= Math.min(cols - 2, col + span); c++) {
+        const distance = haversineDistance(point, toLatLng(r, c));
+        if (distance <= reach) grid[r][c] = Math.min(grid[r][c], time + distance / speed);
+      }
+    }
+  }
+
+  const places = graph.nodes
+    .map((point, node) => ({ name: graph.nodeNames[node], point, duration: times[node] }))
+    .filter((place) => place.duration <= limit)
+    .sort((a, b) => a.duration - b.duration);
+
+  return {
+    origin,
+    bands: limits.map((band) => ({ minutes: band, rings: contourRings(grid, band * 60, toLatLng) })),
+    places,
+  };
+}
@@ -0,0 +1,120 @@
+// How the trip ends: at a fixed last stop, at whichever stop is cheapest,
+// or back at the start
+export type TripEnd = 'fixed' | 'open' | 'start';
+
+export interface StopOrder {
+  // Indexes into the cost matrix, starting with 0. For round trips the
+  // return to the start is implied rather than repeated.
+  order: number[];
+  cost: number;
+}
+
+// Held–Karp is exact but O(2^n · n²); beyond this many free stops we fall
+// back to nearest-neighbour plus 2-opt
+const EXACT_LIMIT = 15;
+
+const cost = (matrix: (number | null)[][], from: number, to: number) => matrix[from][to] ?? Infinity;
+
+// Cost of visiting the stops in the given order
+export function tripCost(matrix: (number | null)[][], order: number[], end: TripEnd): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) total += cost(matrix, order[i - 1], order[i]);
+  if (end === 'start' && order.length > 1) total += cost(matrix, order[order.length - 1], order[0]);
+  return total;
+}
+
+function solveExact(matrix: (number | null)[][], free: number[], end: TripEnd, last: number | null): number[] {
+  const n = free.length;
+  const full = (1 << n) - 1;
+  // best[mask][i]: cheapest path from the start through `mask`, ending at free[i]
+  const best = Array.from({ length: 1 << n }, () => new Float64Array(n).fill(Infinity));
+  const parent = Array.from({ length: 1 << n }, () => new Int8Array(n).fill(-1));
+
+  for (let i = 0; i < n; i++) best[1 << i][i] = cost(matrix, 0, free[i]);
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i)) || best[mask][i] === Infinity) continue;
+      for (let j = 0; j < n; j++) {
+        if (mask & (1 << j)) continue;
+        const next = mask | (1 << j);
+        const candidate = best[mask][i] + cost(matrix, free[i], free[j]);
+        if (candidate < best[next][j]) {
+          best[next][j] = candidate;
+          parent[next][j] = i;
+        }
+      }
+    }
+  }
+
+  const closing = (i: number) =>
+    end === 'start' ? cost(matrix, free[i], 0) : last !== null ? cost(matrix, free[i], last) : 0;
+
+  let bestLast = 0;
+  for (let i = 1; i < n; i++) {
+    if (best[full][i] + closing(i) < best[full][bestLast] + closing(bestLast)) bestLast = i;
+  }
+  // No complete tour when some stops cannot be reached from the others. The
+  // heuristic still visits every stop, and the trip's cost shows it is impossible.
+  if (!Number.isFinite(best[full][bestLast] + closing(bestLast))) return solveHeuristic(matrix, free, end, last);
+
+  const path: number[] = [];
+  for (let mask = full, i = bestLast; i !== -1; ) {
+    path.unshift(free[i]);
+    const previous = parent[mask][i];
+    mask &= ~(1 << i);
+    i = previous;
+  }
+  if (path.length !== n) throw new Error(`Stop order covers ${path.length} of ${n} stops`);
+  return path;
+}
+
+function solveHeuristic(matrix: (number | null)[][], free: number[], end: TripEnd, last: number | null): number[] {
+  const remaining = new Set(free);
+  const path: number[] = [];
+  let current = 0;
+  while (remaining.size > 0) {
+    let nearest = -1;
+    for (const stop of remaining) {
+      if (nearest === -1 || cost(matrix, current, stop) < cost(matrix, current, nearest)) nearest = stop;
+    }
+    path.push(nearest);
+    remaining.delete(nearest);
+    current = nearest;
+  }
+
+  // 2-opt: reverse stretches of the path while that shortens the whole trip
+  const complete = (middle: number[]) => [0, ...middle, ...(last !== null ? [last] : [])];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let j = i + 1; j < path.length; j++) {
+        const candidate = [...path.slice(0, i), ...path.slice(i, j + 1).reverse(), ...path.slice(j + 1)];
+        if (tripCost(matrix, complete(candidate), end) < tripCost(matrix, complete(path), end) - 1e-9) {
+          path.splice(0, path.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return path;
+}
+
+// Best visiting order over a square cost matrix. Index 0 is always the start;
+// with a fixed end the last index is always visited last.
+export function optimiseStopOrder(matrix: (number | null)[][], end: TripEnd): StopOrder {
+  const size = matrix.length;
+  const last = end === 'fixed' && size > 1 ? size - 1 : null;
+  const free = Array.from({ length: size }, (_, i) => i).filter((i) => i !== 0 && i !== last);
+
+  const middle =
+    free.length === 0
+      ? []
+      : free.length <= EXACT_LIMIT
+        ? solveExact(matrix, free, end, last)
+        : solveHeuristic(matrix, free, end, last);
+
+  const order = [0, ...middle, ...(last !== null ? [last] : [])];
+  return { order, cost: tripCost(matrix, order, end) };
+}
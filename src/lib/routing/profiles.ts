@@ -0,0 +1,46 @@
+import type { EdgeFlag, RoadClass } from './graph';
+import type { RoutingProfile } from './provider';
+
+export interface TravelProfile {
+  label: string;
+  // Average speed in km/h on each road class. Classes left out are closed to this mode.
+  speeds: Partial<Record<RoadClass, number>>;
+  // Speed multipliers for edge conditions; 0 closes the edge to this mode
+  flagFactors: Partial<Record<EdgeFlag, number>>;
+}
+
+export const TRAVEL_PROFILES: Record<RoutingProfile, TravelProfile> = {
+  car: {
+    label: 'Car',
+    speeds: { motorway: 100, national: 70, state: 55, district: 45, village: 30, ferry: 12 },
+    flagFactors: { ghat: 0.5, unpaved: 0.6 },
+  },
+  // Two-wheelers are barred from expressways but happily use village roads
+  'two-wheeler': {
+    label: 'Two-wheeler',
+    speeds: { national: 55, state: 45, district: 40, village: 30, ferry: 12 },
+    flagFactors: { ghat: 0.6, unpaved: 0.7 },
+  },
+  // APSRTC average running speeds including stops along the way; buses
+  // stay off unpaved tracks and the small river ferries
+  bus: {
+    label: 'APSRTC bus',
+    speeds: { motorway: 80, national: 50, state: 40, district: 32, village: 22 },
+    flagFactors: { ghat: 0.5, unpaved: 0, ferry: 0 },
+  },
+  truck: {
+    label: 'Truck',
+    speeds: { motorway: 70, national: 50, state: 40, district: 30 },
+    flagFactors: { ghat: 0.4, unpaved: 0, ferry: 0 },
+  },
+  bicycle: {
+    label: 'Bicycle',
+    speeds: { national: 16, state: 16, district: 15, village: 14, ferry: 12 },
+    flagFactors: { ghat: 0.5, unpaved: 0.8 },
+  },
+  walking: {
+    label: 'Walking',
+    speeds: { national: 5, state: 5, district: 5, village: 5, ferry: 12 },
+    flagFactors: { ghat: 0.8 },
+  },
+};
@@ -0,0 +1,169 @@
+import type { LatLng } from '@/lib/geo';
+import type { Avoidance } from './avoid';
+import type { RoadClass } from './graph';
+
+export type RoutingProfile = 'car' | 'two-wheeler' | 'bus' | 'truck' | 'bicycle' | 'walking';
+
+// Manoeuvre vocabulary shared by all providers (borrowed from OSRM)
+export type ManeuverType =
+  | 'depart'
+  | 'turn'
+  | 'continue'
+  | 'fork'
+  | 'roundabout'
+  | 'waypoint'
+  | 'arrive';
+
+export type ManeuverModifier =
+  | 'uturn'
+  | 'sharp right'
+  | 'right'
+  | 'slight right'
+  | 'straight'
+  | 'slight left'
+  | 'left'
+  | 'sharp left';
+
+export interface RouteStep {
+  maneuver: { type: ManeuverType; modifier?: ManeuverModifier };
+  instruction: string;
+  // Road name or number the step travels along, empty when unnamed
+  name: string;
+  distance: number;
+  duration: number;
+  location: LatLng;
+  // Stretch of the route this step covers, for highlighting on the map
+  geometry: LatLng[];
+}
+
+// Leave at, or arrive by, a moment in milliseconds since the epoch
+export interface TripTime {
+  type: 'depart' | 'arrive';
+  at: number;
+}
+
+export interface RouteRequest {
+  // Ordered stops, at least a start and an end
+  waypoints: LatLng[];
+  profile: RoutingProfile;
+  // How many alternatives to the best route to look for. Providers only
+  // offer alternatives between exactly two waypoints.
+  alternatives?: number;
+  // Kinds of road to stay off. Providers fail with RouteNotFoundError when no
+  // route satisfies them and with RoutingProviderError for ones they cannot honour.
+  avoid?: Avoidance[];
+  // Without a time the route is timed at free-flow speeds
+  time?: TripTime;
+  // Seconds spent at each waypoint before going on, e.g. charging, by index.
+  // Departure and arrival allow for them; durations are driving time only.
+  stopTimes?: number[];
+  signal?: AbortSignal;
+}
+
+// Cost of the avoidances compared with the unrestricted route
+export interface AvoidanceImpact {
+  // What the unrestricted route would have used: toll plazas and ferry
+  // crossings are counts, the rest metres
+  avoided: Partial<Record<Avoidance, number>>;
+  extraDistance: number;
+  extraDuration: number;
+}
+
+// Stretch of the route between two consecutive waypoints
+export interface RouteLeg {
+  distance: number;
+  duration: number;
+}
+
+export interface RouteResponse {
+  geometry: LatLng[];
+  // Metres and seconds
+  distance: number;
+  duration: number;
+  legs: RouteLeg[];
+  steps: RouteStep[];
+  // Main roads used, e.g. "NH16, NH65"
+  summary: string;
+  // Metres travelled on each class of road, where the provider reports it
+  roadClasses: Partial<Record<RoadClass, number>>;
+  // Set when avoidances were requested and the provider can measure them
+  avoidance?: AvoidanceImpact;
+  // Names of the toll plazas crossed, in order, where the provider knows them
+  tollPlazas?: string[];
+  // Milliseconds since the epoch, set when the request gave a time
+  departure?: number;
+  arrival?: number;
+  alternatives?: RouteResponse[];
+}
+
+export interface MatrixRequest {
+  sources: LatLng[];
+  destinations: LatLng[];
+  profile: RoutingProfile;
+  signal?: AbortSignal;
+}
+
+// Row per source, column per destination; null where no route exists
+export interface MatrixResponse {
+  distances: (number | null)[][];
+  durations: (number | null)[][];
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  // Whether durations depend on the time of day
+  readonly timeDependent: boolean;
+  route(request: RouteRequest): Promise<RouteResponse>;
+  matrix(request: MatrixRequest): Promise<MatrixResponse>;
+}
+
+// Raised when a remote provider is unreachable or answers with an error
+export class RoutingProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'RoutingProviderError';
+  }
+}
+
+export const totalStopTime = (stopTimes: number[] = []) => stopTimes.reduce((sum, seconds) => sum + seconds, 0);
+
+// Departure and arrival for providers whose durations ignore the time of day
+export function fixedSchedule(
+  time: TripTime | undefined,
+  duration: number,
+  stopTimes?: number[],
+): Pick<RouteResponse, 'departure' | 'arrival'> {
+  if (!time) return {};
+  const elapsed = (duration + totalStopTime(stopTimes)) * 1000;
+  const departure = time.type === 'depart' ? time.at : time.at - elapsed;
+  return { departure, arrival: departure + elapsed };
+}
+
+// Instruction text, e.g. "Turn right onto NH16 towards Eluru"
+export function describeManeuver(
+  type: ManeuverType,
+  modifier: ManeuverModifier | undefined,
+  name: string,
+  towards?: string,
+): string {
+  const onto = name ? ` onto ${name}` : '';
+  const heading = towards ? ` towards ${towards}` : '';
+  switch (type) {
+    case 'depart':
+      return `${name ? `Head out on ${name}` : 'Head out'}${heading}`;
+    case 'arrive':
+      return 'Arrive at your destination';
+    case 'waypoint':
+      return 'Arrive at your stop';
+    case 'roundabout':
+      return `Take the roundabout${onto}${heading}`;
+    case 'fork':
+      return `Keep ${modifier?.includes('left') ? 'left' : 'right'}${onto}${heading}`;
+    case 'continue':
+      return `${name ? `Continue on ${name}` : 'Continue straight'}${heading}`;
+    case 'turn':
+      if (modifier === 'uturn') return `Make a U-turn${onto}${heading}`;
+      if (!modifier || modifier === 'straight') return `${name ? `Continue onto ${name}` : 'Continue straight'}${heading}`;
+      return `Turn ${modifier}${onto}${heading}`;
+  }
+}
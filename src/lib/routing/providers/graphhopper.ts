@@ -0,0 +1,231 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { listAvoidances, type Avoidance } from '../avoid';
+import { RouteNotFoundError } from '../engine';
+import type { RoadClass } from '../graph';
+import {
+  describeManeuver,
+  fixedSchedule,
+  RoutingProviderError,
+  type ManeuverModifier,
+  type ManeuverType,
+  type MatrixRequest,
+  type MatrixResponse,
+  type RouteLeg,
+  type RouteRequest,
+  type RouteResponse,
+  type RouteStep,
+  type RoutingProfile,
+  type RoutingProvider,
+} from '../provider';
+import { requestJson, trimTrailingSlash } from './http';
+
+const PROFILES: Record<RoutingProfile, string> = {
+  car: 'car',
+  'two-wheeler': 'scooter',
+  bus: 'bus',
+  truck: 'truck',
+  bicycle: 'bike',
+  walking: 'foot',
+};
+
+// Custom model conditions for the roads each avoidance rules out. OSM has no
+// tag for ghat sections, so those cannot be avoided.
+const AVOID_CONDITIONS: Partial<Record<Avoidance, string>> = {
+  tolls: 'toll == HGV || toll == ALL',
+  national: 'road_class == MOTORWAY || road_class == TRUNK',
+  unpaved: 'surface == UNPAVED || surface == GRAVEL || surface == GROUND || surface == DIRT',
+  ferries: 'road_environment == FERRY',
+};
+
+interface GraphHopperInstruction {
+  distance: number;
+  // Milliseconds
+  time: number;
+  text: string;
+  street_name: string;
+  sign: number;
+  interval: [number, number];
+}
+
+interface GraphHopperPath {
+  distance: number;
+  time: number;
+  points: { type: 'LineString'; coordinates: [number, number][] };
+  instructions: GraphHopperInstruction[];
+  // [fromIndex, toIndex, value] intervals over the path coordinates
+  details?: { road_class?: [number, number, string][] };
+}
+
+interface GraphHopperResponse {
+  message?: string;
+  // An array of error details on failure, an object of search statistics on success
+  hints?: { message: string; details?: string }[] | Record<string, number>;
+  paths?: GraphHopperPath[];
+}
+
+interface GraphHopperMatrixResponse {
+  message?: string;
+  distances?: (number | null)[][];
+  // Seconds
+  times?: (number | null)[][];
+}
+
+// GraphHopper instruction signs, see the "instructions" section of its API docs
+const SIGNS: Record<number, { type: ManeuverType; modifier?: ManeuverModifier }> = {
+  [-98]: { type: 'turn', modifier: 'uturn' },
+  [-8]: { type: 'turn', modifier: 'uturn' },
+  [-7]: { type: 'fork', modifier: 'slight left' },
+  [-3]: { type: 'turn', modifier: 'sharp left' },
+  [-2]: { type: 'turn', modifier: 'left' },
+  [-1]: { type: 'turn', modifier: 'slight left' },
+  0: { type: 'continue', modifier: 'straight' },
+  1: { type: 'turn', modifier: 'slight right' },
+  2: { type: 'turn', modifier: 'right' },
+  3: { type: 'turn', modifier: 'sharp right' },
+  4: { type: 'arrive' },
+  5: { type: 'waypoint' },
+  6: { type: 'roundabout' },
+  7: { type: 'fork', modifier: 'slight right' },
+  8: { type: 'turn', modifier: 'uturn' },
+};
+
+const isConnectionNotFound = (body: GraphHopperResponse | null) =>
+  (Array.isArray(body?.hints) && body.hints.some((hint) => hint.details?.includes('ConnectionNotFoundException'))) ||
+  !!body?.message?.startsWith('Connection between locations not found');
+
+// GraphHopper uses OSM highway tags for road classes
+const ROAD_CLASSES: Record<string, RoadClass> = {
+  motorway: 'motorway',
+  trunk: 'national',
+  primary: 'state',
+  secondary: 'district',
+  tertiary: 'district',
+};
+
+function toResponse(path: GraphHopperPath): RouteResponse {
+  const geometry = path.points.coordinates.map(([lng, lat]): LatLng => [lat, lng]);
+  const steps = path.instructions.map((instruction, index): RouteStep => {
+    const { type, modifier } =
+      index === 0 ? { type: 'depart' as const, modifier: undefined } : SIGNS[instruction.sign] ?? SIGNS[0];
+    return {
+      maneuver: { type, modifier },
+      instruction: describeManeuver(type, modifier, instruction.street_name),
+      name: instruction.street_name,
+      distance: instruction.distance,
+      duration: instruction.time / 1000,
+      location: geometry[instruction.interval[0]],
+      geometry: geometry.slice(instruction.interval[0], instruction.interval[1] + 1),
+    };
+  });
+
+  // GraphHopper has no per-leg totals, so split the instructions at each "via reached"
+  const legs: RouteLeg[] = [{ distance: 0, duration: 0 }];
+  for (const step of steps) {
+    const leg = legs[legs.length - 1];
+    leg.distance += step.distance;
+    leg.duration += step.duration;
+    if (step.maneuver.type === 'waypoint') legs.push({ distance: 0, duration: 0 });
+  }
+
+  const roadClasses: Partial<Record<RoadClass, number>> = {};
+  for (const [from, to, value] of path.details?.road_class ?? []) {
+    const roadClass = ROAD_CLASSES[value] ?? 'village';
+    let distance = 0;
+    for (let i = from; i < to; i++) distance += haversineDistance(geometry[i], geometry[i + 1]);
+    roadClasses[roadClass] = (roadClasses[roadClass] ?? 0) + distance;
+  }
+
+  const byStreet = new Map<string, number>();
+  for (const step of steps) {
+    if (step.name) byStreet.set(step.name, (byStreet.get(step.name) ?? 0) + step.distance);
+  }
+  const summary = [...byStreet].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([name]) => name).join(', ');
+
+  return { geometry, distance: path.distance, duration: path.time / 1000, legs, steps, summary, roadClasses };
+}
+
+// Adapter for the GraphHopper HTTP API (`/route`)
+export class GraphHopperRoutingProvider implements RoutingProvider {
+  readonly name = 'GraphHopper';
+  readonly timeDependent = false;
+
+  constructor(private readonly baseUrl: string, private readonly apiKey?: string) {}
+
+  async route({ waypoints, profile, alternatives = 0, avoid = [], time, stopTimes, signal }: RouteRequest): Promise<RouteResponse> {
+    const unsupported = avoid.filter((avoidance) => !AVOID_CONDITIONS[avoidance]);
+    if (unsupported.length > 0) {
+      throw new RoutingProviderError(`GraphHopper cannot avoid ${listAvoidances(unsupported)}`);
+    }
+    const withAlternatives = waypoints.length === 2 && alternatives > 0;
+
+    let response: { status: number; body: GraphHopperResponse | null };
+    if (avoid.length === 0) {
+      const params = new URLSearchParams();
+      waypoints.forEach(([lat, lng]) => params.append('point', `${lat},${lng}`));
+      params.set('profile', PROFILES[profile]);
+      params.set('points_encoded', 'false');
+      params.set('instructions', 'true');
+      params.set('locale', 'en');
+      params.set('details', 'road_class');
+      if (withAlternatives) {
+        params.set('algorithm', 'alternative_route');
+        params.set('alternative_route.max_paths', String(alternatives + 1));
+      }
+      if (this.apiKey) params.set('key', this.apiKey);
+      response = await requestJson(`${trimTrailingSlash(this.baseUrl)}/route?${params}`, signal);
+    } else {
+      // Custom models can only be sent as a POST body, and need the flexible
+      // (non-CH) mode to take effect
+      const key = this.apiKey ? `?${new URLSearchParams({ key: this.apiKey })}` : '';
+      response = await requestJson(`${trimTrailingSlash(this.baseUrl)}/route${key}`, signal, {
+        points: waypoints.map(([lat, lng]) => [lng, lat]),
+        profile: PROFILES[profile],
+        points_encoded: false,
+        instructions: true,
+        locale: 'en',
+        details: ['road_class'],
+        'ch.disable': true,
+        custom_model: {
+          priority: avoid.map((avoidance) => ({ if: AVOID_CONDITIONS[avoidance], multiply_by: '0' })),
+        },
+        ...(withAlternatives && {
+          algorithm: 'alternative_route',
+          'alternative_route.max_paths': alternatives + 1,
+        }),
+      });
+    }
+
+    const { status, body } = response;
+    if (status !== 200 && isConnectionNotFound(body)) throw new RouteNotFoundError(body.message);
+    if (status !== 200 || !body?.paths?.length) {
+      throw new RoutingProviderError(body?.message || `GraphHopper request failed (${status})`, status);
+    }
+
+    const [primary, ...others] = body.paths.map((path) => {
+      const response = toResponse(path);
+      return { ...response, ...fixedSchedule(time, response.duration, stopTimes) };
+    });
+    return others.length > 0 ? { ...primary, alternatives: others } : primary;
+  }
+
+  // Uses the `/matrix` endpoint
+  async matrix({ sources, destinations, profile, signal }: MatrixRequest): Promise<MatrixResponse> {
+    const params = new URLSearchParams();
+    sources.forEach(([lat, lng]) => params.append('from_point', `${lat},${lng}`));
+    destinations.forEach(([lat, lng]) => params.append('to_point', `${lat},${lng}`));
+    params.set('profile', PROFILES[profile]);
+    params.append('out_array', 'distances');
+    params.append('out_array', 'times');
+    params.set('fail_fast', 'false');
+    if (this.apiKey) params.set('key', this.apiKey);
+
+    const { status, body } = await requestJson<GraphHopperMatrixResponse>(
+      `${trimTrailingSlash(this.baseUrl)}/matrix?${params}`,
+      signal,
+    );
+    if (status !== 200 || !body?.distances || !body.times) {
+      throw new RoutingProviderError(body?.message || `GraphHopper matrix request failed (${status})`, status);
+    }
+    return { distances: body.distances, durations: body.times };
+  }
+}
@@ -0,0 +1,36 @@
+import { RoutingProviderError } from '../provider';
+
+export const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// GETs a JSON document, or POSTs `payload` as JSON when given. Error statuses
+// are returned rather than thrown because routing servers explain failures
+// (e.g. "no route") in the body.
+export async function requestJson<T>(
+  url: string,
+  signal?: AbortSignal,
+  payload?: unknown,
+): Promise<{ status: number; body: T | null }> {
+  let response: Response;
+  try {
+    response =
+      payload === undefined
+        ? await fetch(url, { signal, headers: { Accept: 'application/json' } })
+        : await fetch(url, {
+            method: 'POST',
+            signal,
+            headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new RoutingProviderError(`Routing server unreachable: ${(error as Error).message}`);
+  }
+
+  let body: T | null = null;
+  try {
+    body = (await response.json()) as T;
+  } catch {
+    // Non-JSON error pages are reported through the status code alone
+  }
+  return { status: response.status, body };
+}
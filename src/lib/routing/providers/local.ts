@@ -0,0 +1,127 @@
+import type { LatLng } from '@/lib/geo';
+import { avoidanceExposure, tollPlazasPassed, type Avoidance } from '../avoid';
+import { findAlternativeRoutes, findRoute, RouteNotFoundError, type RouteOptions, type RouteResult } from '../engine';
+import { loadRoadGraph, type RoadGraph } from '../graph';
+import {
+  totalStopTime,
+  type AvoidanceImpact,
+  type MatrixRequest,
+  type MatrixResponse,
+  type RouteRequest,
+  type RouteResponse,
+  type RoutingProvider,
+} from '../provider';
+import { TRAVEL_PROFILES } from '../profiles';
+import { latestDeparture, loadTrafficModel } from '../traffic';
+import { buildSteps } from '../steps';
+import { roadClassBreakdown, routeSummary } from '../summary';
+
+const total = (legs: RouteResult[], key: 'distance' | 'duration') => legs.reduce((sum, leg) => sum + leg[key], 0);
+
+// One route per leg, each leg setting off once the previous one has arrived and stopped
+function legsBetween(
+  graph: RoadGraph,
+  waypoints: LatLng[],
+  options: RouteOptions,
+  stopTimes: number[] = [],
+): RouteResult[] {
+  const legs: RouteResult[] = [];
+  let departAt = options.departAt;
+  for (let i = 1; i < waypoints.length; i++) {
+    const leg = findRoute(graph, waypoints[i - 1], waypoints[i], { ...options, departAt });
+    legs.push(leg);
+    if (departAt !== undefined) departAt += (leg.duration + (stopTimes[i] ?? 0)) * 1000;
+  }
+  return legs;
+}
+
+// What keeping to the avoidances costs compared with the unrestricted route
+function avoidanceImpact(
+  graph: RoadGraph,
+  legs: RouteResult[],
+  unrestricted: RouteResult[],
+  avoid: Avoidance[],
+): AvoidanceImpact {
+  const used = avoidanceExposure(graph, legs.flatMap((leg) => leg.segments));
+  const usual = avoidanceExposure(graph, unrestricted.flatMap((leg) => leg.segments));
+  return {
+    avoided: Object.fromEntries(avoid.map((avoidance) => [avoidance, Math.max(0, usual[avoidance] - used[avoidance])])),
+    extraDistance: total(legs, 'distance') - total(unrestricted, 'distance'),
+    extraDuration: total(legs, 'duration') - total(unrestricted, 'duration'),
+  };
+}
+
+function toResponse(graph: RoadGraph, legs: RouteResult[], avoidance?: AvoidanceImpact): RouteResponse {
+  const segments = legs.flatMap((leg) => leg.segments);
+  return {
+    geometry: legs.flatMap((leg, i): LatLng[] => (i === 0 ? leg.geometry : leg.geometry.slice(1))),
+    distance: total(legs, 'distance'),
+    duration: total(legs, 'duration'),
+    legs: legs.map(({ distance, duration }) => ({ distance, duration })),
+    steps: buildSteps(graph, legs),
+    summary: routeSummary(segments),
+    roadClasses: roadClassBreakdown(segments),
+    avoidance,
+    tollPlazas: tollPlazasPassed(graph, segments).map((plaza) => plaza.name),
+  };
+}
+
+// Routes in the browser over the bundled road graph
+export class LocalRoutingProvider implements RoutingProvider {
+  readonly name = 'Offline road graph';
+  readonly timeDependent = true;
+
+  async route({ waypoints, profile, alternatives = 0, avoid = [], time, stopTimes }: RouteRequest): Promise<RouteResponse> {
+    const [graph, traffic] = await Promise.all([loadRoadGraph(), time ? loadTrafficModel() : undefined]);
+    const timed = { profile: TRAVEL_PROFILES[profile], traffic };
+    const stopped = totalStopTime(stopTimes);
+
+    // For "arrive by", find when to leave along the best route first
+    const departAt =
+      time?.type === 'arrive'
+        ? latestDeparture(time.at, (at) =>
+            total(legsBetween(graph, waypoints, { ...timed, avoid, departAt: at }, stopTimes), 'duration') + stopped,
+          )
+        : time?.at;
+    const options: RouteOptions = { ...timed, avoid, departAt };
+
+    const routes =
+      waypoints.length === 2 && alternatives > 0
+        ? findAlternativeRoutes(graph, waypoints[0], waypoints[1], alternatives + 1, options).map((route) => [route])
+        : [legsBetween(graph, waypoints, options, stopTimes)];
+
+    const unrestricted = avoid.length > 0 ? legsBetween(graph, waypoints, { ...timed, departAt }, stopTimes) : null;
+    const [primary, ...others] = routes.map((legs) => ({
+      ...toResponse(graph, legs, unrestricted ? avoidanceImpact(graph, legs, unrestricted, avoid) : undefined),
+      ...(departAt !== undefined && { departure: departAt, arrival: departAt + (total(legs, 'duration') + stopped) * 1000 }),
+    }));
+    return others.length > 0 ? { ...primary, alternatives: others } : primary;
+  }
+
+  async matrix({ sources, destinations, profile }: MatrixRequest): Promise<MatrixResponse> {
+    const graph = await loadRoadGraph();
+    const options = { profile: TRAVEL_PROFILES[profile] };
+    const distances: (number | null)[][] = [];
+    const durations: (number | null)[][] = [];
+
+    for (const from of sources) {
+      const distanceRow: (number | null)[] = [];
+      const durationRow: (number | null)[] = [];
+      for (const to of destinations) {
+        try {
+          const route = findRoute(graph, from, to, options);
+          distanceRow.push(route.distance);
+          durationRow.push(route.duration);
+        } catch (error) {
+          if (!(error instanceof RouteNotFoundError)) throw error;
+          distanceRow.push(null);
+          durationRow.push(null);
+        }
+      }
+      distances.push(distanceRow);
+      durations.push(durationRow);
+    }
+
+    return { distances, durations };
+  }
+}
@@ -0,0 +1,187 @@
+import type { LatLng } from '@/lib/geo';
+import { listAvoidances, type Avoidance } from '../avoid';
+import { RouteNotFoundError } from '../engine';
+import type { RoadClass } from '../graph';
+import {
+  describeManeuver,
+  fixedSchedule,
+  RoutingProviderError,
+  type ManeuverModifier,
+  type ManeuverType,
+  type MatrixRequest,
+  type MatrixResponse,
+  type RouteRequest,
+  type RouteResponse,
+  type RouteStep,
+  type RoutingProfile,
+  type RoutingProvider,
+} from '../provider';
+import { requestJson, trimTrailingSlash } from './http';
+
+// Stock OSRM servers only ship car, bicycle and foot profiles
+const PROFILES: Record<RoutingProfile, string> = {
+  car: 'driving',
+  'two-wheeler': 'driving',
+  bus: 'driving',
+  truck: 'driving',
+  bicycle: 'cycling',
+  walking: 'foot',
+};
+
+// Exclude classes of the stock car profile; OSRM has no notion of ghat or
+// unpaved roads, and Indian national highways are mostly tagged trunk
+const EXCLUDES: Partial<Record<Avoidance, string>> = {
+  tolls: 'toll',
+  ferries: 'ferry',
+};
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  ref?: string;
+  // Signposted destinations, e.g. "Eluru, Rajahmundry"
+  destinations?: string;
+  mode: string;
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  maneuver: { type: string; modifier?: ManeuverModifier; location: [number, number] };
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  legs: { distance: number; duration: number; summary: string; steps: OsrmStep[] }[];
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: OsrmRoute[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: (number | null)[][];
+  durations?: (number | null)[][];
+}
+
+const formatCoordinates = (points: LatLng[]) => points.map(([lat, lng]) => `${lng},${lat}`).join(';');
+
+// OSRM does not report road classes directly, so infer them from road numbers
+function roadClass(step: OsrmStep): RoadClass {
+  if (step.mode === 'ferry') return 'ferry';
+  const ref = step.ref?.toUpperCase() ?? '';
+  if (ref.startsWith('NE')) return 'motorway';
+  if (ref.startsWith('NH')) return 'national';
+  if (ref.startsWith('SH')) return 'state';
+  return step.name ? 'district' : 'village';
+}
+
+function maneuverType(type: string, isLastLeg: boolean): ManeuverType {
+  switch (type) {
+    case 'depart':
+      return 'depart';
+    case 'arrive':
+      return isLastLeg ? 'arrive' : 'waypoint';
+    case 'fork':
+      return 'fork';
+    case 'roundabout':
+    case 'rotary':
+    case 'roundabout turn':
+    case 'exit roundabout':
+    case 'exit rotary':
+      return 'roundabout';
+    case 'continue':
+    case 'new name':
+    case 'notification':
+      return 'continue';
+    default:
+      return 'turn';
+  }
+}
+
+function toResponse(route: OsrmRoute): RouteResponse {
+  const roadClasses: Partial<Record<RoadClass, number>> = {};
+  const steps = route.legs.flatMap((leg, legIndex) =>
+    leg.steps.map((step): RouteStep => {
+      const type = maneuverType(step.maneuver.type, legIndex === route.legs.length - 1);
+      const name = step.ref || step.name;
+      const [lng, lat] = step.maneuver.location;
+      const stepClass = roadClass(step);
+      roadClasses[stepClass] = (roadClasses[stepClass] ?? 0) + step.distance;
+      return {
+        maneuver: { type, modifier: step.maneuver.modifier },
+        instruction: describeManeuver(type, step.maneuver.modifier, name, step.destinations),
+        name,
+        distance: step.distance,
+        duration: step.duration,
+        location: [lat, lng],
+        geometry: step.geometry.coordinates.map(([lng, lat]): LatLng => [lat, lng]),
+      };
+    }),
+  );
+
+  return {
+    geometry: route.geometry.coordinates.map(([lng, lat]): LatLng => [lat, lng]),
+    distance: route.distance,
+    duration: route.duration,
+    legs: route.legs.map(({ distance, duration }) => ({ distance, duration })),
+    steps,
+    summary: route.legs.map((leg) => leg.summary).filter(Boolean).join(', '),
+    roadClasses,
+  };
+}
+
+// Adapter for the OSRM HTTP API (`/route/v1/{profile}/{coordinates}`)
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'OSRM';
+  readonly timeDependent = false;
+
+  constructor(private readonly baseUrl: string) {}
+
+  async route({ waypoints, profile, alternatives = 0, avoid = [], time, stopTimes, signal }: RouteRequest): Promise<RouteResponse> {
+    const unsupported = avoid.filter((avoidance) => !EXCLUDES[avoidance]);
+    if (unsupported.length > 0) {
+      throw new RoutingProviderError(`OSRM cannot avoid ${listAvoidances(unsupported)}`);
+    }
+
+    const coordinates = formatCoordinates(waypoints);
+    const url =
+      `${trimTrailingSlash(this.baseUrl)}/route/v1/${PROFILES[profile]}/${coordinates}` +
+      '?overview=full&geometries=geojson&steps=true' +
+      (waypoints.length === 2 && alternatives > 0 ? `&alternatives=${alternatives}` : '') +
+      (avoid.length > 0 ? `&exclude=${avoid.map((avoidance) => EXCLUDES[avoidance]).join(',')}` : '');
+
+    const { status, body } = await requestJson<OsrmResponse>(url, signal);
+    if (body?.code === 'NoRoute' || body?.code === 'NoSegment') {
+      throw new RouteNotFoundError(body.message);
+    }
+    if (status !== 200 || body?.code !== 'Ok' || !body.routes?.length) {
+      throw new RoutingProviderError(body?.message || `OSRM request failed (${status})`, status);
+    }
+
+    const [primary, ...others] = body.routes.map((route) => {
+      const response = toResponse(route);
+      return { ...response, ...fixedSchedule(time, response.duration, stopTimes) };
+    });
+    return others.length > 0 ? { ...primary, alternatives: others } : primary;
+  }
+
+  // Uses the `/table/v1` service with sources listed before destinations
+  async matrix({ sources, destinations, profile, signal }: MatrixRequest): Promise<MatrixResponse> {
+    const coordinates = formatCoordinates([...sources, ...destinations]);
+    const sourceIndexes = sources.map((_, i) => i).join(';');
+    const destinationIndexes = destinations.map((_, i) => sources.length + i).join(';');
+    const url =
+      `${trimTrailingSlash(this.baseUrl)}/table/v1/${PROFILES[profile]}/${coordinates}` +
+      `?sources=${sourceIndexes}&destinations=${destinationIndexes}&annotations=distance,duration`;
+
+    const { status, body } = await requestJson<OsrmTableResponse>(url, signal);
+    if (status !== 200 || body?.code !== 'Ok' || !body.distances || !body.durations) {
+      throw new RoutingProviderError(body?.message || `OSRM table request failed (${status})`, status);
+    }
+    return { distances: body.distances, durations: body.durations };
+  }
+}
@@ -0,0 +1,88 @@
+import { haversineDistance, initialBearing, type LatLng } from '@/lib/geo';
+import type { RouteResult, RouteSegment } from './engine';
+import type { RoadGraph, RoadInfo } from './graph';
+import { describeManeuver, type ManeuverModifier, type RouteStep } from './provider';
+
+export const roadLabel = (road: RoadInfo) => road.ref || road.name;
+
+// Classifies the change of heading between two stretches of road
+export function turnModifier(bearingIn: number, bearingOut: number): ManeuverModifier {
+  const delta = ((bearingOut - bearingIn + 540) % 360) - 180;
+  const angle = Math.abs(delta);
+  const side = delta > 0 ? 'right' : 'left';
+  if (angle < 20) return 'straight';
+  if (angle < 60) return `slight ${side}`;
+  if (angle < 130) return side;
+  if (angle < 165) return `sharp ${side}`;
+  return 'uturn';
+}
+
+// Consecutive segments on the same road
+function stretches(segments: RouteSegment[]): RouteSegment[][] {
+  const groups: RouteSegment[][] = [];
+  for (const segment of segments) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].edge.road === segment.edge.road) last.push(segment);
+    else groups.push([segment]);
+  }
+  return groups;
+}
+
+// Town a stretch leads to: its last node, or for a stretch ending part-way
+// along an edge, whichever end of that edge it is heading for
+function destinationName(graph: RoadGraph, last: RouteSegment): string {
+  if (last.endNode !== null) return graph.nodeNames[last.endNode];
+  const { from, to } = last.edge;
+  // How much closer the stretch brings us to a node (negative when approaching)
+  const change = (node: number) =>
+    haversineDistance(last.end, graph.nodes[node]) - haversineDistance(last.start, graph.nodes[node]);
+  return graph.nodeNames[change(from) < change(to) ? from : to];
+}
+
+// One step per stretch of road, with the turn onto it worked out from the
+// headings either side of the junction and the town the stretch leads to as
+// its "towards". Each leg ends with a step at its stop.
+export function buildSteps(graph: RoadGraph, legs: RouteResult[]): RouteStep[] {
+  const steps: RouteStep[] = [];
+
+  legs.forEach((leg, legIndex) => {
+    let previous: RouteSegment | null = null;
+
+    for (const stretch of stretches(leg.segments)) {
+      const first = stretch[0];
+      const last = stretch[stretch.length - 1];
+      const name = roadLabel(first.edge.road);
+      const towards = destinationName(graph, last);
+
+      const type = previous ? 'turn' : 'depart';
+      const modifier = previous
+        ? turnModifier(initialBearing(previous.start, previous.end), initialBearing(first.start, first.end))
+        : undefined;
+
+      steps.push({
+        maneuver: { type, modifier },
+        instruction: describeManeuver(type, modifier, name, towards),
+        name,
+        distance: stretch.reduce((sum, segment) => sum + segment.distance, 0),
+        duration: stretch.reduce((sum, segment) => sum + segment.duration, 0),
+        location: first.start,
+        geometry: [first.start, ...stretch.map((segment): LatLng => segment.end)],
+      });
+      previous = last;
+    }
+
+    const type = legIndex === legs.length - 1 ? 'arrive' : 'waypoint';
+    const location = leg.geometry[leg.geometry.length - 1];
+    steps.push({
+      maneuver: { type },
+      instruction: describeManeuver(type, undefined, ''),
+      name: '',
+      distance: 0,
+      duration: 0,
+      location,
+      geometry: [location],
+    });
+  });
+
+  return steps;
+}
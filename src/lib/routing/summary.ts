@@ -0,0 +1,23 @@
+import type { RouteSegment } from './engine';
+import type { RoadClass } from './graph';
+import { roadLabel } from './steps';
+
+// Metres travelled on each class of road
+export function roadClassBreakdown(segments: Pick<RouteSegment, 'edge' | 'distance'>[]): Partial<Record<RoadClass, number>> {
+  const breakdown: Partial<Record<RoadClass, number>> = {};
+  for (const { edge, distance } of segments) {
+    breakdown[edge.road.class] = (breakdown[edge.road.class] ?? 0) + distance;
+  }
+  return breakdown;
+}
+
+// "NH16, NH65": the two longest-travelled roads, in the order they are driven
+export function routeSummary(segments: RouteSegment[]): string {
+  const totals = new Map<string, number>();
+  for (const { edge, distance } of segments) {
+    const label = roadLabel(edge.road);
+    totals.set(label, (totals.get(label) ?? 0) + distance);
+  }
+  const main = new Set([...totals].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([label]) => label));
+  return [...totals.keys()].filter((label) => main.has(label)).join(', ');
+}
@@ -0,0 +1,102 @@
+import { RouteNotFoundError } from './engine';
+import type { RoadClass, RoadEdge } from './graph';
+
+// On-disk format of public/data/traffic-profiles.json. A profile holds a
+// speed factor for every hour of the week in Indian Standard Time: seven rows
+// of 24 values, Sunday first as in Date.getDay(). A factor of 0 closes the
+// road for that hour.
+export interface RawTrafficProfiles {
+  version: number;
+  profiles: Record<string, number[][]>;
+  // Profile used for each road class unless the edge has its own
+  defaults: Record<RoadClass, string>;
+  // [edgeId, profileName] overrides, e.g. city approaches and temple ghats
+  edges: [number, string][];
+}
+
+export interface TrafficModel {
+  // Multiplier on the free-flow speed of the edge when entered at `time`
+  // (milliseconds since the epoch)
+  factor(edge: RoadEdge, time: number): number;
+  // Largest factor in any profile, which bounds how fast traffic can get
+  maxFactor: number;
+}
+
+const TRAFFIC_URL = `${import.meta.env.BASE_URL}data/traffic-profiles.json`;
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+// India keeps +5:30 all year, so a fixed offset gives its clock whatever
+// time zone the browser is set to
+const IST_OFFSET = 5.5 * HOUR;
+
+// Weekday (Sunday = 0) and hour in India at `time`
+export function istDayHour(time: number): [day: number, hour: number] {
+  const ist = new Date(time + IST_OFFSET);
+  return [ist.getUTCDay(), ist.getUTCHours()];
+}
+
+// Midnight in India at the start of the day containing `time`
+export const istMidnight = (time: number) => time - ((((time + IST_OFFSET) % DAY) + DAY) % DAY);
+
+export function buildTrafficModel(raw: RawTrafficProfiles): TrafficModel {
+  const byEdge = new Map(raw.edges.map(([id, name]) => [id, raw.profiles[name]]));
+  const maxFactor = Math.max(...Object.values(raw.profiles).flat(2));
+
+  return {
+    maxFactor,
+    factor(edge, time) {
+      const profile = byEdge.get(edge.id) ?? raw.profiles[raw.defaults[edge.road.class]];
+      if (!profile) return 1;
+      const [day, hour] = istDayHour(time);
+      return profile[day][hour];
+    },
+  };
+}
+
+let trafficPromise: Promise<TrafficModel> | null = null;
+
+// Fetches the bundled traffic profiles once per session
+export function loadTrafficModel(): Promise<TrafficModel> {
+  if (!trafficPromise) {
+    trafficPromise = fetch(TRAFFIC_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load traffic profiles (${response.status})`);
+        return response.json() as Promise<RawTrafficProfiles>;
+      })
+      .then(buildTrafficModel)
+      .catch((error) => {
+        trafficPromise = null;
+        throw error;
+      });
+  }
+  return trafficPromise;
+}
+
+// Times leaving earlier is tried once the search stops settling
+const MAX_EARLIER_STEPS = 24;
+
+// Latest departure that still arrives by `arriveBy`, given the trip duration
+// in seconds for a departure time. Traffic makes the duration depend on the
+// departure, so this walks the departure back by the overshoot until the
+// arrival lands within a minute before the deadline. Where that does not
+// settle, e.g. at the edge of a rush hour, it leaves earlier until on time.
+export function latestDeparture(arriveBy: number, tripDuration: (departAt: number) => number): number {
+  const slackFor = (departAt: number) => {
+    const slack = arriveBy - (departAt + tripDuration(departAt) * 1000);
+    if (!Number.isFinite(slack)) throw new RouteNotFoundError('No departure time arrives by the deadline');
+    return slack;
+  };
+  let departAt = arriveBy - tripDuration(arriveBy) * 1000;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const slack = slackFor(departAt);
+    if (slack >= 0 && slack < 60_000) return departAt;
+    departAt += slack;
+  }
+  for (let attempt = 0; attempt < MAX_EARLIER_STEPS; attempt++) {
+    const slack = slackFor(departAt);
+    if (slack >= 0) return departAt;
+    departAt += Math.min(slack, -5 * 60_000);
+  }
+  throw new RouteNotFoundError('No departure time arrives by the deadline');
+}
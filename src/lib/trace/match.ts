@@ -0,0 +1,308 @@
+import { haversineDistance, projectOnSegment, type LatLng } from '@/lib/geo';
+import { districtAt, type Gazetteer } from '@/lib/places/gazetteer';
+import { MinHeap } from '@/lib/routing/heap';
+import type { RoadEdge, RoadGraph } from '@/lib/routing/graph';
+import type { Trace, TracePoint } from './parse';
+
+export interface MatchOptions {
+  // Typical distance in metres between a fix and the road it was taken on.
+  // Generous, as the bundled roads are straight lines between towns.
+  sigma?: number;
+  // How far in metres the distance by road between two fixes may usually
+  // differ from the straight-line distance between them
+  beta?: number;
+  // Roads further than this from a fix are not considered, metres
+  radius?: number;
+  // Nearest roads considered for each fix
+  maxCandidates?: number;
+  // Fixes closer than this to the last one kept are dropped before matching,
+  // metres. Spacing fixes about `sigma` apart stops jitter reading as doubling back.
+  minSpacing?: number;
+}
+
+// Part of an edge travelled between two matched fixes
+export interface TraceSegment {
+  edge: RoadEdge;
+  start: LatLng;
+  end: LatLng;
+  distance: number;
+}
+
+// A fix placed on the road it was most likely taken on
+export interface MatchedFix {
+  // Position in the original trace
+  index: number;
+  point: LatLng;
+  time: number | null;
+  // Metres travelled along the matched path when this fix was taken
+  along: number;
+}
+
+export interface MatchedTrace {
+  trace: Trace;
+  // In travel order; breaks where no road connects consecutive fixes are
+  // jumped without adding distance
+  segments: TraceSegment[];
+  fixes: MatchedFix[];
+  // Fixes kept for matching that were too far from any road
+  unmatched: number;
+  distance: number;
+}
+
+type Fix = TracePoint & { index: number };
+
+interface Candidate {
+  edge: RoadEdge;
+  // Fraction along the edge from `edge.from` to `edge.to`
+  t: number;
+  point: LatLng;
+  // Log-probability of the fix being taken here, before transitions
+  emission: number;
+}
+
+// Shortest distance by road from each node to every other, and the last
+// edge on the way, for joining up candidates on different edges
+interface ShortestPaths {
+  distance: Float64Array[];
+  previous: Int32Array[];
+}
+
+const pathCache = new WeakMap<RoadGraph, ShortestPaths>();
+
+function shortestPaths(graph: RoadGraph): ShortestPaths {
+  const cached = pathCache.get(graph);
+  if (cached) return cached;
+
+  const count = graph.nodes.length;
+  const paths: ShortestPaths = { distance: [], previous: [] };
+  for (let source = 0; source < count; source++) {
+    const distance = new Float64Array(count).fill(Infinity);
+    const previous = new Int32Array(count).fill(-1);
+    distance[source] = 0;
+    const open = new MinHeap<number>();
+    open.push(source, 0);
+    while (open.size > 0) {
+      const node = open.pop()!;
+      for (const id of graph.adjacency[node]) {
+        const edge = graph.edges[id];
+        const other = edge.from === node ? edge.to : edge.from;
+        const candidate = distance[node] + edge.length;
+        if (candidate < distance[other]) {
+          distance[other] = candidate;
+          previous[other] = id;
+          open.push(other, candidate);
+        }
+      }
+    }
+    paths.distance.push(distance);
+    paths.previous.push(previous);
+  }
+  pathCache.set(graph, paths);
+  return paths;
+}
+
+// Edges on the shortest path from one node to another, in travel order
+function edgePath(graph: RoadGraph, paths: ShortestPaths, from: number, to: number): RoadEdge[] {
+  const edges: RoadEdge[] = [];
+  for (let node = to; node !== from; ) {
+    const edge = graph.edges[paths.previous[from][node]];
+    edges.unshift(edge);
+    node = edge.from === node ? edge.to : edge.from;
+  }
+  return edges;
+}
+
+function candidatesFor(graph: RoadGraph, point: LatLng, sigma: number, radius: number, max: number): Candidate[] {
+  return graph.edges
+    .map((edge) => {
+      const projection = projectOnSegment(point, graph.nodes[edge.from], graph.nodes[edge.to]);
+      const distance = haversineDistance(point, projection.point);
+      return { edge, ...projection, distance, emission: -0.5 * (distance / sigma) ** 2 };
+    })
+    .filter((candidate) => candidate.distance <= radius)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, max);
+}
+
+// The way by road from one candidate to the next: the ends of their edges it
+// leaves and joins by, or null when both are on the same edge
+function connection(paths: ShortestPaths, a: Candidate, b: Candidate) {
+  if (a.edge.id === b.edge.id) {
+    return { distance: Math.abs(b.t - a.t) * a.edge.length, exit: null, entry: null };
+  }
+  let best = { distance: Infinity, exit: a.edge.from, entry: b.edge.from };
+  for (const [exit, leave] of [[a.edge.from, a.t], [a.edge.to, 1 - a.t]]) {
+    for (const [entry, join] of [[b.edge.from, b.t], [b.edge.to, 1 - b.t]]) {
+      const distance = leave * a.edge.length + paths.distance[exit][entry] + join * b.edge.length;
+      if (distance < best.distance) best = { distance, exit, entry };
+    }
+  }
+  return best;
+}
+
+// Snaps a noisy GPS trace onto the road graph with a hidden Markov model:
+// each fix may lie on any nearby road, more likely the closer it is, and
+// consecutive fixes are more likely joined by a road distance close to the
+// straight-line distance between them. Viterbi picks the likeliest sequence
+// of roads, starting afresh wherever the chain cannot be continued.
+export function matchTrace(
+  graph: RoadGraph,
+  trace: Trace,
+  { sigma = 1000, beta = 2000, radius = 5000, maxCandidates = 5, minSpacing = 1000 }: MatchOptions = {},
+): MatchedTrace {
+  const paths = shortestPaths(graph);
+
+  // Thin out fixes taken while standing still or logged very frequently
+  const thinned: Fix[] = [];
+  trace.points.forEach((fix, index) => {
+    const last = thinned[thinned.length - 1];
+    const isLast = index === trace.points.length - 1;
+    if (!last || isLast || haversineDistance(last.point, fix.point) >= minSpacing) thinned.push({ ...fix, index });
+  });
+
+  // Each chain is a run of fixes with a road connecting every one to the next
+  const chains: { fix: Fix; candidate: Candidate }[][] = [];
+  let layers: { fix: Fix; candidates: Candidate[]; score: number[]; back: number[] }[] = [];
+  let unmatched = 0;
+
+  const closeChain = () => {
+    if (layers.length === 0) return;
+    const last = layers[layers.length - 1];
+    let k = last.score.indexOf(Math.max(...last.score));
+    const chain = [];
+    for (let i = layers.length - 1; i >= 0; i--) {
+      chain.unshift({ fix: layers[i].fix, candidate: layers[i].candidates[k] });
+      k = layers[i].back[k];
+    }
+    chains.push(chain);
+    layers = [];
+  };
+
+  for (const fix of thinned) {
+    const candidates = candidatesFor(graph, fix.point, sigma, radius, maxCandidates);
+    if (candidates.length === 0) {
+      unmatched++;
+      closeChain();
+      continue;
+    }
+
+    const previous = layers[layers.length - 1];
+    if (!previous) {
+      layers.push({ fix, candidates, score: candidates.map((c) => c.emission), back: candidates.map(() => -1) });
+      continue;
+    }
+
+    const straight = haversineDistance(previous.fix.point, fix.point);
+    const score: number[] = [];
+    const back: number[] = [];
+    for (const candidate of candidates) {
+      let best = { score: -Infinity, from: -1 };
+      previous.candidates.forEach((from, j) => {
+        const { distance } = connection(paths, from, candidate);
+        const transition = -Math.abs(distance - straight) / beta;
+        const total = previous.score[j] + transition + candidate.emission;
+        if (total > best.score) best = { score: total, from: j };
+      });
+      score.push(best.score);
+      back.push(best.from);
+    }
+
+    if (score.every((value) => value === -Infinity)) {
+      // No road joins this fix to the last one, so begin a new chain here
+      closeChain();
+      layers.push({ fix, candidates, score: candidates.map((c) => c.emission), back: candidates.map(() => -1) });
+    } else {
+      layers.push({ fix, candidates, score, back });
+    }
+  }
+  closeChain();
+
+  const segments: TraceSegment[] = [];
+  const matched: MatchedFix[] = [];
+  let along = 0;
+  const travel = (edge: RoadEdge, start: LatLng, end: LatLng, distance: number) => {
+    if (distance <= 0) return;
+    segments.push({ edge, start, end, distance });
+    along += distance;
+  };
+
+  for (const chain of chains) {
+    chain.forEach(({ fix, candidate }, i) => {
+      if (i > 0) {
+        const from = chain[i - 1].candidate;
+        const { distance, exit, entry } = connection(paths, from, candidate);
+        if (exit === null || entry === null) {
+          travel(candidate.edge, from.point, candidate.point, distance);
+        } else {
+          travel(from.edge, from.point, graph.nodes[exit], (exit === from.edge.from ? from.t : 1 - from.t) * from.edge.length);
+          let node = exit;
+          for (const edge of edgePath(graph, paths, exit, entry)) {
+            const next = edge.from === node ? edge.to : edge.from;
+            travel(edge, graph.nodes[node], graph.nodes[next], edge.length);
+            node = next;
+          }
+          travel(
+            candidate.edge,
+            graph.nodes[entry],
+            candidate.point,
+            (entry === candidate.edge.from ? candidate.t : 1 - candidate.t) * candidate.edge.length,
+          );
+        }
+      }
+      matched.push({ index: fix.index, point: candidate.point, time: fix.time, along });
+    });
+  }
+
+  return { trace, segments, fixes: matched, unmatched, distance: along };
+}
+
+// Metres travelled in each district. Long segments are split so each piece
+// is credited to the district it lies in.
+export function districtBreakdown(
+  gazetteer: Gazetteer,
+  segments: TraceSegment[],
+  pieceLength = 2000,
+): { district: string; distance: number }[] {
+  const totals = new Map<string, number>();
+  for (const { start, end, distance } of segments) {
+    const pieces = Math.max(1, Math.ceil(distance / pieceLength));
+    for (let i = 0; i < pieces; i++) {
+      const f = (i + 0.5) / pieces;
+      const district = districtAt(gazetteer, [start[0] + (end[0] - start[0]) * f, start[1] + (end[1] - start[1]) * f]);
+      if (!district) continue;
+      totals.set(district, (totals.get(district) ?? 0) + distance / pieces);
+    }
+  }
+  return [...totals].map(([district, distance]) => ({ district, distance })).sort((a, b) => b.distance - a.distance);
+}
+
+// Metres along the matched path at a moment during the trace, interpolating
+// between the timed fixes either side
+export function alongAt(match: MatchedTrace, time: number): number {
+  const timed = match.fixes.filter((fix) => fix.time !== null);
+  if (timed.length === 0) return 0;
+  if (time <= timed[0].time!) return timed[0].along;
+  for (let i = 1; i < timed.length; i++) {
+    const a = timed[i - 1];
+    const b = timed[i];
+    if (time <= b.time!) {
+      const f = b.time! > a.time! ? (time - a.time!) / (b.time! - a.time!) : 1;
+      return a.along + (b.along - a.along) * f;
+    }
+  }
+  return timed[timed.length - 1].along;
+}
+
+// Position on the matched path `along` metres from its start
+export function pointAlong(match: MatchedTrace, along: number): LatLng | null {
+  if (match.segments.length === 0) return match.fixes[0]?.point ?? null;
+  let travelled = 0;
+  for (const { start, end, distance } of match.segments) {
+    if (along <= travelled + distance) {
+      const f = Math.max(0, (along - travelled) / distance);
+      return [start[0] + (end[0] - start[0]) * f, start[1] + (end[1] - start[1]) * f];
+    }
+    travelled += distance;
+  }
+  return match.segments[match.segments.length - 1].end;
+}
@@ -0,0 +1,90 @@
+import type { LatLng } from '@/lib/geo';
+import { parseCsv } from '@/lib/transit/gtfs';
+
+export interface TracePoint {
+  point: LatLng;
+  // Milliseconds since the epoch, null where the device recorded no time
+  time: number | null;
+}
+
+// A GPS track as recorded, in the order it was logged
+export interface Trace {
+  name: string;
+  points: TracePoint[];
+}
+
+export class TraceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceError';
+  }
+}
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LNG_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+const TIME_COLUMNS = ['time', 'timestamp', 'datetime', 'date_time', 'recorded_at'];
+
+const isValidPoint = ([lat, lng]: LatLng) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+// ISO 8601, or a Unix time in seconds or milliseconds
+function parseTime(value: string | null | undefined): number | null {
+  const text = value?.trim();
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = Number(text);
+    return number < 1e11 ? number * 1000 : number;
+  }
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Track points from a GPX file, falling back to route points for files
+// exported from planners rather than recorded
+export function parseGpx(text: string, fallbackName = 'GPS trace'): Trace {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new TraceError('The GPX file is not valid XML');
+
+  let elements = Array.from(doc.getElementsByTagName('trkpt'));
+  if (elements.length === 0) elements = Array.from(doc.getElementsByTagName('rtept'));
+
+  const points = elements.flatMap((element): TracePoint[] => {
+    const point: LatLng = [Number(element.getAttribute('lat')), Number(element.getAttribute('lon'))];
+    if (!isValidPoint(point)) return [];
+    return [{ point, time: parseTime(element.getElementsByTagName('time')[0]?.textContent) }];
+  });
+  if (points.length < 2) throw new TraceError('The GPX file has fewer than two track points');
+
+  const name = (doc.querySelector('trk > name') ?? doc.querySelector('metadata > name'))?.textContent?.trim();
+  return { name: name || fallbackName, points };
+}
+
+// A CSV log with latitude and longitude columns and optionally a time column,
+// recognising the usual header spellings
+export function parseCsvTrace(text: string, name = 'GPS trace'): Trace {
+  const rows = parseCsv(text);
+  const headers = Object.keys(rows[0] ?? {});
+  const column = (candidates: string[]) =>
+    headers.find((header) => candidates.includes(header.trim().toLowerCase()));
+  const lat = column(LAT_COLUMNS);
+  const lng = column(LNG_COLUMNS);
+  const time = column(TIME_COLUMNS);
+  if (!lat || !lng) throw new TraceError('The CSV file needs latitude and longitude columns');
+
+  const points = rows.flatMap((row): TracePoint[] => {
+    const point: LatLng = [Number(row[lat]), Number(row[lng])];
+    if (!isValidPoint(point)) return [];
+    return [{ point, time: time ? parseTime(row[time]) : null }];
+  });
+  if (points.length < 2) throw new TraceError('The CSV file has fewer than two valid points');
+  return { name, points };
+}
+
+// Reads a trace file by its extension
+export function parseTrace(fileName: string, text: string): Trace {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return parseGpx(text, name);
+  if (extension === 'csv' || extension === 'txt') return parseCsvTrace(text, name);
+  throw new TraceError(`Unsupported trace file: ${fileName} (use GPX or CSV)`);
+}
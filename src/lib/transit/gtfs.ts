@@ -0,0 +1,249 @@
+import type { LatLng } from '@/lib/geo';
+
+// The parts of a GTFS feed the journey planner uses. Times are seconds after
+// midnight of the service day and may pass 24:00:00 for trips running late.
+
+export interface GtfsStop {
+  id: string;
+  name: string;
+  point: LatLng;
+}
+
+export interface GtfsRoute {
+  id: string;
+  shortName: string;
+  longName: string;
+  // CSS colours, e.g. "#e11d48"
+  color: string;
+  textColor: string;
+}
+
+export interface GtfsStopTime {
+  stopId: string;
+  arrival: number;
+  departure: number;
+}
+
+export interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign: string;
+  // In stop_sequence order
+  stopTimes: GtfsStopTime[];
+}
+
+export interface GtfsCalendar {
+  // Sunday first, as Date.getDay() counts
+  days: boolean[];
+  // Inclusive, as YYYYMMDD numbers so they compare in order
+  start: number;
+  end: number;
+}
+
+export interface GtfsFeed {
+  agency: string;
+  // IANA zone the times are in, from agency_timezone
+  timezone: string;
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  calendars: Record<string, GtfsCalendar>;
+}
+
+export class GtfsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtfsError';
+  }
+}
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt', 'calendar.txt'];
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Rows of a CSV file as objects keyed by the header, handling quoted fields
+// and the byte-order mark some exporters write
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value !== '')) rows.push(row);
+
+  const [header = [], ...records] = rows;
+  const keys = header.map((key) => key.trim());
+  return records.map((record) => Object.fromEntries(keys.map((key, i) => [key, (record[i] ?? '').trim()])));
+}
+
+// "25:10:00" → 90600 seconds
+export function parseGtfsTime(value: string): number {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value);
+  if (!match) throw new GtfsError(`"${value}" is not a GTFS time`);
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+// Builds a feed from the text of its files, keyed by file name
+export function parseGtfs(files: Record<string, string>): GtfsFeed {
+  const missing = REQUIRED_FILES.filter((name) => files[name] === undefined);
+  if (missing.length > 0) throw new GtfsError(`The feed is missing ${missing.join(', ')}`);
+
+  const stops = parseCsv(files['stops.txt']).map((row): GtfsStop => {
+    const point: LatLng = [Number(row.stop_lat), Number(row.stop_lon)];
+    if (!row.stop_id || point.some((value) => !Number.isFinite(value))) {
+      throw new GtfsError(`Stop "${row.stop_id || row.stop_name}" has no valid position`);
+    }
+    return { id: row.stop_id, name: row.stop_name || row.stop_id, point };
+  });
+
+  const routes = parseCsv(files['routes.txt']).map((row): GtfsRoute => ({
+    id: row.route_id,
+    shortName: row.route_short_name,
+    longName: row.route_long_name,
+    color: `#${row.route_color || '0EA5E9'}`.toLowerCase(),
+    textColor: `#${row.route_text_color || 'FFFFFF'}`.toLowerCase(),
+  }));
+
+  const stopTimes = new Map<string, (GtfsStopTime & { sequence: number })[]>();
+  for (const row of parseCsv(files['stop_times.txt'])) {
+    // Untimed stops in between timepoints are left out rather than interpolated
+    if (!row.arrival_time && !row.departure_time) continue;
+    const arrival = parseGtfsTime(row.arrival_time || row.departure_time);
+    const departure = parseGtfsTime(row.departure_time || row.arrival_time);
+    const times = stopTimes.get(row.trip_id) ?? [];
+    times.push({ stopId: row.stop_id, arrival, departure, sequence: Number(row.stop_sequence) });
+    stopTimes.set(row.trip_id, times);
+  }
+
+  const trips = parseCsv(files['trips.txt']).flatMap((row): GtfsTrip[] => {
+    const times = stopTimes.get(row.trip_id);
+    if (!times || times.length < 2) return [];
+    return [
+      {
+        id: row.trip_id,
+        routeId: row.route_id,
+        serviceId: row.service_id,
+        headsign: row.trip_headsign,
+        stopTimes: times
+          .sort((a, b) => a.sequence - b.sequence)
+          .map(({ stopId, arrival, departure }) => ({ stopId, arrival, departure })),
+      },
+    ];
+  });
+
+  const calendars: Record<string, GtfsCalendar> = {};
+  for (const row of parseCsv(files['calendar.txt'])) {
+    calendars[row.service_id] = {
+      days: WEEKDAYS.map((day) => row[day] === '1'),
+      start: Number(row.start_date),
+      end: Number(row.end_date),
+    };
+  }
+
+  const agency = files['agency.txt'] ? parseCsv(files['agency.txt'])[0] : undefined;
+  const timezone = agency?.agency_timezone || DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-IN', { timeZone: timezone });
+  } catch {
+    throw new GtfsError(`agency.txt has an unknown time zone "${timezone}"`);
+  }
+  return { agency: agency?.agency_name ?? 'Imported feed', timezone, stops, routes, trips, calendars };
+}
+
+// Text files in a zip archive. Handles the stored and deflated entries GTFS
+// exporters write, inflating with the browser's DecompressionStream.
+export async function unzipTextFiles(buffer: ArrayBuffer): Promise<Record<string, string>> {
+  const view = new DataView(buffer);
+  // The end-of-central-directory record sits in the last 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new GtfsError('The file is not a zip archive');
+
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let entry = view.getUint32(end + 16, true);
+  for (let n = view.getUint16(end + 10, true); n > 0; n--) {
+    if (view.getUint32(entry, true) !== 0x02014b50) throw new GtfsError('The zip archive is damaged');
+    const method = view.getUint16(entry + 10, true);
+    const compressedSize = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const extraLength = view.getUint16(entry + 30, true);
+    const commentLength = view.getUint16(entry + 32, true);
+    const localHeader = view.getUint32(entry + 42, true);
+    // Feeds zipped from a folder keep it in the names
+    const name = decoder.decode(new Uint8Array(buffer, entry + 46, nameLength)).split('/').pop()!;
+    entry += 46 + nameLength + extraLength + commentLength;
+    if (!name.endsWith('.txt')) continue;
+
+    const dataStart =
+      localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      files[name] = decoder.decode(data);
+    } else if (method === 8) {
+      const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+      files[name] = await new Response(stream).text();
+    } else {
+      throw new GtfsError(`${name} uses an unsupported zip compression method`);
+    }
+  }
+  return files;
+}
+
+const FEED_URL = `${import.meta.env.BASE_URL}data/gtfs/`;
+const FEED_FILES = ['agency.txt', ...REQUIRED_FILES];
+
+let feedPromise: Promise<GtfsFeed> | null = null;
+
+// Fetches the bundled sample feed once per session
+export function loadBundledFeed(): Promise<GtfsFeed> {
+  if (!feedPromise) {
+    feedPromise = Promise.all(
+      FEED_FILES.map(async (name) => {
+        const response = await fetch(`${FEED_URL}${name}`);
+        if (!response.ok) throw new Error(`Failed to load bus timetables (${response.status})`);
+        return [name, await response.text()] as const;
+      }),
+    )
+      .then((entries) => parseGtfs(Object.fromEntries(entries)))
+      .catch((error) => {
+        feedPromise = null;
+        throw error;
+      });
+  }
+  return feedPromise;
+}
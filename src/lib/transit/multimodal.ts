@@ -0,0 +1,150 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { findRoute, RouteNotFoundError, type RouteResult } from '@/lib/routing/engine';
+import type { RoadGraph } from '@/lib/routing/graph';
+import { TRAVEL_PROFILES } from '@/lib/routing/profiles';
+import type { RoutingProfile } from '@/lib/routing/provider';
+import type { Location } from '@/types/location';
+import type { Railways } from './rail';
+import { planTransit, type TransitJourney, type TransitLeg } from './raptor';
+
+// A stretch by road to or from a station
+export interface RoadLeg {
+  type: 'road';
+  profile: RoutingProfile;
+  from: Location;
+  to: Location;
+  // Metres
+  distance: number;
+  // Milliseconds since the epoch
+  departure: number;
+  arrival: number;
+  geometry: LatLng[];
+}
+
+export type JourneyLeg = TransitLeg | RoadLeg;
+
+// A transit journey that may start and end with a road leg
+export interface MultimodalJourney extends Omit<TransitJourney, 'legs'> {
+  legs: JourneyLeg[];
+}
+
+export interface RailPlanOptions {
+  // How the first and last miles are travelled
+  profile?: RoutingProfile;
+  // Nearest stations tried at each end
+  stationChoices?: number;
+  // Furthest a station may be from either end, metres
+  maxAccess?: number;
+}
+
+// Time to buy a ticket and find the platform, and to get out of the station
+const BOARDING_TIME = 15 * 60;
+const ALIGHTING_TIME = 5 * 60;
+// Stations closer than this are walked to rather than driven to
+const ROAD_LEG_MIN = 300;
+
+const stationLocation = (railways: Railways, code: string): Location => {
+  const station = railways.stations.find((candidate) => candidate.code === code)!;
+  return { name: station.name, lat: station.point[0], lng: station.point[1] };
+};
+
+// Quickest way to make a trip by train, reaching the station from `from` and
+// leaving it for `to` by road. Tries each pairing of the stations nearest
+// either end and keeps the earliest arrival.
+export function planRailJourney(
+  graph: RoadGraph,
+  railways: Railways,
+  from: Location,
+  to: Location,
+  departAt: number,
+  { profile = 'car', stationChoices = 3, maxAccess = 80_000 }: RailPlanOptions = {},
+): MultimodalJourney {
+  const origin: LatLng = [from.lat, from.lng];
+  const destination: LatLng = [to.lat, to.lng];
+  const options = { profile: TRAVEL_PROFILES[profile] };
+
+  // Road routes to the nearest stations, or null where the station is a short walk away
+  const nearby = (point: LatLng, toStation: boolean) =>
+    railways.stations
+      .map((station) => ({ station, distance: haversineDistance(point, station.point) }))
+      .filter(({ distance }) => distance <= maxAccess)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, stationChoices)
+      .flatMap(({ station, distance }) => {
+        if (distance < ROAD_LEG_MIN) return [{ code: station.code, road: null }];
+        try {
+          const road: RouteResult = toStation
+            ? findRoute(graph, point, station.point, options)
+            : findRoute(graph, station.point, point, options);
+          return [{ code: station.code, road }];
+        } catch (error) {
+          if (error instanceof RouteNotFoundError) return [];
+          throw error;
+        }
+      });
+
+  const starts = nearby(origin, true);
+  const ends = nearby(destination, false);
+
+  let best: MultimodalJourney | null = null;
+  for (const start of starts) {
+    for (const end of ends) {
+      if (start.code === end.code) continue;
+      const ready = departAt + ((start.road?.duration ?? 0) + BOARDING_TIME) * 1000;
+      const trains = planTransit(
+        railways.network,
+        stationLocation(railways, start.code),
+        stationLocation(railways, end.code),
+        ready,
+        { maxTransfers: 2, maxWalk: ROAD_LEG_MIN },
+      ).filter((journey) => journey.legs.some((leg) => leg.type === 'ride'));
+
+      for (const train of trains) {
+        const legs: JourneyLeg[] = [...train.legs];
+        // Leave just in time to make the train
+        if (start.road) {
+          const arrival = train.departure - BOARDING_TIME * 1000;
+          legs.unshift({
+            type: 'road',
+            profile,
+            from,
+            to: stationLocation(railways, start.code),
+            distance: start.road.distance,
+            departure: arrival - start.road.duration * 1000,
+            arrival,
+            geometry: start.road.geometry,
+          });
+        }
+        if (end.road) {
+          const departure = train.arrival + ALIGHTING_TIME * 1000;
+          legs.push({
+            type: 'road',
+            profile,
+            from: stationLocation(railways, end.code),
+            to,
+            distance: end.road.distance,
+            departure,
+            arrival: departure + end.road.duration * 1000,
+            geometry: end.road.geometry,
+          });
+        }
+        const journey: MultimodalJourney = {
+          ...train,
+          legs,
+          departure: legs[0].departure,
+          arrival: legs[legs.length - 1].arrival,
+        };
+        if (
+          !best ||
+          journey.arrival < best.arrival ||
+          (journey.arrival === best.arrival && journey.transfers < best.transfers)
+        ) {
+          best = journey;
+        }
+      }
+    }
+  }
+
+  if (!best) throw new RouteNotFoundError('No train runs between stations near these places');
+  return best;
+}
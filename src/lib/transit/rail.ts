@@ -0,0 +1,122 @@
+import type { LatLng } from '@/lib/geo';
+import { parseGtfsTime, type GtfsCalendar, type GtfsFeed, type GtfsTrip } from './gtfs';
+import { buildTransitNetwork, type TransitNetwork } from './raptor';
+
+type Weekday = 'Sun' | 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat';
+
+// On-disk format of public/data/railways.json. Each call is
+// [station code, arrival, departure] in "HH:MM", counted from midnight of
+// the day the train sets off, so times past "24:00" are the next day. The
+// first call has no arrival and the last no departure.
+export interface RawRailways {
+  version: number;
+  stations: { code: string; name: string; lat: number; lng: number }[];
+  // Station codes in order along the track
+  lines: { name: string; stations: string[] }[];
+  trains: {
+    number: string;
+    name: string;
+    kind: 'express' | 'passenger';
+    runs: 'daily' | Weekday[];
+    calls: [string, string, string][];
+  }[];
+}
+
+export interface RailStation {
+  code: string;
+  name: string;
+  point: LatLng;
+}
+
+export interface RailLine {
+  name: string;
+  geometry: LatLng[];
+}
+
+export interface Railways {
+  stations: RailStation[];
+  lines: RailLine[];
+  // Timetable ready for the journey planner
+  network: TransitNetwork;
+}
+
+const WEEKDAYS: Weekday[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TRAIN_COLORS: Record<RawRailways['trains'][number]['kind'], string> = {
+  express: '#1d4ed8',
+  passenger: '#15803d',
+};
+
+// The timetable as a GTFS feed: a route and a trip per train, and a service
+// per distinct set of running days
+export function railwayFeed(raw: RawRailways): GtfsFeed {
+  const calendars: Record<string, GtfsCalendar> = {};
+  const trips: GtfsTrip[] = raw.trains.map((train) => {
+    const serviceId = train.runs === 'daily' ? 'daily' : train.runs.join(',');
+    calendars[serviceId] ??= {
+      days: WEEKDAYS.map((day) => train.runs === 'daily' || train.runs.includes(day)),
+      start: 0,
+      end: 99999999,
+    };
+    return {
+      id: train.number,
+      routeId: train.number,
+      serviceId,
+      headsign: raw.stations.find((station) => station.code === train.calls[train.calls.length - 1][0])?.name ?? '',
+      stopTimes: train.calls.map(([stopId, arrival, departure]) => ({
+        stopId,
+        arrival: parseGtfsTime(`${arrival || departure}:00`),
+        departure: parseGtfsTime(`${departure || arrival}:00`),
+      })),
+    };
+  });
+
+  return {
+    agency: 'Indian Railways',
+    timezone: 'Asia/Kolkata',
+    stops: raw.stations.map(({ code, name, lat, lng }) => ({ id: code, name, point: [lat, lng] })),
+    routes: raw.trains.map((train) => ({
+      id: train.number,
+      shortName: train.number,
+      longName: train.name,
+      color: TRAIN_COLORS[train.kind],
+      textColor: '#ffffff',
+    })),
+    trips,
+    calendars,
+  };
+}
+
+export function buildRailways(raw: RawRailways): Railways {
+  const stations = raw.stations.map(({ code, name, lat, lng }): RailStation => ({ code, name, point: [lat, lng] }));
+  const byCode = new Map(stations.map((station) => [station.code, station]));
+  return {
+    stations,
+    lines: raw.lines.map((line) => ({
+      name: line.name,
+      geometry: line.stations.flatMap((code) => (byCode.has(code) ? [byCode.get(code)!.point] : [])),
+    })),
+    network: buildTransitNetwork(railwayFeed(raw)),
+  };
+}
+
+const RAILWAYS_URL = `${import.meta.env.BASE_URL}data/railways.json`;
+
+let railwaysPromise: Promise<Railways> | null = null;
+
+// Fetches the bundled stations, lines and train timetable once per session
+export function loadRailways(): Promise<Railways> {
+  if (!railwaysPromise) {
+    railwaysPromise = fetch(RAILWAYS_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load railways (${response.status})`);
+        return response.json() as Promise<RawRailways>;
+      })
+      .then(buildRailways)
+      .catch((error) => {
+        railwaysPromise = null;
+        throw error;
+      });
+  }
+  return railwaysPromise;
+}
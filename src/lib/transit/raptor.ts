@@ -0,0 +1,425 @@
+import { haversineDistance, type LatLng } from '@/lib/geo';
+import { RouteNotFoundError } from '@/lib/routing/engine';
+import type { Location } from '@/types/location';
+import type { GtfsCalendar, GtfsFeed, GtfsRoute, GtfsStop } from './gtfs';
+
+// Round-based public transit routing (RAPTOR, Delling et al. 2012). Each
+// round rides one more bus, so the rounds give the quickest journey for
+// every number of changes.
+
+// Trips that call at the same stops in the same order
+interface Pattern {
+  route: GtfsRoute;
+  stops: number[];
+  trips: {
+    id: string;
+    serviceId: string;
+    headsign: string;
+    arrivals: number[];
+    departures: number[];
+  }[];
+}
+
+export interface TransitNetwork {
+  agency: string;
+  timezone: string;
+  stops: GtfsStop[];
+  patterns: Pattern[];
+  // Patterns calling at each stop, with the stop's position in them
+  stopPatterns: { pattern: number; position: number }[][];
+  // Walks to nearby stops for changing buses, in seconds
+  transfers: { to: number; duration: number }[][];
+  calendars: Record<string, GtfsCalendar>;
+}
+
+export interface WalkLeg {
+  type: 'walk';
+  from: Location;
+  to: Location;
+  // Metres
+  distance: number;
+  // Milliseconds since the epoch
+  departure: number;
+  arrival: number;
+}
+
+export interface RideLeg {
+  type: 'ride';
+  route: GtfsRoute;
+  headsign: string;
+  // Boarding stop first, alighting stop last
+  stops: (Location & { arrival: number; departure: number })[];
+  departure: number;
+  arrival: number;
+  geometry: LatLng[];
+}
+
+export type TransitLeg = WalkLeg | RideLeg;
+
+export interface TransitJourney {
+  legs: TransitLeg[];
+  departure: number;
+  arrival: number;
+  transfers: number;
+  // Metres on foot
+  walkDistance: number;
+}
+
+export interface TransitOptions {
+  // Changes of bus allowed
+  maxTransfers?: number;
+  // Furthest walk to the first stop or from the last one, metres
+  maxWalk?: number;
+}
+
+// About 4.3 km/h, with paths a third longer than the straight line
+const WALK_SPEED = 1.2;
+const WALK_DETOUR = 1.3;
+// Stops this close are linked for changing buses on foot
+const TRANSFER_RADIUS = 600;
+// Slack for finding the next bus when changing
+const CHANGE_TIME = 120;
+const DAY = 86400;
+
+const walkTime = (a: LatLng, b: LatLng) => (haversineDistance(a, b) * WALK_DETOUR) / WALK_SPEED;
+
+export function buildTransitNetwork(feed: GtfsFeed): TransitNetwork {
+  const stopIndex = new Map(feed.stops.map((stop, i) => [stop.id, i]));
+  const routes = new Map(feed.routes.map((route) => [route.id, route]));
+
+  const patterns: Pattern[] = [];
+  const patternIndex = new Map<string, number>();
+  for (const trip of feed.trips) {
+    const route = routes.get(trip.routeId);
+    const stops = trip.stopTimes.map((time) => stopIndex.get(time.stopId));
+    if (!route || stops.some((stop) => stop === undefined)) continue;
+
+    const key = `${trip.routeId}:${stops.join(',')}`;
+    if (!patternIndex.has(key)) {
+      patternIndex.set(key, patterns.length);
+      patterns.push({ route, stops: stops as number[], trips: [] });
+    }
+    patterns[patternIndex.get(key)!].trips.push({
+      id: trip.id,
+      serviceId: trip.serviceId,
+      headsign: trip.headsign,
+      arrivals: trip.stopTimes.map((time) => time.arrival),
+      departures: trip.stopTimes.map((time) => time.departure),
+    });
+  }
+  for (const pattern of patterns) pattern.trips.sort((a, b) => a.departures[0] - b.departures[0]);
+
+  const stopPatterns: TransitNetwork['stopPatterns'] = feed.stops.map(() => []);
+  patterns.forEach((pattern, p) =>
+    pattern.stops.forEach((stop, position) => stopPatterns[stop].push({ pattern: p, position })),
+  );
+
+  const transfers: TransitNetwork['transfers'] = feed.stops.map((from, i) =>
+    feed.stops.flatMap((to, j) =>
+      i !== j && haversineDistance(from.point, to.point) <= TRANSFER_RADIUS
+        ? [{ to: j, duration: walkTime(from.point, to.point) }]
+        : [],
+    ),
+  );
+
+  return {
+    agency: feed.agency,
+    timezone: feed.timezone,
+    stops: feed.stops,
+    patterns,
+    stopPatterns,
+    transfers,
+    calendars: feed.calendars,
+  };
+}
+
+// How a stop was reached in a round
+type Parent =
+  | { type: 'access'; duration: number }
+  | { type: 'walk'; from: number; duration: number }
+  | { type: 'ride'; pattern: number; trip: number; offset: number; board: number; alight: number };
+
+// Offset of the zone from UTC at `time`, in milliseconds
+function zoneOffset(timeZone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)!.value);
+  const wall = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wall - Math.floor(time / 1000) * 1000;
+}
+
+// Services running on each day from the one before `dayStart` to a week
+// after it, so weekly trains are found too, by offset in seconds. Dates are
+// read in the timetable's zone, `offset` ahead of UTC.
+function activeServices(calendars: Record<string, GtfsCalendar>, dayStart: number, offset: number) {
+  return Array.from({ length: 9 }, (_, i) => i - 1).map((days) => {
+    const date = new Date(dayStart + offset + days * DAY * 1000);
+    const ymd = date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+    const services = new Set(
+      Object.entries(calendars)
+        .filter(([, calendar]) => calendar.days[date.getUTCDay()] && calendar.start <= ymd && ymd <= calendar.end)
+        .map(([id]) => id),
+    );
+    return { offset: days * DAY, services };
+  });
+}
+
+// Quickest journeys from `from` to `to` leaving at `departAt`: one for each
+// number of changes that arrives sooner than any with fewer changes
+export function planTransit(
+  network: TransitNetwork,
+  from: Location,
+  to: Location,
+  departAt: number,
+  { maxTransfers = 3, maxWalk = 1500 }: TransitOptions = {},
+): TransitJourney[] {
+  const origin: LatLng = [from.lat, from.lng];
+  const destination: LatLng = [to.lat, to.lng];
+  const reach = (point: LatLng, stop: GtfsStop) =>
+    haversineDistance(point, stop.point) * WALK_DETOUR <= maxWalk ? walkTime(point, stop.point) : Infinity;
+  const access = network.stops.map((stop) => reach(origin, stop));
+  const egress = network.stops.map((stop) => reach(destination, stop));
+  const directWalk = haversineDistance(origin, destination) * WALK_DETOUR <= maxWalk;
+  if (!directWalk && access.every((time) => time === Infinity)) {
+    throw new RouteNotFoundError(`No bus stop within ${maxWalk / 1000} km of ${from.name}`);
+  }
+  if (!directWalk && egress.every((time) => time === Infinity)) {
+    throw new RouteNotFoundError(`No bus stop within ${maxWalk / 1000} km of ${to.name}`);
+  }
+
+  // Times below are seconds after midnight at the start of the day of
+  // departure in the timetable's zone, whatever the device's zone
+  const offset = zoneOffset(network.timezone, departAt);
+  const local = new Date(departAt + offset);
+  const dayStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - offset;
+  const t0 = (departAt - dayStart) / 1000;
+  const days = activeServices(network.calendars, dayStart, offset);
+  const toTime = (seconds: number) => dayStart + seconds * 1000;
+
+  const n = network.stops.length;
+  const labels: number[][] = [new Array(n).fill(Infinity)];
+  const parents: Parent[][] = [[]];
+  const best: number[] = new Array(n).fill(Infinity);
+  let marked = new Set<number>();
+  access.forEach((duration, stop) => {
+    if (duration === Infinity) return;
+    labels[0][stop] = best[stop] = t0 + duration;
+    parents[0][stop] = { type: 'access', duration };
+    marked.add(stop);
+  });
+
+  // Arrival at the destination after each round, and the stop walked from
+  const arrivals: { time: number; stop: number }[] = [
+    { time: directWalk ? t0 + walkTime(origin, destination) : Infinity, stop: -1 },
+  ];
+  let bound = arrivals[0].time;
+
+  // Earliest trip of the pattern leaving position `position` at or after `time`
+  const earliestTrip = (pattern: Pattern, position: number, time: number) => {
+    let found: { trip: number; offset: number; departure: number } | null = null;
+    for (const { offset, services } of days) {
+      // Trips on later days all leave after one already found
+      if (found && found.departure < offset) break;
+      for (let i = 0; i < pattern.trips.length; i++) {
+        const trip = pattern.trips[i];
+        const departure = trip.departures[position] + offset;
+        if (departure >= time && departure < (found?.departure ?? Infinity) && services.has(trip.serviceId)) {
+          found = { trip: i, offset, departure };
+        }
+      }
+    }
+    return found;
+  };
+
+  for (let round = 1; round <= maxTransfers + 1 && marked.size > 0; round++) {
+    const previous = labels[round - 1];
+    const current = previous.slice();
+    const parent: Parent[] = [];
+
+    // Each pattern is scanned once, from the first stop reached last round
+    const queue = new Map<number, number>();
+    for (const stop of marked) {
+      for (const { pattern, position } of network.stopPatterns[stop]) {
+        if (position < (queue.get(pattern) ?? Infinity)) queue.set(pattern, position);
+      }
+    }
+    marked = new Set();
+
+    for (const [p, first] of queue) {
+      const pattern = network.patterns[p];
+      let boarded: { trip: number; offset: number; departure: number } | null = null;
+      let board = -1;
+      for (let position = first; position < pattern.stops.length; position++) {
+        const stop = pattern.stops[position];
+        if (boarded) {
+          const arrival = pattern.trips[boarded.trip].arrivals[position] + boarded.offset;
+          if (arrival < Math.min(best[stop], bound)) {
+            current[stop] = best[stop] = arrival;
+            parent[stop] = { type: 'ride', pattern: p, trip: boarded.trip, offset: boarded.offset, board, alight: position };
+            marked.add(stop);
+          }
+        }
+
+        // Catch an earlier bus here if the previous round got here in time
+        const ready = previous[stop] + (round > 1 ? CHANGE_TIME : 0);
+        const departure = boarded ? pattern.trips[boarded.trip].departures[position] + boarded.offset : Infinity;
+        if (ready < departure) {
+          const trip = earliestTrip(pattern, position, ready);
+          if (trip && trip.departure < departure) {
+            boarded = trip;
+            board = position;
+          }
+        }
+      }
+    }
+
+    // Walk on to nearby stops from where the buses dropped off
+    for (const stop of [...marked]) {
+      if (parent[stop]?.type !== 'ride') continue;
+      for (const { to: next, duration } of network.transfers[stop]) {
+        const arrival = current[stop] + duration;
+        if (arrival < Math.min(best[next], bound)) {
+          current[next] = best[next] = arrival;
+          parent[next] = { type: 'walk', from: stop, duration };
+          marked.add(next);
+        }
+      }
+    }
+
+    labels.push(current);
+    parents.push(parent);
+    const arrival = { time: Infinity, stop: -1 };
+    for (const stop of marked) {
+      if (current[stop] + egress[stop] < arrival.time) {
+        arrival.time = current[stop] + egress[stop];
+        arrival.stop = stop;
+      }
+    }
+    arrivals.push(arrival);
+    bound = Math.min(bound, arrival.time);
+  }
+
+  const place = (stop: number): Location => {
+    const { name, point } = network.stops[stop];
+    return { name, lat: point[0], lng: point[1] };
+  };
+  const walk = (a: Location, b: Location, departure: number, duration: number): WalkLeg => ({
+    type: 'walk',
+    from: a,
+    to: b,
+    distance: duration * WALK_SPEED,
+    departure: toTime(departure),
+    arrival: toTime(departure + duration),
+  });
+
+  const journeys: TransitJourney[] = [];
+  let quickest = Infinity;
+  arrivals.forEach(({ time, stop: last }, round) => {
+    if (time >= quickest) return;
+    quickest = time;
+
+    if (round === 0) {
+      const legs = [walk(from, to, t0, time - t0)];
+      journeys.push({ legs, departure: legs[0].departure, arrival: legs[0].arrival, transfers: 0, walkDistance: legs[0].distance });
+      return;
+    }
+
+    // Follow the parents back from the last stop, dropping a round at each ride
+    const legs: TransitLeg[] = [walk(place(last), to, labels[round][last], egress[last])];
+    let stop = last;
+    let k = round;
+    let firstDeparture = 0;
+    for (;;) {
+      const step = parents[k][stop];
+      if (!step) {
+        k--;
+        continue;
+      }
+      if (step.type === 'access') {
+        legs.unshift(walk(from, place(stop), firstDeparture - step.duration, step.duration));
+        break;
+      }
+      if (step.type === 'walk') {
+        legs.unshift(walk(place(step.from), place(stop), labels[k][step.from], step.duration));
+        stop = step.from;
+        continue;
+      }
+      const pattern = network.patterns[step.pattern];
+      const trip = pattern.trips[step.trip];
+      const calls = pattern.stops.slice(step.board, step.alight + 1).map((call, i) => ({
+        ...place(call),
+        arrival: toTime(trip.arrivals[step.board + i] + step.offset),
+        departure: toTime(trip.departures[step.board + i] + step.offset),
+      }));
+      legs.unshift({
+        type: 'ride',
+        route: pattern.route,
+        headsign: trip.headsign,
+        stops: calls,
+        departure: calls[0].departure,
+        arrival: calls[calls.length - 1].arrival,
+        geometry: calls.map((call): LatLng => [call.lat, call.lng]),
+      });
+      firstDeparture = trip.departures[step.board] + step.offset;
+      stop = pattern.stops[step.board];
+      k--;
+    }
+
+    // Walks too short to matter, such as a stop at the origin itself, are left out
+    const kept = legs.filter((leg) => leg.type === 'ride' || leg.distance >= 1);
+    journeys.push({
+      legs: kept,
+      departure: kept[0].departure,
+      arrival: kept[kept.length - 1].arrival,
+      transfers: kept.filter((leg) => leg.type === 'ride').length - 1,
+      walkDistance: kept.reduce((sum, leg) => sum + (leg.type === 'walk' ? leg.distance : 0), 0),
+    });
+  });
+  return journeys;
+}
+
+// The next few ways to make the trip from `departAt` on, each leaving later
+// or arriving sooner than the one before
+export function nextJourneys(
+  network: TransitNetwork,
+  from: Location,
+  to: Location,
+  departAt: number,
+  count = 4,
+  options: TransitOptions = {},
+): TransitJourney[] {
+  const found: TransitJourney[] = [];
+  let at = departAt;
+  for (let search = 0; search < count * 2 && found.length < count * 2; search++) {
+    // Walking is the same whenever one sets off, so it is only offered once
+    const journeys = planTransit(network, from, to, at, options).filter(
+      (journey) => search === 0 || journey.legs.some((leg) => leg.type === 'ride'),
+    );
+    if (journeys.length === 0) break;
+    found.push(...journeys);
+    at = Math.min(...journeys.map((journey) => journey.departure)) + 60_000;
+  }
+
+  // Drop any journey another beats on departure, arrival and changes alike
+  const dominated = (journey: TransitJourney) =>
+    found.some(
+      (other) =>
+        other !== journey &&
+        other.departure >= journey.departure &&
+        other.arrival <= journey.arrival &&
+        other.transfers <= journey.transfers &&
+        (other.departure > journey.departure || other.arrival < journey.arrival || other.transfers < journey.transfers),
+    );
+  const unique = new Map(
+    found.filter((journey) => !dominated(journey)).map((journey) => [`${journey.departure}:${journey.arrival}:${journey.transfers}`, journey]),
+  );
+  return [...unique.values()].sort((a, b) => a.departure - b.departure || a.arrival - b.arrival).slice(0, count);
+}
@@ -0,0 +1,34 @@
+import { haversineDistance, projectOnSegment, type LatLng } from '@/lib/geo';
+import type { Location, Waypoint } from '@/types/location';
+
+let nextWaypointId = 0;
+
+export function createWaypoint(location: Location | null = null): Waypoint {
+  return { id: `waypoint-${nextWaypointId++}`, location };
+}
+
+// Where a via-point grabbed at `point` on a route belongs among the
+// intermediate stops: the number of stops the route passes before reaching
+// it. `stops` runs from the start to the destination.
+export function viaInsertIndex(geometry: LatLng[], stops: LatLng[], point: LatLng): number {
+  // Position along the route as segment index plus fraction, searching from `from` on
+  const positionOf = (target: LatLng, from: number) => {
+    let best = { position: from, distance: Infinity };
+    for (let i = Math.floor(from); i < geometry.length - 1; i++) {
+      const { point: closest, t } = projectOnSegment(target, geometry[i], geometry[i + 1]);
+      const distance = haversineDistance(target, closest);
+      if (distance < best.distance) best = { position: i + t, distance };
+    }
+    return best.position;
+  };
+
+  const grabbed = positionOf(point, 0);
+  let index = 0;
+  let position = 0;
+  for (const stop of stops.slice(1, -1)) {
+    position = positionOf(stop, position);
+    if (position > grabbed) break;
+    index++;
+  }
+  return index;
+}
@@ -1,27 +1,141 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Layers, Maximize, Crosshair, Info } from 'lucide-react';
-import APMap from '@/components/Map/APMap';
+import { useQuery } from '@tanstack/react-query';
+import { Layers, Maximize, Crosshair, Info, Grid3X3 } from 'lucide-react';
+import APMap, { type TripDrag } from '@/components/Map/APMap';
 import AppSidebar from '@/components/Sidebar/AppSidebar';
-
-interface Location {
-  name: string;
-  lat: number;
-  lng: number;
-}
+import { toast } from '@/components/ui/sonner';
+import type { LatLng } from '@/lib/geo';
+import { formatCoordinates } from '@/lib/places/coordinates';
+import { AP_CENTRE } from '@/lib/places/geocoder';
+import type { Poi } from '@/lib/places/pois';
+import { addressName, loadReverseData, reverseGeocode, type PointAddress } from '@/lib/places/reverse';
+import type { Isochrone } from '@/lib/routing/isochrone';
+import type { MultimodalJourney } from '@/lib/transit/multimodal';
+import { loadRailways, type Railways } from '@/lib/transit/rail';
+import type { MatchedTrace } from '@/lib/trace/match';
+import { cn } from '@/lib/utils';
+import { createWaypoint } from '@/lib/waypoints';
+import type { Location, Waypoint } from '@/types/location';
 
 const Index = () => {
   const [source, setSource] = useState<Location | null>(null);
   const [destination, setDestination] = useState<Location | null>(null);
-  const [route, setRoute] = useState<[number, number][] | null>(null);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [routes, setRoutes] = useState<[number, number][][]>([]);
+  const [activeRoute, setActiveRoute] = useState(0);
+  const [highlightedStep, setHighlightedStep] = useState<[number, number][] | null>(null);
+  const [chargingStops, setChargingStops] = useState<Location[]>([]);
+  const [elevationPoint, setElevationPoint] = useState<[number, number] | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // What is at the clicked point, once looked up
+  const [selectedAddress, setSelectedAddress] = useState<PointAddress | null>(null);
+  const [isochrone, setIsochrone] = useState<Isochrone | null>(null);
+  const [transitJourney, setTransitJourney] = useState<MultimodalJourney | null>(null);
+  const [railways, setRailways] = useState<Railways | null>(null);
+  const [traceMatch, setTraceMatch] = useState<MatchedTrace | null>(null);
+  const [tracePoint, setTracePoint] = useState<[number, number] | null>(null);
+  const [mapCenter, setMapCenter] = useState<LatLng>(AP_CENTRE);
+  // Places listed by the category search
+  const [pois, setPois] = useState<Poi[]>([]);
+  // Bumped as the trip is dragged on the map, for the sidebar to re-plan the route
+  const [rerouteRequest, setRerouteRequest] = useState<{ live: boolean } | null>(null);
+  // Via-point being pulled out of the route, once it has been inserted
+  const viaDragRef = useRef<string | null>(null);
+  // Point last clicked on the map, for discarding lookups that finish late
+  const selectedRef = useRef<{ lat: number; lng: number } | null>(null);
+  
+  // Names points dragged on the map, once there is something to drag
+  const { data: reverseData } = useQuery({
+    queryKey: ['reverse-data'],
+    queryFn: loadReverseData,
+    enabled: source !== null || destination !== null,
+    staleTime: Infinity,
+  });
+
+  const stops = useMemo(
+    () => waypoints.flatMap((waypoint) => (waypoint.location ? [waypoint.location] : [])),
+    [waypoints]
+  );
   
-  const handleRouteCalculate = useCallback((newRoute: [number, number][]) => {
-    setRoute(newRoute);
+  const handleRouteCalculate = useCallback((newRoutes: [number, number][][]) => {
+    setRoutes(newRoutes);
+    setActiveRoute(0);
   }, []);
 
+  // The Layers button shows or hides the railway network
+  const toggleRailways = () => {
+    if (railways) setRailways(null);
+    else loadRailways().then(setRailways).catch((error) => toast.error(error.message));
+  };
+
+  const handleTripDrag = useCallback(
+    (drag: TripDrag, done: boolean) => {
+      const [lat, lng] = drag.point;
+      const name = reverseData ? addressName(reverseGeocode(reverseData, drag.point)) : formatCoordinates(drag.point);
+      const location = { name, lat, lng };
+      if (drag.type === 'source') {
+        setSource(location);
+      } else if (drag.type === 'destination') {
+        setDestination(location);
+      } else if (drag.type === 'stop' || viaDragRef.current) {
+        // Stops are counted among the filled-in waypoints only
+        const id = viaDragRef.current;
+        setWaypoints((current) => {
+          const target = id ?? current.filter((waypoint) => waypoint.location)[drag.index]?.id;
+          return current.map((waypoint) => (waypoint.id === target ? { ...waypoint, location } : waypoint));
+        });
+      } else {
+        const waypoint = createWaypoint(location);
+        viaDragRef.current = waypoint.id;
+        setWaypoints((current) => {
+          const filled = current.filter((candidate) => candidate.location);
+          const at = drag.index < filled.length ? current.indexOf(filled[drag.index]) : current.length;
+          return [...current.slice(0, at), waypoint, ...current.slice(at)];
+        });
+      }
+      if (done) viaDragRef.current = null;
+      if (routes.length > 0) setRerouteRequest({ live: !done });
+    },
+    [routes.length, reverseData],
+  );
+
   const handleMapClick = useCallback((lat: number, lng: number) => {
-    setSelectedLocation({ lat, lng });
+    const selected = { lat, lng };
+    selectedRef.current = selected;
+    setSelectedLocation(selected);
+    setSelectedAddress(null);
+    loadReverseData()
+      .then((data) => {
+        // Ignore the answer if another point has been clicked since
+        if (selectedRef.current === selected) setSelectedAddress(reverseGeocode(data, [lat, lng]));
+      })
+      .catch((error) => toast.error(error.message));
+  }, []);
+
+  // The "Start here" and "Go here" buttons in the clicked point's popup
+  const handleSelectedUse = useCallback(
+    (role: 'source' | 'destination') => {
+      if (!selectedLocation) return;
+      const name = selectedAddress
+        ? addressName(selectedAddress)
+        : `${selectedLocation.lat.toFixed(4)}, ${selectedLocation.lng.toFixed(4)}`;
+      const location = { name, ...selectedLocation };
+      if (role === 'source') setSource(location);
+      else setDestination(location);
+      selectedRef.current = null;
+      setSelectedLocation(null);
+      setSelectedAddress(null);
+    },
+    [selectedLocation, selectedAddress],
+  );
+
+  // The "Start here" and "Go here" buttons on a category search result
+  const handlePoiUse = useCallback((poi: Poi, role: 'source' | 'destination') => {
+    const location = { name: poi.name, lat: poi.point[0], lng: poi.point[1] };
+    if (role === 'source') setSource(location);
+    else setDestination(location);
   }, []);
 
   return (
@@ -30,9 +144,27 @@ const Index = () => {
       <AppSidebar
         source={source}
         destination={destination}
+        waypoints={waypoints}
         onSourceChange={setSource}
         onDestinationChange={setDestination}
+        onWaypointsChange={setWaypoints}
         onRouteCalculate={handleRouteCalculate}
+        activeRoute={activeRoute}
+        onActiveRouteChange={setActiveRoute}
+        onStepHighlight={setHighlightedStep}
+        onChargingStopsChange={setChargingStops}
+        onElevationHover={setElevationPoint}
+        selectedLocation={selectedLocation}
+        isochrone={isochrone}
+        onIsochroneChange={setIsochrone}
+        transitJourney={transitJourney}
+        onTransitJourneyChange={setTransitJourney}
+        rerouteRequest={rerouteRequest}
+        traceMatch={traceMatch}
+        onTraceMatchChange={setTraceMatch}
+        onTracePlayback={setTracePoint}
+        mapCenter={mapCenter}
+        onPoisChange={setPois}
       />
       
       {/* Main Map Area */}
@@ -42,9 +174,26 @@ const Index = () => {
           <APMap
             source={source}
             destination={destination}
-            route={route}
+            waypoints={stops}
+            chargingStops={chargingStops}
+            routes={routes}
+            activeRoute={activeRoute}
+            onRouteSelect={setActiveRoute}
+            highlightedStep={highlightedStep}
+            elevationPoint={elevationPoint}
+            isochrone={isochrone}
+            transitJourney={transitJourney}
+            railways={railways}
+            trace={traceMatch}
+            tracePoint={tracePoint}
+            onTripDrag={handleTripDrag}
             onMapClick={handleMapClick}
             selectedLocation={selectedLocation}
+            selectedAddress={selectedAddress}
+            onSelectedUse={handleSelectedUse}
+            pois={pois}
+            onPoiUse={handlePoiUse}
+            onCenterChange={setMapCenter}
           />
         </div>
         
@@ -54,10 +203,14 @@ const Index = () => {
             initial={{ opacity: 0, x: 20 }}
             animate={{ opacity: 1, x: 0 }}
             transition={{ delay: 0.1 }}
-            className="p-3 bg-card rounded-lg shadow-card hover:shadow-elevated transition-all"
-            title="Layers"
+            onClick={toggleRailways}
+            className={cn(
+              'p-3 rounded-lg shadow-card hover:shadow-elevated transition-all',
+              railways ? 'bg-primary text-primary-foreground' : 'bg-card text-foreground',
+            )}
+            title={railways ? 'Hide railways' : 'Show railways'}
           >
-            <Layers className="h-5 w-5 text-foreground" />
+            <Layers className="h-5 w-5" />
           </motion.button>
           
           <motion.button
@@ -79,6 +232,20 @@ const Index = () => {
           >
             <Crosshair className="h-5 w-5 text-foreground" />
           </motion.button>
+
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.35 }}
+          >
+            <Link
+              to="/matrix"
+              className="block p-3 bg-card rounded-lg shadow-card hover:shadow-elevated transition-all"
+              title="Distance Matrix"
+            >
+              <Grid3X3 className="h-5 w-5 text-foreground" />
+            </Link>
+          </motion.div>
         </div>
         
         {/* Bottom Info Bar */}
@@ -93,6 +260,11 @@ const Index = () => {
             <span className="text-sm text-foreground">Start</span>
           </div>
           <div className="w-px h-4 bg-border" />
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-violet-500" />
+            <span className="text-sm text-foreground">Stop</span>
+          </div>
+          <div className="w-px h-4 bg-border" />
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-red-500" />
             <span className="text-sm text-foreground">End</span>
@@ -103,6 +275,11 @@ const Index = () => {
             <span className="text-sm text-foreground">Route</span>
           </div>
           <div className="w-px h-4 bg-border" />
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-slate-400" />
+            <span className="text-sm text-foreground">Alternative</span>
+          </div>
+          <div className="w-px h-4 bg-border" />
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-amber-500" />
             <span className="text-sm text-foreground">Capital</span>
@@ -110,7 +287,7 @@ const Index = () => {
         </motion.div>
         
         {/* Welcome Overlay (shows briefly) */}
-        {!source && !destination && (
+        {!source && !destination && !isochrone && !transitJourney && !traceMatch && (
           <motion.div
             initial={{ opacity: 1 }}
             animate={{ opacity: 1 }}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Download, Grid3X3, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import MatrixTable from '@/components/Matrix/MatrixTable';
+import PlaceSetEditor from '@/components/Matrix/PlaceSetEditor';
+import TravelModeSelector from '@/components/Sidebar/TravelModeSelector';
+import { matrixToCsv } from '@/lib/matrix';
+import { getRoutingProvider } from '@/lib/routing/config';
+import type { MatrixResponse, RoutingProfile } from '@/lib/routing/provider';
+import type { Location } from '@/types/location';
+
+interface MatrixResult {
+  origins: Location[];
+  destinations: Location[];
+  matrix: MatrixResponse;
+}
+
+// Road distances and travel times between every origin and every destination
+const Matrix = () => {
+  const [origins, setOrigins] = useState<Location[]>([]);
+  const [destinations, setDestinations] = useState<Location[]>([]);
+  const [travelMode, setTravelMode] = useState<RoutingProfile>('car');
+  const [metric, setMetric] = useState<'distance' | 'duration'>('distance');
+  const [result, setResult] = useState<MatrixResult | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  const compute = async () => {
+    setIsComputing(true);
+    try {
+      const matrix = await getRoutingProvider().matrix({
+        sources: origins.map(({ lat, lng }) => [lat, lng]),
+        destinations: destinations.map(({ lat, lng }) => [lat, lng]),
+        profile: travelMode,
+      });
+      setResult({ origins, destinations, matrix });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not compute the matrix');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!result) return;
+    const blob = new Blob([matrixToCsv(result.origins, result.destinations, result.matrix)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ap-matrix-${travelMode}.csv`;
+    link.click();
+    // Revoked once the download has had a chance to start
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Link
+            to="/"
+            className="p-2 -ml-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+            title="Back to the map"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div className="w-10 h-10 rounded-xl gradient-accent flex items-center justify-center shadow-glow">
+            <Grid3X3 className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="font-display text-xl font-bold text-foreground">Distance Matrix</h1>
+            <p className="text-xs text-muted-foreground">Road distances and times between sets of places</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <PlaceSetEditor title="Origins" places={origins} onChange={setOrigins} />
+          <PlaceSetEditor title="Destinations" places={destinations} onChange={setDestinations} />
+        </div>
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="md:w-96">
+            <label className="text-sm font-medium text-foreground mb-2 block">Travel Mode</label>
+            <TravelModeSelector value={travelMode} onChange={setTravelMode} />
+          </div>
+          <Button
+            onClick={compute}
+            disabled={origins.length === 0 || destinations.length === 0 || isComputing}
+            className="h-12 md:w-64 gradient-ocean text-primary-foreground font-medium shadow-glow hover:opacity-90 transition-opacity"
+          >
+            {isComputing ? (
+              <>
+                <Zap className="h-5 w-5 mr-2 animate-pulse" />
+                Calculating...
+              </>
+            ) : (
+              <>
+                <Grid3X3 className="h-5 w-5 mr-2" />
+                Compute {origins.length * destinations.length || ''} Pairs
+              </>
+            )}
+          </Button>
+        </div>
+
+        {result && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-card rounded-xl shadow-card p-4 space-y-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <ToggleGroup
+                type="single"
+                value={metric}
+                onValueChange={(value) => value && setMetric(value as typeof metric)}
+              >
+                <ToggleGroupItem value="distance" className="px-3 text-sm">
+                  Distance
+                </ToggleGroupItem>
+                <ToggleGroupItem value="duration" className="px-3 text-sm">
+                  Time
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <Button variant="outline" size="sm" onClick={exportCsv}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+            <MatrixTable
+              origins={result.origins}
+              destinations={result.destinations}
+              values={metric === 'distance' ? result.matrix.distances : result.matrix.durations}
+              metric={metric}
+            />
+          </motion.div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Matrix;
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { CoordinateError, parseCoordinates } from "@/lib/places/coordinates";
+import type { LatLng } from "@/lib/geo";
+
+const expectPoint = (text: string, [lat, lng]: LatLng, locate?: (place: string) => LatLng | null) => {
+  const parsed = parseCoordinates(text, locate);
+  expect(parsed).not.toBeNull();
+  expect(parsed!.point[0]).toBeCloseTo(lat, 4);
+  expect(parsed!.point[1]).toBeCloseTo(lng, 4);
+  return parsed!;
+};
+
+describe("coordinate input", () => {
+  it("reads decimal degrees in the usual layouts", () => {
+    expect(expectPoint("16.5062, 80.6480", [16.5062, 80.648]).format).toBe("decimal");
+    expectPoint("16.5062 80.6480", [16.5062, 80.648]);
+    expectPoint("16.5062°N, 80.6480°E", [16.5062, 80.648]);
+    expectPoint("E80.648 N16.5062", [16.5062, 80.648]);
+    expectPoint("-33.8688, 151.2093", [-33.8688, 151.2093]);
+  });
+
+  it("reads degrees, minutes and seconds", () => {
+    const parsed = expectPoint(`16°30'22"N 80°38'53"E`, [16 + 30 / 60 + 22 / 3600, 80 + 38 / 60 + 53 / 3600]);
+    expect(parsed.format).toBe("dms");
+    expectPoint("16° 30′ 22″ N, 80° 38′ 53″ E", parsed.point);
+    expectPoint("16 30 22 N 80 38 53 E", parsed.point);
+    expectPoint("16°30.5'S 80°15'W", [-(16 + 30.5 / 60), -80.25]);
+  });
+
+  it("decodes full and short Plus Codes", () => {
+    expect(expectPoint("8FVC9G8F+6X", [47.3655625, 8.5249375]).format).toBe("plus-code");
+    expectPoint("7FG49Q00+", [20.375, 2.775]);
+    // Short codes take their leading digits from a nearby place
+    expectPoint("CJ+2VX Newbury", [51.3701125, -1.217765625], () => [51.3708675, -1.217765625]);
+    const full = parseCoordinates("7M82GJ4X+2C")!.point;
+    expectPoint("GJ4X+2C Vijayawada", full, (place) => (place === "Vijayawada" ? [16.5062, 80.648] : null));
+    expect(() => parseCoordinates("GJ4X+2C Atlantis")).toThrow(CoordinateError);
+    // The state and country Google Maps adds after the place are left off
+    const vijayawada = (place: string): LatLng | null => (place === "Vijayawada" ? [16.5062, 80.648] : null);
+    expectPoint("GJ4X+2C Vijayawada, Andhra Pradesh", full, vijayawada);
+    expectPoint("GJ4X+2C, Vijayawada, Andhra Pradesh, India", full, vijayawada);
+    // Without a place the leading digits cannot be guessed
+    expect(() => parseCoordinates("GJ4X+2C")).toThrow(/add a nearby place/);
+    expect(() => parseCoordinates("GJ4X+2C Andhra Pradesh", vijayawada)).toThrow(/add a nearby place/);
+  });
+
+  it("reads geo: links", () => {
+    expect(expectPoint("geo:16.5062,80.648", [16.5062, 80.648]).format).toBe("geo");
+    expectPoint("geo:16.5062,80.648,20;u=35", [16.5062, 80.648]);
+    const shared = expectPoint("geo:0,0?q=16.5,80.64(Benz+Circle)", [16.5, 80.64]);
+    expect(shared.label).toBe("Benz Circle");
+    // Markup in a shared name is dropped, not kept to be shown
+    expect(parseCoordinates("geo:0,0?q=16.5,80.6(<img src=x onerror=alert`1`>)")!.label).toBeUndefined();
+    expect(parseCoordinates("geo:0,0?q=16.5,80.6(Benz <b>Circle</b>)")!.label).toBe("Benz Circle");
+  });
+
+  it("rejects coordinates out of range", () => {
+    expect(() => parseCoordinates("95.1, 80.6")).toThrow(/Latitude 95.1 is out of range/);
+    expect(() => parseCoordinates("16.5, 200")).toThrow(/Longitude 200 is out of range/);
+    expect(() => parseCoordinates(`16°75'N 80°E`)).toThrow(/75 minutes/);
+    expect(() => parseCoordinates("16.5N 17.2S")).toThrow(CoordinateError);
+    expect(() => parseCoordinates("geo:abc")).toThrow(CoordinateError);
+  });
+
+  it("leaves place names alone", () => {
+    expect(parseCoordinates("Vijayawada")).toBeNull();
+    expect(parseCoordinates("NH 16")).toBeNull();
+    expect(parseCoordinates("16")).toBeNull();
+    expect(parseCoordinates("S. Kota")).toBeNull();
+  });
+});
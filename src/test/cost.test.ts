@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { FARE_TARIFFS, fareFor, fuelCost, tollCharges, type RawTollRates } from "@/lib/cost";
+import { tollPlazasPassed } from "@/lib/routing/avoid";
+import { findRoute } from "@/lib/routing/engine";
+import { buildRoadGraph } from "@/lib/routing/graph";
+
+const graph = buildRoadGraph(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8")),
+);
+const rates: RawTollRates = JSON.parse(
+  readFileSync(path.resolve(__dirname, "../../public/data/toll-rates.json"), "utf-8"),
+);
+
+const tariff = (label: string) => FARE_TARIFFS.find((t) => t.label === label)!;
+
+describe("fareFor", () => {
+  it("charges the base fare up to the base distance", () => {
+    expect(fareFor(tariff("Auto-rickshaw"), 1200)).toBe(30);
+  });
+
+  it("applies each slab's rate to the kilometres within it", () => {
+    // 200 base + 95 km at 18 + 20 km at 13, rounded up to ₹10
+    expect(fareFor(tariff("Taxi"), 120_000)).toBe(200 + 95 * 18 + 20 * 13);
+    // 25 base + 30 km at 1.36 = 65.8, rounded up to ₹5
+    expect(fareFor(tariff("Express"), 40_000)).toBe(70);
+  });
+
+  it("has no fare beyond the distance a service is hired for", () => {
+    expect(fareFor(tariff("Auto-rickshaw"), 60_000)).toBeNull();
+  });
+});
+
+describe("trip costs", () => {
+  it("prices fuel by distance, mileage and price", () => {
+    expect(fuelCost(150_000, { efficiency: 15, fuelPrice: 100, tollClass: "car" })).toBeCloseTo(1000);
+  });
+
+  it("has a rate for every toll plaza in the road graph", () => {
+    for (const [, , name] of JSON.parse(
+      readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8"),
+    ).tolls) {
+      expect(rates.plazas[name]).toBeDefined();
+    }
+  });
+
+  it("charges the plazas on the route for the vehicle class", () => {
+    const route = findRoute(graph, [16.5062, 80.648], [16.3067, 80.4365]);
+    const plazas = tollPlazasPassed(graph, route.segments).map((plaza) => plaza.name);
+
+    expect(tollCharges(plazas, rates, "car")).toEqual({
+      total: 165,
+      charges: [{ name: "Kaza Toll Plaza", amount: 165 }],
+      unpriced: [],
+    });
+    expect(tollCharges(plazas, rates, "bus-truck").total).toBeGreaterThan(165);
+    expect(tollCharges(plazas, rates, null).total).toBe(0);
+    expect(tollCharges(["Unknown Plaza"], rates, "car").unpriced).toEqual(["Unknown Plaza"]);
+  });
+});
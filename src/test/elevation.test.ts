@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { elevationProfile, parseHgt, sampleTile, tileName, type DemTile } from "@/lib/elevation";
+import { buildRoadGraph } from "@/lib/routing/graph";
+import { findRoute } from "@/lib/routing/engine";
+import { buildSteps } from "@/lib/routing/steps";
+import type { LatLng } from "@/lib/geo";
+
+const graph = buildRoadGraph(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8")),
+);
+
+const tiles = new Map<string, DemTile>();
+const elevationAt = (point: LatLng) => {
+  const name = tileName(point);
+  if (!tiles.has(name)) {
+    const file = readFileSync(path.resolve(__dirname, `../../public/dem/${name}.hgt`));
+    tiles.set(name, parseHgt(name, file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)));
+  }
+  return sampleTile(tiles.get(name)!, point);
+};
+
+describe("DEM tiles", () => {
+  it("names tiles after their south-west corner", () => {
+    expect(tileName([13.68, 79.35])).toBe("N13E079");
+  });
+
+  it("reads big-endian heights with the north edge first", () => {
+    // 2x2 tile: north-west 100, north-east 200, south-west 300, south-east -32768 (void)
+    const buffer = new ArrayBuffer(8);
+    const view = new DataView(buffer);
+    [100, 200, 300, -32768].forEach((h, i) => view.setInt16(i * 2, h, false));
+    const tile = parseHgt("N16E080", buffer);
+
+    expect(tile).toMatchObject({ lat: 16, lng: 80, size: 2 });
+    expect(sampleTile({ ...tile, heights: Int16Array.from([100, 200, 300, 400]) }, [16.5, 80.5])).toBe(250);
+    expect(sampleTile(tile, [16.5, 80.5])).toBeNull();
+  });
+});
+
+describe("elevationProfile", () => {
+  it("climbs the Tirumala ghat at the road's own length", () => {
+    const route = findRoute(graph, [13.6288, 79.4192], [13.6833, 79.3474]);
+    const profile = elevationProfile(buildSteps(graph, [route]), elevationAt);
+
+    expect(profile.samples[profile.samples.length - 1].distance).toBeCloseTo(route.distance);
+    expect(profile.ascent).toBeGreaterThan(500);
+    expect(profile.maxElevation).toBeGreaterThan(800);
+    expect(profile.maxGradient).toBeGreaterThan(3);
+    expect(profile.maxGradient).toBeLessThan(15);
+  });
+
+  it("stays flat along the coastal plain", () => {
+    const route = findRoute(graph, [16.5062, 80.648], [16.3067, 80.4365]);
+    const profile = elevationProfile(buildSteps(graph, [route]), elevationAt);
+
+    expect(profile.maxElevation).toBeLessThan(100);
+    expect(Math.abs(profile.maxGradient)).toBeLessThan(2);
+  });
+});
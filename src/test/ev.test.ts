@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { buildRoadGraph } from "@/lib/routing/graph";
+import { findRoute, RouteNotFoundError } from "@/lib/routing/engine";
+import { buildChargingStations, MAX_CHARGE, planEvTrip } from "@/lib/routing/ev";
+
+const graph = buildRoadGraph(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8")),
+);
+const stations = buildChargingStations(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/charging-stations.json"), "utf-8")),
+);
+
+const visakhapatnam: [number, number] = [17.6868, 83.2185];
+const vijayawada: [number, number] = [16.5062, 80.648];
+const spec = { capacity: 40.5, consumption: 150, maxChargePower: 50 };
+
+describe("planEvTrip", () => {
+  it("stops to charge between Visakhapatnam and Vijayawada without dipping below the reserve", () => {
+    const plan = planEvTrip(graph, [visakhapatnam, vijayawada], 0.8, 0.1, stations, spec);
+
+    expect(plan.chargingStops.length).toBeGreaterThan(0);
+    expect(plan.waypoints[0]).toEqual(visakhapatnam);
+    expect(plan.waypoints[plan.waypoints.length - 1]).toEqual(vijayawada);
+    for (const stop of plan.chargingStops) {
+      expect(stop.arrivalSoc).toBeGreaterThanOrEqual(0.1 - 1e-9);
+      expect(stop.departureSoc).toBeLessThanOrEqual(MAX_CHARGE + 1e-9);
+      expect(plan.waypoints[stop.waypoint]).toEqual(stop.station.point);
+    }
+    expect(plan.arrivalSoc).toBeGreaterThanOrEqual(0.1 - 1e-9);
+    expect(plan.chargeTime).toBeGreaterThan(0);
+  });
+
+  it("drives straight through when the battery covers the trip", () => {
+    const guntur: [number, number] = [16.3067, 80.4365];
+    const plan = planEvTrip(graph, [vijayawada, guntur], 0.8, 0.1, stations, spec);
+    const route = findRoute(graph, vijayawada, guntur);
+
+    expect(plan.chargingStops).toEqual([]);
+    expect(plan.arrivalSoc).toBeCloseTo(0.8 - (route.distance / 1000) * 0.15 / 40.5);
+  });
+
+  it("fails when no chain of stations is within range", () => {
+    expect(() =>
+      planEvTrip(graph, [visakhapatnam, vijayawada], 0.8, 0.1, stations, { ...spec, capacity: 5 }),
+    ).toThrow(RouteNotFoundError);
+  });
+});
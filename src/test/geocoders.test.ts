@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import path from "path";
+import { geocoderConfig, getGeocoder } from "@/lib/places/config";
+import { CachingGeocoder, GeocoderError, type Geocoder, type GeocodeResult } from "@/lib/places/geocoder";
+import { NominatimGeocoder } from "@/lib/places/geocoders/nominatim";
+import { PhotonGeocoder } from "@/lib/places/geocoders/photon";
+
+const fixture = (name: string) => readFileSync(path.resolve(__dirname, "fixtures", name), "utf-8");
+
+// Local stand-in for a geocoding server that replays recorded responses
+let server: Server;
+let baseUrl: string;
+let lastRequest: URL;
+let requests = 0;
+let reply: { status: number; body: string };
+
+const replay = (status: number, body: string) => {
+  reply = { status, body };
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    lastRequest = new URL(req.url!, baseUrl);
+    requests++;
+    res.writeHead(reply.status, { "Content-Type": "application/json" });
+    res.end(reply.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("NominatimGeocoder", () => {
+  it("searches within Andhra Pradesh and drops results outside it", async () => {
+    replay(200, fixture("nominatim-search.json"));
+    const results = await new NominatimGeocoder(`${baseUrl}/`).forward({ query: "vijayawada", limit: 5 });
+
+    expect(lastRequest.pathname).toBe("/search");
+    expect(lastRequest.searchParams.get("viewbox")).toBe("76.7,19.95,84.8,12.6");
+    expect(lastRequest.searchParams.get("bounded")).toBe("1");
+    expect(lastRequest.searchParams.get("limit")).toBe("5");
+    expect(results.map((result) => result.location.name)).toEqual(["Vijayawada", "Benz Circle"]);
+    expect(results[0].location.lat).toBeCloseTo(16.5062, 4);
+    expect(results[0].context).toBe("NTR · PIN 520001");
+    expect(results[1].context).toBe("Patamata · NTR · PIN 520010");
+  });
+
+  it("finds nothing where Nominatim cannot geocode, and skips points outside the state", async () => {
+    replay(200, fixture("nominatim-reverse-none.json"));
+    const geocoder = new NominatimGeocoder(baseUrl);
+    expect(await geocoder.reverse({ point: [16.0, 82.5] })).toBeNull();
+    expect(lastRequest.pathname).toBe("/reverse");
+
+    const before = requests;
+    expect(await geocoder.reverse({ point: [28.61, 77.21] })).toBeNull();
+    expect(requests).toBe(before);
+  });
+
+  it("reports server errors", async () => {
+    replay(503, "Service unavailable");
+    await expect(new NominatimGeocoder(baseUrl).forward({ query: "guntur" })).rejects.toThrow(GeocoderError);
+  });
+});
+
+describe("PhotonGeocoder", () => {
+  it("autocompletes within Andhra Pradesh", async () => {
+    replay(200, fixture("photon-search.json"));
+    const results = await new PhotonGeocoder(baseUrl).autocomplete({ query: "visakh" });
+
+    expect(lastRequest.pathname).toBe("/api");
+    expect(lastRequest.searchParams.get("bbox")).toBe("76.7,12.6,84.8,19.95");
+    expect(results[0].location).toEqual({ name: "Visakhapatnam", lat: 17.6868159, lng: 83.2184815 });
+    expect(results[0].context).toBe("PIN 530001");
+    expect(results[1].context).toBe("Visakhapatnam · Visakhapatnam");
+  });
+});
+
+describe("CachingGeocoder", () => {
+  it("answers repeated queries from the cache", async () => {
+    let calls = 0;
+    const result: GeocodeResult = { location: { name: "Guntur", lat: 16.3067, lng: 80.4365 }, context: "Town" };
+    const inner: Geocoder = {
+      name: "Counting",
+      forward: async () => [result],
+      autocomplete: async () => {
+        calls++;
+        return [result];
+      },
+      reverse: async () => {
+        calls++;
+        return result;
+      },
+    };
+    const geocoder = new CachingGeocoder(inner, 2);
+
+    await geocoder.autocomplete({ query: "gun" });
+    await geocoder.autocomplete({ query: "gun" });
+    await geocoder.reverse({ point: [16.30671, 80.43649] });
+    await geocoder.reverse({ point: [16.30669, 80.43651] });
+    expect(calls).toBe(2);
+
+    // The oldest entry makes way once the cache is full
+    await geocoder.autocomplete({ query: "gunt" });
+    await geocoder.autocomplete({ query: "gun" });
+    expect(calls).toBe(4);
+  });
+});
+
+describe("getGeocoder", () => {
+  it("falls back to the offline gazetteer when the server is not set", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    geocoderConfig.provider = "photon";
+    geocoderConfig.url = undefined;
+    expect(getGeocoder().name).toBe("Offline gazetteer");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("VITE_GEOCODER_URL"));
+    warn.mockRestore();
+  });
+});
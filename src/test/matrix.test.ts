@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { matrixToCsv, parsePlaces } from "@/lib/matrix";
+import { buildGazetteer, districtHeadquarters, type RawGazetteer } from "@/lib/places/gazetteer";
+
+const gazetteer = buildGazetteer(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/gazetteer.json"), "utf-8")) as RawGazetteer,
+);
+
+describe("parsePlaces", () => {
+  it("reads named coordinates, bare coordinates and gazetteer names", () => {
+    const { places, errors } = parsePlaces("Depot 1, 16.5, 80.6\n\n17.1\t82.25\n  kurnool  \nNowhere", gazetteer);
+
+    expect(places).toEqual([
+      { name: "Depot 1", lat: 16.5, lng: 80.6 },
+      { name: "17.1000, 82.2500", lat: 17.1, lng: 82.25 },
+      { name: "Kurnool", lat: 15.8281, lng: 78.0373 },
+    ]);
+    expect(errors).toEqual(['Line 5: "Nowhere" is not a known place']);
+  });
+
+  it("rejects coordinates out of range", () => {
+    expect(parsePlaces("Bad, 95, 80", gazetteer).errors).toEqual(["Line 1: 95, 80 is not a valid coordinate"]);
+  });
+
+  it("prefers the town to the mandal and district sharing its name", () => {
+    expect(parsePlaces("Guntur\nBezawada\nKrishna", gazetteer).places.map((place) => place.name)).toEqual([
+      "Guntur",
+      "Vijayawada",
+      "Krishna",
+    ]);
+  });
+});
+
+describe("districtHeadquarters", () => {
+  it("finds the headquarters town of every district", () => {
+    const headquarters = districtHeadquarters(gazetteer);
+    expect(headquarters).toHaveLength(26);
+    expect(headquarters.find((entry) => entry.district === "Alluri Sitharama Raju")?.location.name).toBe("Paderu");
+    expect(headquarters.find((entry) => entry.district === "Krishna")?.location.name).toBe("Machilipatnam");
+  });
+});
+
+describe("matrixToCsv", () => {
+  it("writes a row per pair and quotes names with commas", () => {
+    const a = { name: "Depot, North", lat: 16.5, lng: 80.6 };
+    const b = { name: "Guntur", lat: 16.3, lng: 80.4 };
+    const csv = matrixToCsv([a], [a, b], { distances: [[0, 32450]], durations: [[0, null]] });
+
+    expect(csv).toBe(
+      'origin,destination,distance_km,duration_min\n"Depot, North","Depot, North",0.0,0\n"Depot, North",Guntur,32.5,\n',
+    );
+  });
+
+  it("keeps names that look like formulas as text", () => {
+    const places = ["=HYPERLINK(1)", "+91", "-1", "@SUM(A1)"].map((name) => ({ name, lat: 16.5, lng: 80.6 }));
+    const csv = matrixToCsv(places, [places[0]], {
+      distances: places.map(() => [0]),
+      durations: places.map(() => [0]),
+    });
+
+    expect(csv.split("\n").slice(1, -1).map((row) => row.split(",")[0])).toEqual([
+      "'=HYPERLINK(1)",
+      "'+91",
+      "'-1",
+      "'@SUM(A1)",
+    ]);
+  });
+});
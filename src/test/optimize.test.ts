@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { optimiseStopOrder, tripCost, type TripEnd } from "@/lib/routing/optimize";
+
+// Matrix for points on a line, where the best order is obvious
+const lineMatrix = (positions: number[]) =>
+  positions.map((a) => positions.map((b) => Math.abs(a - b) * 1000));
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest]),
+  );
+}
+
+function bruteForce(matrix: number[][], end: TripEnd) {
+  const size = matrix.length;
+  const last = end === "fixed" ? size - 1 : null;
+  const free = Array.from({ length: size }, (_, i) => i).filter((i) => i !== 0 && i !== last);
+  return Math.min(
+    ...permutations(free).map((middle) => tripCost(matrix, [0, ...middle, ...(last !== null ? [last] : [])], end)),
+  );
+}
+
+let seed = 42;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+const randomMatrix = (size: number) =>
+  Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 0 : Math.round(random() * 100))));
+
+describe("optimiseStopOrder", () => {
+  it("visits stops along a line in order", () => {
+    const matrix = lineMatrix([0, 30, 10, 20, 40]);
+    expect(optimiseStopOrder(matrix, "fixed").order).toEqual([0, 2, 3, 1, 4]);
+    expect(optimiseStopOrder(matrix, "open").order).toEqual([0, 2, 3, 1, 4]);
+  });
+
+  it.each(["fixed", "open", "start"] as TripEnd[])("matches brute force for %s trips", (end) => {
+    for (let run = 0; run < 5; run++) {
+      const matrix = randomMatrix(7);
+      expect(optimiseStopOrder(matrix, end).cost).toBeCloseTo(bruteForce(matrix, end));
+    }
+  });
+
+  it("keeps the start first and the fixed end last", () => {
+    const { order } = optimiseStopOrder(randomMatrix(20), "fixed");
+    expect(order[0]).toBe(0);
+    expect(order[order.length - 1]).toBe(19);
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  it("keeps every stop when one cannot be reached", () => {
+    const matrix: (number | null)[][] = lineMatrix([0, 10, 20, 30, 40]);
+    matrix[2][3] = null;
+    matrix[3][2] = Infinity;
+    matrix[1][3] = null;
+    matrix[0][3] = null;
+    matrix[4][3] = null;
+    const { order, cost } = optimiseStopOrder(matrix, "fixed");
+    expect([...order].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4]);
+    expect(cost).toBe(Infinity);
+  });
+});
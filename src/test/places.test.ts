@@ -0,0 +1,232 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { buildGazetteer, placeContext, type RawGazetteer } from "@/lib/places/gazetteer";
+import { normalizeName, prefixEditDistance, searchPlaces } from "@/lib/places/search";
+import {
+  EMPTY_PLACE_HISTORY,
+  isFavourite,
+  rankByUsage,
+  readPlaceHistory,
+  recordPlaceUse,
+  toggleFavourite,
+  writePlaceHistory,
+} from "@/lib/places/history";
+import { buildPois, nearestPois, parsePoiQuery, type RawPois } from "@/lib/places/pois";
+import { addressContext, addressName, reverseGeocode, type RawPostOffices } from "@/lib/places/reverse";
+import { phoneticKey, transliterate } from "@/lib/places/telugu";
+import { buildRoadGraph, type RawRoadGraph } from "@/lib/routing/graph";
+
+const readData = (file: string) =>
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data", file), "utf-8"));
+
+const raw: RawGazetteer = readData("gazetteer.json");
+const gazetteer = buildGazetteer(raw);
+
+const top = (query: string) => searchPlaces(gazetteer.index, query)[0]?.place;
+
+describe("gazetteer data", () => {
+  it("covers every district, with places inside Andhra Pradesh", () => {
+    expect(raw.districts).toHaveLength(26);
+    for (const place of gazetteer.places) {
+      expect(place.lat).toBeGreaterThan(12.5);
+      expect(place.lat).toBeLessThan(19.5);
+      expect(place.lng).toBeGreaterThan(76.5);
+      expect(place.lng).toBeLessThan(85);
+    }
+  });
+
+  it("describes places by their mandal and district", () => {
+    const village = gazetteer.places.find((place) => place.name === "Kuchipudi")!;
+    expect(placeContext(village)).toBe("Village · Movva mandal · Krishna district");
+    const district = gazetteer.places.find((place) => place.kind === "district" && place.name === "Guntur")!;
+    expect(placeContext(district)).toBe("District");
+  });
+});
+
+describe("place search", () => {
+  it("normalises punctuation and case", () => {
+    expect(normalizeName("S. Kota")).toBe("s kota");
+    expect(prefixEditDistance("vijaywad", "vijayawada", 2)).toBe(1);
+    expect(prefixEditDistance("guntur", "nellore", 2)).toBe(Infinity);
+  });
+
+  it("finds places by the start of their name, larger places first", () => {
+    expect(top("vijay")).toMatchObject({ name: "Vijayawada", kind: "town" });
+    expect(top("s kota")?.name).toBe("S. Kota");
+    expect(searchPlaces(gazetteer.index, "s")).toHaveLength(8);
+  });
+
+  it("forgives typos", () => {
+    expect(top("vijaywada")?.name).toBe("Vijayawada");
+    expect(top("visakapatnam")?.name).toBe("Visakhapatnam");
+  });
+
+  it("narrows common names by mandal or district", () => {
+    expect(top("srikakulam")).toMatchObject({ district: "Srikakulam" });
+    expect(top("srikakulam krishna")).toMatchObject({ kind: "village", mandal: "Ghantasala" });
+    expect(top("atmakur nandyal")).toMatchObject({ kind: "town", district: "Nandyal" });
+  });
+});
+
+describe("Telugu and other names", () => {
+  it("transliterates Telugu script and folds spellings together", () => {
+    expect(transliterate("విజయవాడ")).toBe("vijayavaada");
+    expect(transliterate("కంభం")).toBe("kambham");
+    expect(transliterate("నంద్యాల")).toBe("nandyaala");
+    expect(phoneticKey("chittooru")).toBe(phoneticKey("chittoor"));
+    expect(phoneticKey("vishakhapatnam")).toBe(phoneticKey("visakapatnam"));
+  });
+
+  it("finds places typed in Telugu", () => {
+    expect(top("విజయవాడ")).toMatchObject({ name: "Vijayawada", telugu: "విజయవాడ" });
+    expect(top("కూచిపూడి")?.name).toBe("Kuchipudi");
+    expect(top("తిరు")?.name).toBe("Tirupati");
+  });
+
+  it("finds places by their historical names", () => {
+    const [bezawada] = searchPlaces(gazetteer.index, "bezawada");
+    expect(bezawada.place.name).toBe("Vijayawada");
+    expect(bezawada.alias).toBe("Bezawada");
+    expect(top("vizag")?.name).toBe("Visakhapatnam");
+    expect(top("rajamahendravaram")).toMatchObject({ name: "Rajahmundry", kind: "town" });
+    expect(searchPlaces(gazetteer.index, "cuddapah").map((match) => match.place.name)).toContain("Kadapa");
+  });
+
+  it("shows the place's own name when that matches too", () => {
+    expect(searchPlaces(gazetteer.index, "vijayawada")[0].alias).toBeUndefined();
+  });
+});
+
+describe("what's here", () => {
+  const offices: RawPostOffices = readData("post-offices.json");
+  const data = {
+    gazetteer,
+    graph: buildRoadGraph(readData("ap-roads.json") as RawRoadGraph),
+    postOffices: offices.offices.map(([pin, name, lat, lng]) => ({ pin, name, point: [lat, lng] as [number, number] })),
+  };
+
+  it("names the village, mandal, district and PIN at a point", () => {
+    const address = reverseGeocode(data, [16.27, 80.98]);
+    expect(addressName(address)).toBe("Kuchipudi");
+    expect(addressContext(address)).toBe("Movva mandal · Krishna district · PIN 521136");
+  });
+
+  it("names a point by the town it is at", () => {
+    expect(addressName(reverseGeocode(data, [16.507, 80.649]))).toBe("Vijayawada");
+    expect(addressName(reverseGeocode(data, [12, 75]))).toBe("12.0000, 75.0000");
+  });
+
+  it("finds the nearest road", () => {
+    const address = reverseGeocode(data, [16.52, 80.62]);
+    expect(address.road).not.toBeNull();
+    expect(address.road!.distance).toBeLessThan(5000);
+  });
+
+  it("falls back to coordinates away from any place", () => {
+    const address = reverseGeocode(data, [15, 83.5]);
+    expect(addressName(address)).toBe("15.0000, 83.5000");
+    expect(address.district).toBeNull();
+    expect(addressContext(address)).toBe("");
+  });
+});
+
+describe("category search", () => {
+  const pois = buildPois(readData("pois.json") as RawPois);
+
+  it("reads a category and the place it is near", () => {
+    expect(parsePoiQuery("hospital near Ongole")).toEqual({ category: "hospital", place: "Ongole" });
+    expect(parsePoiQuery("Temples in Guntur")).toEqual({ category: "temple", place: "Guntur" });
+    expect(parsePoiQuery("Tirupati temples")).toEqual({ category: "temple", place: "Tirupati" });
+    expect(parsePoiQuery("health centres nearby")).toEqual({ category: "hospital", place: null });
+    expect(parsePoiQuery("Ongole")).toBeNull();
+    expect(parsePoiQuery("Gudivada")).toBeNull();
+    // Kinds of place with no sourced list are left for the place search
+    expect(parsePoiQuery("petrol pump")).toBeNull();
+    expect(parsePoiQuery("bus stand")).toBeNull();
+  });
+
+  it("lists the nearest of a category first", () => {
+    const vijayawada = top("Vijayawada")!;
+    const hospitals = nearestPois(pois, "hospital", [vijayawada.lat, vijayawada.lng], 5);
+    expect(hospitals).toHaveLength(5);
+    expect(hospitals[0].poi.name).toBe("Siddhartha Government General Hospital, Vijayawada");
+    expect(hospitals.every(({ poi }) => poi.category === "hospital")).toBe(true);
+    for (let i = 1; i < hospitals.length; i++) {
+      expect(hospitals[i].distance).toBeGreaterThanOrEqual(hospitals[i - 1].distance);
+    }
+
+    const temple = nearestPois(pois, "temple", [13.65, 79.42], 1)[0];
+    expect(temple.poi.name).toMatch(/Tirupati|Tiruchanur|Tirumala/);
+  });
+
+  it("lists only named hospitals and temples, not stand-ins for every town", () => {
+    expect(pois.every(({ category }) => category === "hospital" || category === "temple")).toBe(true);
+    expect(pois.some(({ name }) => /approximate/i.test(name))).toBe(false);
+    expect(pois.length).toBeLessThan(100);
+  });
+});
+
+describe("recent and favourite places", () => {
+  const guntur = { name: "Guntur", lat: 16.3067, lng: 80.4365 };
+  const tenali = { name: "Tenali", lat: 16.243, lng: 80.64 };
+  const ongole = { name: "Ongole", lat: 15.5057, lng: 80.0499 };
+
+  it("keeps the latest pick first and counts repeats", () => {
+    let history = recordPlaceUse(EMPTY_PLACE_HISTORY, guntur, 1);
+    history = recordPlaceUse(history, tenali, 2);
+    history = recordPlaceUse(history, { ...guntur }, 3);
+    expect(history.uses.map((use) => [use.location.name, use.count])).toEqual([
+      ["Guntur", 2],
+      ["Tenali", 1],
+    ]);
+
+    history = toggleFavourite(history, ongole);
+    expect(isFavourite(history, ongole)).toBe(true);
+    expect(isFavourite(toggleFavourite(history, ongole), ongole)).toBe(false);
+  });
+
+  it("moves often picked places up, but not past much better matches", () => {
+    let history = EMPTY_PLACE_HISTORY;
+    for (let i = 0; i < 3; i++) history = recordPlaceUse(history, ongole);
+    const names = (places: typeof guntur[]) => rankByUsage(places, history, (place) => place).map((place) => place.name);
+    // Three picks are worth three places
+    expect(names([guntur, tenali, ongole])).toEqual(["Ongole", "Guntur", "Tenali"]);
+
+    const others = Array.from({ length: 6 }, (_, i) => ({ name: `Place ${i}`, lat: 16 + i / 10, lng: 80 }));
+    expect(names([...others, ongole]).indexOf("Ongole")).toBe(4);
+  });
+
+  it("remembers the description of a place with it, updated by the latest pick", () => {
+    let history = recordPlaceUse(EMPTY_PLACE_HISTORY, { ...guntur, context: "Guntur district" }, 1);
+    history = recordPlaceUse(history, { ...guntur, context: "City · Guntur district" }, 2);
+    expect(history.uses.map((use) => use.location.context)).toEqual(["City · Guntur district"]);
+    history = toggleFavourite(history, { ...tenali, context: "Guntur district" });
+    expect(history.favourites).toEqual([{ ...tenali, context: "Guntur district" }]);
+  });
+
+  it("survives a reload, and starts afresh from unreadable storage", () => {
+    const history = toggleFavourite(recordPlaceUse(EMPTY_PLACE_HISTORY, { ...guntur, context: "Guntur district" }, 1), tenali);
+    writePlaceHistory(window.localStorage, history);
+    expect(readPlaceHistory(window.localStorage)).toEqual(history);
+
+    window.localStorage.setItem("ap-navigator.places", "{not json");
+    expect(readPlaceHistory(window.localStorage)).toEqual(EMPTY_PLACE_HISTORY);
+    window.localStorage.clear();
+  });
+
+  it("drops stored entries that are not places, and reads no storage as no history", () => {
+    const stored = {
+      uses: [{ location: guntur, count: 2, lastUsed: 1 }, { location: { name: "Broken" }, count: 1, lastUsed: 2 }, null],
+      favourites: [tenali, { name: "No position", lat: "16" }, { ...ongole, context: 7 }, 7],
+    };
+    window.localStorage.setItem("ap-navigator.places", JSON.stringify(stored));
+    const history = readPlaceHistory(window.localStorage);
+    expect(history).toEqual({ uses: [stored.uses[0]], favourites: [tenali] });
+    expect(() => rankByUsage([ongole], history, (location) => location)).not.toThrow();
+    window.localStorage.clear();
+
+    expect(readPlaceHistory(null)).toEqual(EMPTY_PLACE_HISTORY);
+    expect(() => writePlaceHistory(null, history)).not.toThrow();
+  });
+});
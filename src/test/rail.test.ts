@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { buildRoadGraph } from "@/lib/routing/graph";
+import { planRailJourney } from "@/lib/transit/multimodal";
+import { buildRailways, railwayFeed, type RawRailways } from "@/lib/transit/rail";
+import { istDayHour } from "@/lib/routing/traffic";
+
+const read = (name: string) =>
+  JSON.parse(readFileSync(path.resolve(__dirname, `../../public/data/${name}`), "utf-8"));
+const graph = buildRoadGraph(read("ap-roads.json"));
+const raw: RawRailways = read("railways.json");
+const railways = buildRailways(raw);
+
+const srikakulam = { name: "Srikakulam", lat: 18.2949, lng: 83.8935 };
+const chittoor = { name: "Chittoor", lat: 13.2172, lng: 79.1003 };
+// Monday 19 October 2026, 8 am Indian time
+const monday = Date.UTC(2026, 9, 19, 8, 0) - 5.5 * 3600 * 1000;
+
+describe("railway timetable", () => {
+  it("only lists stations that exist", () => {
+    const codes = new Set(raw.stations.map((station) => station.code));
+    for (const line of raw.lines) line.stations.forEach((code) => expect(codes).toContain(code));
+    for (const train of raw.trains) train.calls.forEach(([code]) => expect(codes).toContain(code));
+  });
+
+  it("becomes a feed with times past midnight and running days", () => {
+    const feed = railwayFeed({
+      version: 1,
+      stations: [],
+      lines: [],
+      trains: [
+        {
+          number: "1",
+          name: "Night Mail",
+          kind: "express",
+          runs: ["Mon", "Fri"],
+          calls: [["A", "", "22:30"], ["B", "23:50", "23:55"], ["C", "25:10", ""]],
+        },
+      ],
+    });
+    expect(feed.trips[0].stopTimes.map((time) => [time.arrival, time.departure])).toEqual([
+      [81000, 81000],
+      [85800, 86100],
+      [90600, 90600],
+    ]);
+    expect(feed.calendars["Mon,Fri"].days).toEqual([false, true, false, false, false, true, false]);
+  });
+});
+
+describe("rail and road journeys", () => {
+  it("drives to the station, takes the train and drives on", () => {
+    const journey = planRailJourney(graph, railways, srikakulam, chittoor, monday);
+    expect(journey.legs[0]).toMatchObject({ type: "road", from: srikakulam });
+    expect(journey.legs.at(-1)).toMatchObject({ type: "road", to: chittoor });
+    expect(journey.legs.some((leg) => leg.type === "ride")).toBe(true);
+    expect(journey.departure).toBeGreaterThanOrEqual(monday);
+    journey.legs.slice(1).forEach((leg, i) => expect(leg.departure).toBeGreaterThanOrEqual(journey.legs[i].arrival));
+  });
+
+  it("waits for a day the train runs", () => {
+    // The Kondaveedu Express leaves Machilipatnam on Tuesdays, Thursdays and Saturdays
+    const journey = planRailJourney(
+      graph,
+      railways,
+      { name: "Machilipatnam", lat: 16.1875, lng: 81.1389 },
+      { name: "Anantapur", lat: 14.6819, lng: 77.6006 },
+      monday,
+    );
+    const train = journey.legs.find((leg) => leg.type === "ride")!;
+    expect(istDayHour(train.departure)[0]).toBe(2);
+  });
+});
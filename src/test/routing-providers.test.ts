@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import path from "path";
+import { OsrmRoutingProvider } from "@/lib/routing/providers/osrm";
+import { GraphHopperRoutingProvider } from "@/lib/routing/providers/graphhopper";
+import { RoutingProviderError } from "@/lib/routing/provider";
+import { RouteNotFoundError } from "@/lib/routing/engine";
+
+const fixture = (name: string) => readFileSync(path.resolve(__dirname, "fixtures", name), "utf-8");
+
+// Local stand-in for a routing server that replays recorded responses
+let server: Server;
+let baseUrl: string;
+let lastRequest: URL;
+let reply: { status: number; body: string };
+
+const replay = (status: number, body: string) => {
+  reply = { status, body };
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    lastRequest = new URL(req.url!, baseUrl);
+    res.writeHead(reply.status, { "Content-Type": "application/json" });
+    res.end(reply.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const waypoints: [number, number][] = [
+  [16.5062, 80.648],
+  [16.3067, 80.4365],
+];
+
+describe("OsrmRoutingProvider", () => {
+  it("requests /route/v1 with lng,lat coordinates and parses the route", async () => {
+    replay(200, fixture("osrm-route.json"));
+    const route = await new OsrmRoutingProvider(`${baseUrl}/`).route({ waypoints, profile: "car" });
+
+    expect(lastRequest.pathname).toBe("/route/v1/driving/80.648,16.5062;80.4365,16.3067");
+    expect(lastRequest.searchParams.get("steps")).toBe("true");
+    expect(route.geometry[0]).toEqual([16.5062, 80.648]);
+    expect(route.distance).toBeCloseTo(31650.7);
+    expect(route.duration).toBeCloseTo(1721.3);
+    expect(route.legs).toEqual([{ distance: 31650.7, duration: 1721.3 }]);
+    expect(route.steps.map((s) => s.maneuver.type)).toEqual(["depart", "turn", "continue", "arrive"]);
+    expect(route.steps[1].instruction).toBe("Turn left onto NH16");
+    expect(route.summary).toBe("NH16");
+    expect(route.roadClasses.national).toBeCloseTo(30608.1);
+  });
+
+  it("maps NoRoute to RouteNotFoundError", async () => {
+    replay(400, fixture("osrm-no-route.json"));
+    await expect(new OsrmRoutingProvider(baseUrl).route({ waypoints, profile: "walking" })).rejects.toThrow(
+      RouteNotFoundError,
+    );
+    expect(lastRequest.pathname).toMatch(/^\/route\/v1\/foot\//);
+  });
+
+  it("passes avoidances as exclude classes and rejects ones OSRM cannot honour", async () => {
+    replay(200, fixture("osrm-route.json"));
+    await new OsrmRoutingProvider(baseUrl).route({ waypoints, profile: "car", avoid: ["tolls", "ferries"] });
+    expect(lastRequest.searchParams.get("exclude")).toBe("toll,ferry");
+
+    await expect(
+      new OsrmRoutingProvider(baseUrl).route({ waypoints, profile: "car", avoid: ["ghat"] }),
+    ).rejects.toThrow("OSRM cannot avoid ghat roads");
+  });
+
+  it("leaves earlier for an arrive-by trip by the time spent at stops", async () => {
+    replay(200, fixture("osrm-route.json"));
+    const at = Date.UTC(2026, 9, 19, 4, 30);
+    const route = await new OsrmRoutingProvider(baseUrl).route({
+      waypoints: [waypoints[0], [16.43, 80.568], waypoints[1]],
+      profile: "car",
+      time: { type: "arrive", at },
+      stopTimes: [0, 1200, 0],
+    });
+    expect(route.arrival).toBe(at);
+    expect(route.departure).toBeCloseTo(at - (1721.3 + 1200) * 1000);
+  });
+
+  it("reports server errors", async () => {
+    replay(502, "<html>Bad Gateway</html>");
+    await expect(new OsrmRoutingProvider(baseUrl).route({ waypoints, profile: "car" })).rejects.toThrow(
+      RoutingProviderError,
+    );
+  });
+});
+
+describe("GraphHopperRoutingProvider", () => {
+  it("requests /route with lat,lng points and parses the path", async () => {
+    replay(200, fixture("graphhopper-route.json"));
+    const route = await new GraphHopperRoutingProvider(baseUrl, "secret").route({ waypoints, profile: "bicycle" });
+
+    expect(lastRequest.pathname).toBe("/route");
+    expect(lastRequest.searchParams.getAll("point")).toEqual(["16.5062,80.648", "16.3067,80.4365"]);
+    expect(lastRequest.searchParams.get("profile")).toBe("bike");
+    expect(lastRequest.searchParams.get("key")).toBe("secret");
+    expect(lastRequest.searchParams.get("algorithm")).toBeNull();
+    expect(route.duration).toBeCloseTo(1755.412);
+    expect(route.legs).toHaveLength(1);
+    expect(route.legs[0].distance).toBeCloseTo(route.distance);
+    expect(route.steps.map((s) => s.maneuver.type)).toEqual(["depart", "turn", "fork", "arrive"]);
+    expect(route.steps[2].location).toEqual([16.43, 80.568]);
+    expect(route.summary).toBe("NH16, Bandar Road");
+    expect(route.roadClasses.state).toBeGreaterThan(0);
+    expect(route.roadClasses.national).toBeGreaterThan(route.roadClasses.state!);
+  });
+
+  it("maps ConnectionNotFoundException to RouteNotFoundError", async () => {
+    replay(400, fixture("graphhopper-no-route.json"));
+    await expect(
+      new GraphHopperRoutingProvider(baseUrl).route({ waypoints, profile: "car" }),
+    ).rejects.toThrow(RouteNotFoundError);
+  });
+});
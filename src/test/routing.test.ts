@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { buildRoadGraph, type RawRoadGraph } from "@/lib/routing/graph";
+import { findAlternativeRoutes, findRoute, RouteNotFoundError } from "@/lib/routing/engine";
+import { TRAVEL_PROFILES } from "@/lib/routing/profiles";
+import { buildSteps, turnModifier } from "@/lib/routing/steps";
+import { computeIsochrone } from "@/lib/routing/isochrone";
+import { buildTrafficModel, istDayHour, latestDeparture } from "@/lib/routing/traffic";
+import { avoidanceExposure, describeAvoidance, tollPlazasPassed } from "@/lib/routing/avoid";
+
+const raw: RawRoadGraph = JSON.parse(
+  readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8"),
+);
+const graph = buildRoadGraph(raw);
+const traffic = buildTrafficModel(
+  JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/traffic-profiles.json"), "utf-8")),
+);
+
+const vijayawada: [number, number] = [16.5062, 80.648];
+const guntur: [number, number] = [16.3067, 80.4365];
+const visakhapatnam: [number, number] = [17.6868, 83.2185];
+
+describe("findRoute", () => {
+  it("follows the road network between two towns", () => {
+    const route = findRoute(graph, vijayawada, guntur);
+    expect(route.geometry[0]).toEqual(vijayawada);
+    expect(route.geometry[route.geometry.length - 1]).toEqual(guntur);
+    expect(route.distance).toBeGreaterThan(25000);
+    expect(route.distance).toBeLessThan(50000);
+    expect(route.segments.length).toBeGreaterThan(0);
+  });
+
+  it("reports distance and duration summed from the edges used", () => {
+    const route = findRoute(graph, vijayawada, visakhapatnam);
+    const distance = route.segments.reduce((sum, s) => sum + s.distance, 0);
+    expect(route.distance).toBeCloseTo(distance);
+    expect(route.segments.some((s) => s.edge.road.ref === "NH16")).toBe(true);
+    expect(route.duration).toBeGreaterThan(route.distance / (100 / 3.6));
+  });
+
+  it("starts part-way along an edge for off-node locations", () => {
+    const midway: [number, number] = [16.41, 80.54];
+    const route = findRoute(graph, midway, vijayawada);
+    expect(route.distance).toBeLessThan(findRoute(graph, guntur, vijayawada).distance);
+  });
+
+  it("applies the speeds and access rules of the travel mode", () => {
+    const vKota: [number, number] = [12.999, 78.464];
+    const chittoor: [number, number] = [13.2172, 79.1003];
+    const car = findRoute(graph, vKota, chittoor);
+    const walking = findRoute(graph, vKota, chittoor, { profile: TRAVEL_PROFILES.walking });
+
+    expect(car.segments.some((s) => s.edge.road.class === "motorway")).toBe(true);
+    expect(walking.segments.some((s) => s.edge.road.class === "motorway")).toBe(false);
+    expect(walking.duration).toBeGreaterThan(car.duration * 10);
+  });
+
+  it("keeps trucks off unpaved roads", () => {
+    const route = findRoute(graph, [14.058, 78.751], [14.19, 79.159], { profile: TRAVEL_PROFILES.truck });
+    expect(route.segments.some((s) => s.edge.flags.includes("unpaved"))).toBe(false);
+  });
+
+  it("throws when the locations are not connected", () => {
+    const island = buildRoadGraph({
+      version: 1,
+      nodes: [[16, 80, "A"], [16.1, 80, "B"], [17, 82, "C"], [17.1, 82, "D"]],
+      roads: [{ ref: "", name: "Test Road", class: "state" }],
+      edges: [[0, 1, 0, 11000], [2, 3, 0, 11000]],
+    });
+    expect(() => findRoute(island, [16, 80], [17, 82])).toThrow(RouteNotFoundError);
+  });
+});
+
+describe("findAlternativeRoutes", () => {
+  it("returns the fastest route first and distinct alternatives after it", () => {
+    const routes = findAlternativeRoutes(graph, vijayawada, visakhapatnam, 3);
+    expect(routes[0]).toEqual(findRoute(graph, vijayawada, visakhapatnam));
+    expect(routes.length).toBeGreaterThan(1);
+    expect(routes.length).toBeLessThanOrEqual(3);
+    for (const alternative of routes.slice(1)) {
+      expect(alternative.duration).toBeGreaterThanOrEqual(routes[0].duration);
+      expect(alternative.geometry).not.toEqual(routes[0].geometry);
+    }
+  });
+});
+
+describe("buildSteps", () => {
+  it("turns each stretch of road into an instruction ending at the destination", () => {
+    const route = findRoute(graph, vijayawada, visakhapatnam);
+    const steps = buildSteps(graph, [route]);
+    expect(steps[0].maneuver.type).toBe("depart");
+    expect(steps[steps.length - 1].maneuver.type).toBe("arrive");
+    expect(steps.some((step) => step.instruction.includes("NH16"))).toBe(true);
+    expect(steps.reduce((sum, step) => sum + step.distance, 0)).toBeCloseTo(route.distance);
+    for (const step of steps) expect(step.geometry[0]).toEqual(step.location);
+  });
+
+  it("classifies turns by the change in heading", () => {
+    expect(turnModifier(0, 5)).toBe("straight");
+    expect(turnModifier(0, 45)).toBe("slight right");
+    expect(turnModifier(350, 260)).toBe("left");
+    expect(turnModifier(90, 265)).toBe("uturn");
+  });
+});
+
+describe("avoidances", () => {
+  it("counts the toll plazas a route drives through", () => {
+    const route = findRoute(graph, vijayawada, guntur);
+    expect(tollPlazasPassed(graph, route.segments).map((plaza) => plaza.name)).toEqual(["Kaza Toll Plaza"]);
+  });
+
+  it("routes around avoided roads at the cost of a detour", () => {
+    const usual = findRoute(graph, vijayawada, guntur);
+    const tollFree = findRoute(graph, vijayawada, guntur, { avoid: ["tolls"] });
+    expect(avoidanceExposure(graph, tollFree.segments).tolls).toBe(0);
+    expect(tollFree.distance).toBeGreaterThan(usual.distance);
+    expect(describeAvoidance({ avoided: { tolls: 1 }, extraDistance: 18200, extraDuration: 900 })).toBe(
+      "avoids 1 toll plaza, +18.2 km",
+    );
+  });
+
+  it("fails rather than ignoring avoidances no route can meet", () => {
+    // The far north of Srikakulam district is only reached over NH16 and its Madapam toll plaza
+    const ichchapuram: [number, number] = [19.1136, 84.6869];
+    const srikakulam: [number, number] = [18.2949, 83.8935];
+    expect(() => findRoute(graph, ichchapuram, srikakulam, { avoid: ["tolls", "ferries"] })).toThrow(
+      "No route between these locations avoids toll roads and ferries",
+    );
+  });
+});
+
+describe("traffic", () => {
+  // A Monday, in Indian time like the profiles
+  const at = (hour: number) => Date.UTC(2026, 9, 19, hour) - 5.5 * 3600 * 1000;
+
+  it("times each edge for the hour the route reaches it", () => {
+    const rushHour = findRoute(graph, vijayawada, guntur, { traffic, departAt: at(9) });
+    const night = findRoute(graph, vijayawada, guntur, { traffic, departAt: at(2) });
+    expect(rushHour.duration).toBeGreaterThan(night.duration * 1.3);
+    expect(rushHour.duration).toBeCloseTo(rushHour.segments.reduce((sum, s) => sum + s.duration, 0));
+  });
+
+  it("only uses the ferry while it is running", () => {
+    const narsapur: [number, number] = [16.433, 81.696];
+    const sakhinetipalli: [number, number] = [16.402, 81.732];
+    const profile = TRAVEL_PROFILES.walking;
+    const day = findRoute(graph, narsapur, sakhinetipalli, { profile, traffic, departAt: at(12) });
+    const night = findRoute(graph, narsapur, sakhinetipalli, { profile, traffic, departAt: at(23) });
+    expect(day.segments.some((s) => s.edge.flags.includes("ferry"))).toBe(true);
+    expect(night.segments.some((s) => s.edge.flags.includes("ferry"))).toBe(false);
+  });
+
+  it("finds a departure that arrives just before the deadline", () => {
+    const tripDuration = (departAt: number) =>
+      findRoute(graph, vijayawada, visakhapatnam, { traffic, departAt }).duration;
+    const departAt = latestDeparture(at(10), tripDuration);
+    const arrival = departAt + tripDuration(departAt) * 1000;
+    expect(arrival).toBeLessThanOrEqual(at(10));
+    expect(arrival).toBeGreaterThan(at(10) - 60_000);
+  });
+
+  it("reads the profiles in Indian time whatever the host's zone", () => {
+    expect(istDayHour(at(9))).toEqual([1, 9]);
+    // 11 pm Sunday in UTC is already Monday morning in India
+    expect(istDayHour(Date.UTC(2026, 9, 18, 23))).toEqual([1, 4]);
+  });
+
+  it("leaves earlier when the search keeps overshooting the deadline", () => {
+    const hour = 3600 * 1000;
+    // Leaving between 8:45 and 9:30 hits a jam that doubles the trip
+    const tripDuration = (departAt: number) => (departAt >= 8.75 * hour && departAt < 9.5 * hour ? 7200 : 3600);
+    const departAt = latestDeparture(10 * hour, tripDuration);
+    expect(departAt + tripDuration(departAt) * 1000).toBeLessThanOrEqual(10 * hour);
+  });
+
+  it("gives up rather than searching for ever when no departure is on time", () => {
+    const hour = 3600 * 1000;
+    // Each hour earlier adds more than an hour to the trip
+    expect(() => latestDeparture(10 * hour, (departAt) => 3600 + (10 * hour - departAt) / 500)).toThrow(
+      RouteNotFoundError,
+    );
+    expect(() => latestDeparture(10 * hour, () => Infinity)).toThrow(RouteNotFoundError);
+    expect(() => latestDeparture(10 * hour, () => NaN)).toThrow(RouteNotFoundError);
+  });
+});
+
+describe("computeIsochrone", () => {
+  const tirupati: [number, number] = [13.6288, 79.4192];
+
+  // Even-odd test, matching how the rings are drawn
+  const contains = (rings: [number, number][][], [lat, lng]: [number, number]) =>
+    rings.reduce((inside, ring) => {
+      let crossings = 0;
+      ring.forEach(([lat1, lng1], i) => {
+        const [lat2, lng2] = ring[(i + 1) % ring.length];
+        if (lat1 > lat !== lat2 > lat && lng < lng1 + ((lat - lat1) / (lat2 - lat1)) * (lng2 - lng1)) crossings++;
+      });
+      return crossings % 2 === 1 ? !inside : inside;
+    }, false);
+
+  it("lists towns by travel time and outlines each band", () => {
+    const isochrone = computeIsochrone(graph, tirupati, [30, 60, 90]);
+    const minutes = Object.fromEntries(isochrone.places.map((p) => [p.name, p.duration / 60]));
+    expect(minutes["Tirupati"]).toBeLessThan(1);
+    expect(minutes["Renigunta"]).toBeLessThan(30);
+    expect(minutes["Gudur"]).toBeGreaterThan(60);
+    expect(minutes["Vijayawada"]).toBeUndefined();
+
+    const [within30, within60, within90] = isochrone.bands.map((band) => band.rings);
+    const renigunta = graph.nodes[graph.nodeNames.indexOf("Renigunta")];
+    const gudur = graph.nodes[graph.nodeNames.indexOf("Gudur")];
+    expect(contains(within30, renigunta)).toBe(true);
+    expect(contains(within60, gudur)).toBe(false);
+    expect(contains(within90, gudur)).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { buildGazetteer, type RawGazetteer } from "@/lib/places/gazetteer";
+import { buildRoadGraph, type RawRoadGraph } from "@/lib/routing/graph";
+import { findRoute } from "@/lib/routing/engine";
+import type { LatLng } from "@/lib/geo";
+import { parseCsvTrace, parseGpx, parseTrace, type Trace } from "@/lib/trace/parse";
+import { alongAt, districtBreakdown, matchTrace, pointAlong } from "@/lib/trace/match";
+
+const raw: RawRoadGraph = JSON.parse(
+  readFileSync(path.resolve(__dirname, "../../public/data/ap-roads.json"), "utf-8"),
+);
+const graph = buildRoadGraph(raw);
+
+const vijayawada: LatLng = [16.5062, 80.648];
+const rajahmundry: LatLng = [17.0005, 81.804];
+
+// Fixes every ~500 m along a route, pushed up to ~500 m off it in a fixed
+// pseudo-random pattern, logged at 60 km/h
+function noisyTrace(geometry: LatLng[]): Trace {
+  const points: Trace["points"] = [];
+  const start = Date.UTC(2026, 9, 19, 3, 0);
+  let travelled = 0;
+  let seed = 7;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed / 2147483647 - 0.5) * 0.009;
+  };
+  for (let i = 1; i < geometry.length; i++) {
+    const [a, b] = [geometry[i - 1], geometry[i]];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]) * 111000;
+    const steps = Math.max(1, Math.round(length / 500));
+    for (let j = 0; j < steps; j++) {
+      const f = j / steps;
+      points.push({
+        point: [a[0] + (b[0] - a[0]) * f + noise(), a[1] + (b[1] - a[1]) * f + noise()],
+        time: start + ((travelled + length * f) / (60 / 3.6)) * 1000,
+      });
+    }
+    travelled += length;
+  }
+  points.push({ point: geometry[geometry.length - 1], time: start + (travelled / (60 / 3.6)) * 1000 });
+  return { name: "Field visit", points };
+}
+
+describe("trace files", () => {
+  it("reads GPX track points with their times", () => {
+    const trace = parseGpx(`<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+        <trk><name>Morning rounds</name><trkseg>
+          <trkpt lat="16.5062" lon="80.6480"><time>2026-10-19T03:00:00Z</time></trkpt>
+          <trkpt lat="16.5100" lon="80.6400"><time>2026-10-19T03:01:00Z</time></trkpt>
+        </trkseg></trk>
+      </gpx>`);
+    expect(trace.name).toBe("Morning rounds");
+    expect(trace.points).toEqual([
+      { point: [16.5062, 80.648], time: Date.UTC(2026, 9, 19, 3, 0) },
+      { point: [16.51, 80.64], time: Date.UTC(2026, 9, 19, 3, 1) },
+    ]);
+  });
+
+  it("finds the coordinate columns in a CSV log", () => {
+    const trace = parseCsvTrace("Latitude,Longitude,Timestamp\n16.5,80.6,1792378800\n16.6,80.7,1792378860\n");
+    expect(trace.points[1]).toEqual({ point: [16.6, 80.7], time: 1792378860000 });
+    expect(() => parseCsvTrace("a,b\n1,2\n")).toThrow(/latitude and longitude/);
+    expect(() => parseTrace("visit.kml", "")).toThrow(/Unsupported/);
+  });
+});
+
+describe("map matching", () => {
+  const route = findRoute(graph, vijayawada, rajahmundry);
+  const trace = noisyTrace(route.geometry);
+  const match = matchTrace(graph, trace);
+
+  it("recovers the roads a noisy trace was recorded on", () => {
+    const used = new Set(route.segments.map((segment) => segment.edge.id));
+    const onRoute = match.segments
+      .filter((segment) => used.has(segment.edge.id))
+      .reduce((sum, segment) => sum + segment.distance, 0);
+    expect(onRoute / match.distance).toBeGreaterThan(0.95);
+    expect(match.distance).toBeGreaterThan(route.distance * 0.9);
+    expect(match.distance).toBeLessThan(route.distance * 1.1);
+    expect(match.unmatched).toBe(0);
+  });
+
+  it("splits the distance by district", () => {
+    const gazetteer = buildGazetteer(
+      JSON.parse(readFileSync(path.resolve(__dirname, "../../public/data/gazetteer.json"), "utf-8")) as RawGazetteer,
+    );
+    const districts = districtBreakdown(gazetteer, match.segments);
+    expect(districts.map((entry) => entry.district)).toEqual(expect.arrayContaining(["NTR", "Eluru", "East Godavari"]));
+    const total = districts.reduce((sum, entry) => sum + entry.distance, 0);
+    expect(total).toBeCloseTo(match.distance, 0);
+  });
+
+  it("places the playback marker along the matched path by time", () => {
+    const first = match.fixes[0];
+    const last = match.fixes[match.fixes.length - 1];
+    expect(alongAt(match, first.time!)).toBe(0);
+    expect(alongAt(match, last.time!)).toBeCloseTo(match.distance);
+    const halfway = alongAt(match, (first.time! + last.time!) / 2);
+    expect(halfway).toBeGreaterThan(match.distance * 0.3);
+    expect(halfway).toBeLessThan(match.distance * 0.7);
+    expect(pointAlong(match, match.distance)).toEqual(last.point);
+  });
+
+  it("leaves fixes far from any road unmatched", () => {
+    const offshore = matchTrace(graph, {
+      name: "Boat",
+      points: [
+        { point: [15.5, 82.5], time: null },
+        { point: [15.6, 82.6], time: null },
+      ],
+    });
+    expect(offshore.unmatched).toBe(2);
+    expect(offshore.fixes).toHaveLength(0);
+  });
+});
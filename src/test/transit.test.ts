@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseCsv, parseGtfs, parseGtfsTime, unzipTextFiles } from "@/lib/transit/gtfs";
+import { buildTransitNetwork, nextJourneys, planTransit, type RideLeg } from "@/lib/transit/raptor";
+import { railwayFeed } from "@/lib/transit/rail";
+import { istDayHour } from "@/lib/routing/traffic";
+
+const FEED_DIR = path.resolve(__dirname, "../../public/data/gtfs");
+const feed = parseGtfs(
+  Object.fromEntries(
+    ["agency.txt", "stops.txt", "routes.txt", "trips.txt", "stop_times.txt", "calendar.txt"].map((name) => [
+      name,
+      readFileSync(path.join(FEED_DIR, name), "utf-8"),
+    ]),
+  ),
+);
+const network = buildTransitNetwork(feed);
+
+const vijayawada = { name: "Vijayawada", lat: 16.5062, lng: 80.648 };
+const guntur = { name: "Guntur", lat: 16.3067, lng: 80.4365 };
+const machilipatnam = { name: "Machilipatnam", lat: 16.1875, lng: 81.1389 };
+const ongole = { name: "Ongole", lat: 15.5057, lng: 80.0499 };
+
+// Indian time, as the timetables are
+const IST_OFFSET = 5.5 * 3600 * 1000;
+const monday = Date.UTC(2026, 9, 19, 8, 0) - IST_OFFSET;
+const sunday = Date.UTC(2026, 9, 18, 8, 0) - IST_OFFSET;
+
+const rides = (legs: { type: string }[]) => legs.filter((leg): leg is RideLeg => leg.type === "ride");
+
+describe("GTFS parsing", () => {
+  it("reads quoted fields and a byte-order mark", () => {
+    expect(parseCsv('\uFEFFstop_id,stop_name\r\nA,"Bus Stand, ""Old"""\r\n')).toEqual([
+      { stop_id: "A", stop_name: 'Bus Stand, "Old"' },
+    ]);
+  });
+
+  it("allows times past midnight", () => {
+    expect(parseGtfsTime("25:10:00")).toBe(90600);
+    expect(() => parseGtfsTime("9am")).toThrow();
+  });
+
+  describe("unzipping", () => {
+    const zip = (name: string) => {
+      const bytes = readFileSync(path.resolve(__dirname, "fixtures", name));
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    };
+    const stops = 'stop_id,stop_name\nA,Alpha\nB,"Bravo, Old"\n'.repeat(3);
+    const routes = "route_id,route_short_name\nR1,1\n";
+
+    it("reads deflated and stored entries, skipping files that are not text", async () => {
+      expect(await unzipTextFiles(zip("gtfs-mixed.zip"))).toEqual({ "stops.txt": stops, "routes.txt": routes });
+    });
+
+    it("reads entries whose sizes follow in a data descriptor", async () => {
+      // As written by tools that stream the archive out
+      expect(await unzipTextFiles(zip("gtfs-streamed.zip"))).toEqual({ "stops.txt": stops, "routes.txt": routes });
+    });
+
+    it("rejects a file that is not a zip archive", async () => {
+      await expect(unzipTextFiles(new TextEncoder().encode("stop_id,stop_name\n").buffer)).rejects.toThrow(
+        "The file is not a zip archive",
+      );
+    });
+  });
+
+  it("reports missing files", () => {
+    expect(() => parseGtfs({ "stops.txt": "" })).toThrow(/missing routes.txt/);
+  });
+
+  it("loads the sample feed", () => {
+    expect(feed.agency).toMatch(/APSRTC|Andhra Pradesh/);
+    expect(feed.timezone).toBe("Asia/Kolkata");
+    expect(feed.trips.every((trip) => trip.stopTimes.length >= 2)).toBe(true);
+  });
+});
+
+describe("transit routing", () => {
+  it("waits days for a weekly service", () => {
+    const weekly = buildTransitNetwork(
+      railwayFeed({
+        version: 1,
+        stations: [
+          { code: "A", name: "Alpha", lat: 16.5, lng: 80.6 },
+          { code: "B", name: "Bravo", lat: 16.0, lng: 80.0 },
+        ],
+        lines: [],
+        trains: [{ number: "1", name: "Weekly", kind: "express", runs: ["Thu"], calls: [["A", "", "09:00"], ["B", "12:00", ""]] }],
+      }),
+    );
+    // Four days after Sunday morning
+    const [journey] = planTransit(weekly, { name: "A", lat: 16.5, lng: 80.6 }, { name: "B", lat: 16.0, lng: 80.0 }, sunday);
+    expect(istDayHour(rides(journey.legs)[0].departure)[0]).toBe(4);
+    expect(journey.departure - sunday).toBeGreaterThan(4 * 24 * 3600 * 1000);
+  });
+
+  it("reads service days and times in the timetable's zone, not the device's", () => {
+    const daily = buildTransitNetwork(
+      railwayFeed({
+        version: 1,
+        stations: [
+          { code: "A", name: "Alpha", lat: 16.5, lng: 80.6 },
+          { code: "B", name: "Bravo", lat: 16.0, lng: 80.0 },
+        ],
+        lines: [],
+        trains: [{ number: "1", name: "Monday", kind: "express", runs: ["Mon"], calls: [["A", "", "09:00"], ["B", "12:00", ""]] }],
+      }),
+    );
+    // 11 pm Sunday in UTC is already 4:30 am Monday in India
+    const lateSunday = Date.UTC(2026, 9, 18, 23, 0);
+    const [journey] = planTransit(daily, { name: "A", lat: 16.5, lng: 80.6 }, { name: "B", lat: 16.0, lng: 80.0 }, lateSunday);
+    expect(rides(journey.legs)[0].departure).toBe(Date.UTC(2026, 9, 19, 9, 0) - IST_OFFSET);
+  });
+
+  it("takes a direct bus, walking to and from the stops", () => {
+    const [journey] = planTransit(network, guntur, vijayawada, monday);
+    expect(rides(journey.legs)).toHaveLength(1);
+    expect(journey.departure).toBeGreaterThanOrEqual(monday);
+    expect(journey.legs[journey.legs.length - 1]).toMatchObject({ type: "walk", to: vijayawada });
+  });
+
+  it("changes buses, walking between stops where needed", () => {
+    const journeys = nextJourneys(network, machilipatnam, ongole, monday);
+    expect(journeys.length).toBeGreaterThan(1);
+    for (const journey of journeys) {
+      const legs = rides(journey.legs);
+      expect(legs[0].stops[0].name).toBe("Machilipatnam Bus Station");
+      expect(legs[legs.length - 1].stops.at(-1)!.name).toBe("Ongole Bus Station");
+      // Each bus leaves after the previous leg arrives
+      journey.legs.slice(1).forEach((leg, i) => expect(leg.departure).toBeGreaterThanOrEqual(journey.legs[i].arrival));
+    }
+    const walkingChange = journeys.find((journey) =>
+      journey.legs.some((leg, i) => leg.type === "walk" && i > 0 && i < journey.legs.length - 1),
+    );
+    expect(walkingChange?.legs.map((leg) => (leg.type === "walk" ? "walk" : leg.route.shortName))).toEqual([
+      "301",
+      "10",
+      "walk",
+      "215",
+    ]);
+  });
+
+  it("only runs weekday services on weekdays", () => {
+    const routesUsed = (at: number) =>
+      nextJourneys(network, guntur, vijayawada, at).flatMap((journey) => rides(journey.legs).map((leg) => leg.route.id));
+    expect(routesUsed(monday)).toContain("EXP-GNT-VJA-WD");
+    expect(routesUsed(sunday)).not.toContain("EXP-GNT-VJA-WD");
+  });
+
+  it("refuses places with no stop in walking distance", () => {
+    expect(() => planTransit(network, { name: "Kurnool", lat: 15.8281, lng: 78.0373 }, ongole, monday)).toThrow(
+      /No bus stop/,
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import type { LatLng } from "@/lib/geo";
+import { viaInsertIndex } from "@/lib/waypoints";
+
+// A straight route east along the equator through two stops
+const geometry: LatLng[] = [0, 1, 2, 3, 4, 5, 6].map((lng): LatLng => [0, lng]);
+const stops: LatLng[] = [[0, 0], [0, 2], [0, 4], [0, 6]];
+
+describe("viaInsertIndex", () => {
+  it("puts a via-point between the stops either side of where it was grabbed", () => {
+    expect(viaInsertIndex(geometry, stops, [0.1, 1])).toBe(0);
+    expect(viaInsertIndex(geometry, stops, [0.1, 3])).toBe(1);
+    expect(viaInsertIndex(geometry, stops, [-0.1, 5.5])).toBe(2);
+  });
+
+  it("follows the route when it doubles back past a stop", () => {
+    // Out east to the stop at lng 3, then back west to finish at lng 1
+    const loop: LatLng[] = [[0, 0], [0, 3], [0.5, 3], [0.5, 1]];
+    expect(viaInsertIndex(loop, [[0, 0], [0.25, 3], [0.5, 1]], [0.5, 2])).toBe(1);
+  });
+});
@@ -0,0 +1,11 @@
+export interface Location {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+// An intermediate stop in the trip. `location` stays null until the user picks a place.
+export interface Waypoint {
+  id: string;
+  location: Location | null;
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ROUTING_PROVIDER?: string;
+  readonly VITE_ROUTING_URL?: string;
+  readonly VITE_ROUTING_API_KEY?: string;
+  readonly VITE_GEOCODER_PROVIDER?: string;
+  readonly VITE_GEOCODER_URL?: string;
+  readonly VITE_GAZETTEER_URL?: string;
+}
@@ -2,6 +2,9 @@ import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
+// Tests run in UTC, so nothing passes only because the host happens to be in India
+process.env.TZ = "UTC";
+
 export default defineConfig({
   plugins: [react()],
   test: {